@@ -0,0 +1,225 @@
+/**
+ * Trip planner: dates away and who minds the pet (boarding kennel, pet sitter with chosen visit tasks, or a
+ * friend), with the itemised estimate before booking. Lists upcoming trips so they can be called off, or cut
+ * short by coming home early.
+ */
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  FRIEND_RELIABILITY,
+  MAX_VISITS_PER_DAY,
+  absenceCareLabels,
+  formatTripTime,
+  getAbsencePlanProblem,
+  getAbsenceQuote,
+  getQuoteTotal,
+  type Absence,
+  type AbsenceCare,
+  type AbsencePlan,
+} from "@/lib/absence";
+import { getActionDefinition, type PetConfig } from "@/lib/petConfig";
+
+interface AbsencePlannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  petName: string;
+  config: PetConfig;
+  /** Simulated now; trips are booked on the sim clock. */
+  now: number;
+  timeZone: string;
+  absences: Absence[];
+  onPlan: (plan: AbsencePlan) => void;
+  onCancel: (id: string) => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Local "YYYY-MM-DDTHH:mm" for a datetime-local input. */
+function toInputValue(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+const careHints: Record<AbsenceCare, (config: PetConfig) => string> = {
+  boarding: ({ absenceCare }) => `$${absenceCare.boardingPerDay}/day. Every need covered day and night, vet bills extra; a strange place is a little stressful.`,
+  sitter: ({ absenceCare }) => `$${absenceCare.sitterPerVisit}/visit. Does the tasks you pick and takes a sick pet to the vet; home alone in between.`,
+  friend: () => `Free, but only turns up about ${Math.round(FRIEND_RELIABILITY * 10)} times in 10.`,
+};
+
+export const AbsencePlannerDialog = ({
+  open,
+  onOpenChange,
+  petName,
+  config,
+  now,
+  timeZone,
+  absences,
+  onPlan,
+  onCancel,
+}: AbsencePlannerDialogProps) => {
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [care, setCare] = useState<AbsenceCare>("boarding");
+  const [visitsPerDay, setVisitsPerDay] = useState("2");
+  const [tasks, setTasks] = useState<string[]>([]);
+  const nowRef = useRef(now);
+  nowRef.current = now;
+
+  // A fresh three-day trip starting tomorrow each time the planner opens (not on every tick while it's open)
+  useEffect(() => {
+    if (!open) return;
+    const leave = Math.ceil((nowRef.current + DAY_MS) / HOUR_MS) * HOUR_MS;
+    setStart(toInputValue(leave));
+    setEnd(toInputValue(leave + 3 * DAY_MS));
+    setCare("boarding");
+    setVisitsPerDay("2");
+    setTasks(config.absenceCare.visitTasks);
+  }, [open, config]);
+
+  const plan: AbsencePlan = {
+    id: `trip-${new Date(start).getTime()}`,
+    start: new Date(start).getTime(),
+    end: new Date(end).getTime(),
+    care,
+    visitsPerDay: Number(visitsPerDay),
+    tasks: config.absenceCare.visitTasks.filter((task) => tasks.includes(task)),
+  };
+  const datesValid = !Number.isNaN(plan.start) && !Number.isNaN(plan.end);
+  const problem = datesValid ? getAbsencePlanProblem(plan, config.absenceCare, absences, now) : "Pick when you leave and get back.";
+  const quote = problem ? [] : getAbsenceQuote(plan, config.absenceCare, timeZone);
+  const upcoming = absences.filter((absence) => absence.plan.end > now);
+
+  const handlePlan = () => {
+    onPlan(plan);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto border-border bg-card text-foreground sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Plan a trip</DialogTitle>
+          <DialogDescription>
+            While you're away you can't care for {petName} yourself. Whoever you choose looks after them, even while the
+            game is closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <Label>Planned trips</Label>
+            {upcoming.map(({ plan: trip }) => {
+              const underway = trip.start <= now;
+              return (
+                <div key={trip.id} className="flex items-center justify-between gap-2 rounded-md border border-border p-2 text-xs">
+                  <span>
+                    {formatTripTime(trip.start)} – {formatTripTime(trip.end)} · {absenceCareLabels[trip.care]}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => onCancel(trip.id)}>
+                    {underway ? "Come home" : "Call off"}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="trip-start">Leaving</Label>
+            <Input id="trip-start" type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trip-end">Back</Label>
+            <Input id="trip-end" type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} />
+          </div>
+        </div>
+
+        <RadioGroup value={care} onValueChange={(value) => setCare(value as AbsenceCare)} className="gap-3">
+          {(Object.keys(absenceCareLabels) as AbsenceCare[]).map((option) => (
+            <div key={option} className="flex items-start gap-2">
+              <RadioGroupItem value={option} id={`care-${option}`} className="mt-0.5" />
+              <Label htmlFor={`care-${option}`} className="font-normal">
+                <span className="font-medium">{absenceCareLabels[option]}</span>
+                <span className="block text-xs text-muted-foreground">{careHints[option](config)}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {care !== "boarding" && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Label>Visits a day</Label>
+              <Select value={visitsPerDay} onValueChange={setVisitsPerDay}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_VISITS_PER_DAY }, (_, i) => String(i + 1)).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Each visit</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={tasks}
+                onValueChange={setTasks}
+                className="justify-start flex-wrap"
+              >
+                {config.absenceCare.visitTasks.map((task) => (
+                  <ToggleGroupItem key={task} value={task} className="px-2 text-xs">
+                    {getActionDefinition(config, task)?.label ?? task}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-md border border-border bg-muted/30 p-3 text-sm">
+          {problem ? (
+            <p className="text-xs text-destructive">{problem}</p>
+          ) : (
+            <>
+              {quote.map((line) => (
+                <div key={line.label} className="flex justify-between">
+                  <span>{line.label}</span>
+                  <span>${line.amount}</span>
+                </div>
+              ))}
+              <div className="mt-1 flex justify-between border-t border-border pt-1 font-medium">
+                <span>Estimated total</span>
+                <span>${getQuoteTotal(quote)}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handlePlan} disabled={!!problem}>
+            Book trip
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
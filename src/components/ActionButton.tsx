@@ -1,21 +1,24 @@
-/** Single action tile: label, cost (or "Free"), and either cooldown text when disabled or cost when enabled. */
+/** Single action tile: label, cost (or "Free"), and either cooldown text when disabled or cost when enabled; tooltip explains why. */
 import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface ActionButtonProps {
   label: string;
   cost: number;
   disabled?: boolean;
   cooldownMessage?: string;
+  /** Why the action is blocked and when it opens up; shown on hover. */
+  tooltip?: string[];
   onClick: () => void;
 }
 
-export const ActionButton = ({ label, cost, disabled, cooldownMessage, onClick }: ActionButtonProps) => {
-  return (
+export const ActionButton = ({ label, cost, disabled, cooldownMessage, tooltip, onClick }: ActionButtonProps) => {
+  const button = (
     <Button
       onClick={onClick}
       disabled={disabled}
       variant="outline"
-      className="flex flex-col items-center justify-center h-full min-h-[70px] hover:bg-primary/10 hover:border-primary transition-all"
+      className="flex flex-col items-center justify-center h-full w-full min-h-[70px] hover:bg-primary/10 hover:border-primary transition-all"
     >
       <span className="font-medium text-foreground text-sm">{label}</span>
       {disabled && cooldownMessage ? (
@@ -27,4 +30,22 @@ export const ActionButton = ({ label, cost, disabled, cooldownMessage, onClick }
       )}
     </Button>
   );
+
+  if (!tooltip?.length) return button;
+
+  // Disabled buttons swallow pointer events, so the trigger is a wrapper span
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="block h-full" tabIndex={disabled ? 0 : undefined}>
+          {button}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-[220px] space-y-1 text-xs">
+        {tooltip.map((line) => (
+          <p key={line}>{line}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
 };
@@ -1,9 +1,8 @@
 import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
-import { DogIcon, Droplets, Heart, Sparkles, Battery, DollarSign, Clock, HelpCircle, Plus, Stethoscope, ShoppingBag, GlassWater, Scissors, Target, X } from "lucide-react";
+import { Droplets, Heart, HeartPulse, Sparkles, Battery, DollarSign, Clock, HelpCircle, Plus, GlassWater, Target, X, Toilet, Home, HeartHandshake, Briefcase, Luggage, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
 import { PetAvatar } from "./PetAvatar";
 import { ActionButton } from "./ActionButton";
 import { EventLog } from "./EventLog";
@@ -12,26 +11,70 @@ import { Tutorial } from "./Tutorial";
 import { InitialPurchase } from "./InitialPurchase";
 import { OptionsMenu } from "./OptionsMenu";
 import { Report } from "./Report";
+import { SpeedControl } from "./SpeedControl";
+import { PreventiveCare } from "./PreventiveCare";
+import { SkillList } from "./SkillList";
+import { OwnerScheduleDialog } from "./OwnerScheduleDialog";
+import { SleepScheduleDialog } from "./SleepScheduleDialog";
+import { WeatherWidget } from "./WeatherWidget";
+import { AbsencePlannerDialog } from "./AbsencePlannerDialog";
+import { EmergencyAlert } from "./EmergencyAlert";
+import { JourneySummary } from "./JourneySummary";
 import { toast } from "sonner";
-import { petConfigs, PetType } from "@/lib/petConfig";
+import { getBreedConfig, petConfigs, PetType, type StatKey } from "@/lib/petConfig";
+import { getIllnessDefinition } from "@/lib/health";
+import { getEmergencyDefinition } from "@/lib/emergency";
+import { getSurrenderProgress, welfareLevelLabels } from "@/lib/welfare";
+import { formatAge, getAgeDays, getLifeStage } from "@/lib/lifeStages";
+import { bodyConditionLabels, formatWeight, getWeightKg } from "@/lib/bodyCondition";
+import { getCareSchedule } from "@/lib/preventiveCare";
+import { personalityTraits } from "@/lib/personality";
+import { bondLevelLabels, getBondLevel } from "@/lib/bond";
+import { emotionLabels } from "@/lib/emotion";
+import { getOwnerBackAt, type OwnerSchedule } from "@/lib/ownerSchedule";
+import type { SleepAdjustment } from "@/lib/sleepSchedule";
+import { getWeather, getWeatherHistory } from "@/lib/weather";
+import { formatTripTime, getActiveAbsence, type AbsencePlan } from "@/lib/absence";
+import { getMonthlyCostProjection } from "@/lib/costs";
+import { getAllActionAvailability, describeAvailability } from "@/lib/actionAvailability";
+import {
+  TICK_MS,
+  createSimState,
+  restoreSimState,
+  simulate,
+  catchUp,
+  setSpeed,
+  purchaseEssentials,
+  completeCare,
+  setTrainingFocus,
+  setOwnerSchedule,
+  setSleepAdjustment,
+  planAbsence,
+  cancelAbsence,
+  respondToEmergency,
+  startAction,
+  applyAction,
+  cancelAction,
+  getActionPlan,
+  getWeightClass,
+  getEffectiveConfig,
+  getBond,
+  formatCountdown,
+  type ActionId,
+  type Pet,
+  type SimEvent,
+  type SimResult,
+  type SimSpeed,
+  type SimState,
+} from "@/lib/simulation";
 
 /**
- * Main care screen: pet display, stats, actions, events, spending. Loads/saves to vpet_pet_data.
- * Stat decay and sleep use petConfig; dog Feed is free until 120 feeds then $25 + extra time.
+ * Main care screen: pet display, stats, actions, events, spending. Loads/saves to vpet_pet_data, with the
+ * owner's recorded inputs in vpet_pet_inputs so the growing list isn't rewritten on every tick.
+ * Renders the headless engine in lib/simulation; wall-clock time is scaled by the chosen speed before it reaches
+ * the engine, so decay, sleep, action timers and cooldowns all speed up together. Dog Feed is free until 120 feeds.
+ * Once the pet is surrendered for neglect, the end-of-journey summary replaces the care screen.
  */
-interface Pet {
-  type: string;
-  name: string;
-  stats: {
-    hunger: number;
-    happiness: number;
-    hygiene: number;
-    energy: number;
-    thirst: number;
-  };
-  emotion: "happy" | "sad" | "okay" | "grumpy" | "neutral" | "sleeping";
-}
-
 interface EventEntry {
   message: string;
   timestamp: Date;
@@ -45,20 +88,14 @@ interface DashboardProps {
 
 //React State Data Storage
 export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: DashboardProps) => {
-  const [pet, setPet] = useState(initialPet);
-  const [totalSpent, setTotalSpent] = useState(0); 
+  const [sim, setSim] = useState<SimState>(() => createSimState(initialPet, Date.now()));
+  /** Latest engine state for timers and handlers that outlive a render. */
+  const simRef = useRef(sim);
+  /** Wall-clock time the engine was last advanced to; elapsed real time is multiplied by sim.speed. */
+  const lastWallTimeRef = useRef(Date.now());
   const [events, setEvents] = useState<EventEntry[]>([]);
-  const [activeAction, setActiveAction] = useState<string | null>(null);
   const [actionTimer, setActionTimer] = useState(0);
   const [showTutorial, setShowTutorial] = useState(false);
-  const [isSleeping, setIsSleeping] = useState(false);
-  const [lastRestTime, setLastRestTime] = useState(Date.now());
-  const [feedCountdown, setFeedCountdown] = useState<string | null>(null);
-  const [waterCountdown, setWaterCountdown] = useState<string | null>(null);
-  const [walkCountdown, setWalkCountdown] = useState<string | null>(null);
-  const [bathCountdown, setBathCountdown] = useState<string | null>(null);
-  const [trimNailsCountdown, setTrimNailsCountdown] = useState<string | null>(null);
-  const [hasToy, setHasToy] = useState(false);
   const [initialPurchases, setInitialPurchases] = useState({
     collar: false,
     harness: false,
@@ -66,19 +103,64 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
     bowls: false,
     toy: false,
   });
-  const [lastWalkTime, setLastWalkTime] = useState<number>(0);
-  const [lastBathTime, setLastBathTime] = useState<number>(0);
-  const [lastTrimNailsTime, setLastTrimNailsTime] = useState<number>(0);
   const [showInitialPurchase, setShowInitialPurchase] = useState(false);
-  const [feedCount, setFeedCount] = useState<number>(0);
   const [showReport, setShowReport] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showSleep, setShowSleep] = useState(false);
+  const [showTrip, setShowTrip] = useState(false);
   /** History of stat snapshots for report graphs; capped at 500, appended when pet.stats change. */
-  const [statHistory, setStatHistory] = useState<{ t: number; stats: typeof pet.stats }[]>([]); // Uses Stat history array to store the history over time
+  const [statHistory, setStatHistory] = useState<{ t: number; stats: Pet["stats"]; weight?: number; bond?: number }[]>([]); // Uses Stat history array to store the history over time
   const lastAppendedStatsRef = useRef<string>("");
   const actionIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const actionCostRef = useRef<number>(0);
 
-  const petConfig = petConfigs[pet.type as PetType] || petConfigs.dog;
+  const { pet, isSleeping, activeAction, totalSpent, speed } = sim;
+  // Breed overrides (costs, decay, grooming, size) are folded into the config every engine call receives
+  const speciesConfig = petConfigs[pet.type as PetType] || petConfigs.dog;
+  const petConfig = getBreedConfig(speciesConfig, pet.breed);
+  const breedName = speciesConfig.breeds.find((breed) => breed.id === pet.breed)?.name;
+  const actionIds = petConfig.actions.map((action) => action.id);
+  const illnessSymptoms = (sim.illness && getIllnessDefinition(petConfig, sim.illness.id)?.symptoms) || [];
+  const emergencyDefinition = sim.emergency && getEmergencyDefinition(petConfig, sim.emergency.id);
+  const lifeStage = getLifeStage(petConfig, pet.birthDate, sim.time);
+  // "Puppy" already names the species; other stages read "Adult dog", "Senior guinea pig"
+  const speciesName = speciesConfig.name.toLowerCase();
+  const stageLabel = lifeStage.id === "young" ? lifeStage.name : `${lifeStage.name} ${speciesName}`;
+  const weightKg = getWeightKg(petConfig, pet.birthDate, pet.bodyCondition, sim.time);
+  const weightClass = getWeightClass(pet);
+  const bond = getBond(pet);
+  // Litter box / hutch / cage / tank cleanliness is shown for species that don't go outdoors
+  const { enclosureName, meterLabel } = petConfig.elimination;
+  const enclosureLabel = meterLabel ?? (enclosureName && enclosureName.charAt(0).toUpperCase() + enclosureName.slice(1));
+  const isTracked = (stat: StatKey) => !petConfig.untrackedStats?.includes(stat);
+  const careSchedule = getCareSchedule(petConfig, sim.origin.time, sim.careDone, sim.time);
+  const actionAvailability = getAllActionAvailability(sim, actionIds, petConfig);
+  const ownerBackAt = getOwnerBackAt(sim.ownerSchedule, sim.time, sim.timeZone);
+  const trip = getActiveAbsence(sim.absences, sim.time);
+  // The owner adjusts the species' night for the current life stage, not their own earlier adjustment
+  const defaultSleepConfig = getEffectiveConfig(petConfig, { ...pet, sleepAdjustment: undefined }, sim.time);
+  const weather = getWeather(sim.seed, sim.time, sim.timeZone);
+  const weatherHistory = getWeatherHistory(sim.seed, sim.origin.time, sim.time, sim.timeZone);
+  /**
+   * Actions waiting on a threshold or cooldown on the last render, kept once that clears while something else
+   * (owner away, asleep, another action) still blocks them, for "now available" reminders.
+   */
+  const waitingActionsRef = useRef<Set<ActionId>>(new Set());
+
+  const addEvent = (message: string, timestamp: number = simRef.current.time) => {
+    setEvents((prev) => [{ message, timestamp: new Date(timestamp) }, ...prev].slice(0, 20));
+  };
+
+  const publishEvent = (event: SimEvent) => {
+    addEvent(event.message, event.timestamp);
+    if (event.alert) toast[event.alert.level](event.alert.text);
+  };
+
+  /** Store a new engine state and surface the events it produced. */
+  const commitSim = ({ state, events: simEvents }: SimResult) => {
+    simRef.current = state;
+    setSim(state);
+    simEvents.forEach(publishEvent);
+  };
 
   useEffect(() => {
     const savedData = localStorage.getItem("vpet_pet_data");// localStorage is data stored for each user despite browser reloading
@@ -90,8 +172,7 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
 
   const handleInitialPurchaseComplete = (cost: number) => {
     setShowInitialPurchase(false);
-    setTotalSpent((prev) => prev + cost);
-    setHasToy(true);
+    commitSim(purchaseEssentials(simRef.current, cost));
     setInitialPurchases({
       collar: true,
       harness: true,
@@ -99,7 +180,6 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
       bowls: true,
       toy: true,
     });
-    addEvent(`Purchased all essentials for $${cost}`);
     toast.success("All set! Your pet is ready to go!");
     
     // Show tutorial after initial purchase if it should be shown
@@ -110,7 +190,7 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
     }
   };
 
-  /** Restore saved pet, stats (with offline decay), and cooldowns when same pet. */
+  /** Restore saved pet, stats (with offline catch-up through the engine), and cooldowns when same pet. */
   useEffect(() => {
     const savedData = localStorage.getItem("vpet_pet_data");
     
@@ -121,46 +201,20 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
         
         // Check if this is the same pet (same name and type)
         if (parsed.pet.name === initialPet.name && parsed.pet.type === initialPet.type) {
-          const lastSaved = new Date(parsed.lastSaved);
-          const now = new Date();
-          const minutesElapsed = (now.getTime() - lastSaved.getTime()) / (1000 * 60);
-          
-          // Calculate stat decay based on time elapsed
-          const calculateDecay = (stat: number, decayRate: number, hours: number) => {
-            const currentHour = now.getHours();
-            const isNighttime = currentHour >= 22 || currentHour < 6;
-            
-            // During nighttime (10pm-6am), hunger and happiness barely decrease
-            if (isNighttime && (decayRate === 1 || decayRate === 0.5)) {
-              return Math.max(0, stat - (decayRate * 0.2 * hours));
-            }
-            
-            return Math.max(0, stat - (decayRate * hours));
-          };
-          
-          const hoursElapsed = minutesElapsed / 60;
-          const newStats = {
-            hunger: calculateDecay(parsed.pet.stats.hunger, 1, hoursElapsed),
-            happiness: calculateDecay(parsed.pet.stats.happiness, 0.5, hoursElapsed),
-            hygiene: calculateDecay(parsed.pet.stats.hygiene, 0.3, hoursElapsed),
-            energy: calculateDecay(parsed.pet.stats.energy, 0.4, hoursElapsed),
-            thirst: calculateDecay(parsed.pet.stats.thirst || 80, 2, hoursElapsed), // Decays faster than hunger
-          };
+          const lastSaved = new Date(parsed.lastSaved).getTime() || Date.now();
+          const now = Date.now();
+          const minutesElapsed = (now - lastSaved) / (1000 * 60);
+          // Saves from before inputs were stored on their own still carry them in vpet_pet_data
+          const savedInputs = localStorage.getItem("vpet_pet_inputs");
+          const inputs = savedInputs ? JSON.parse(savedInputs) : parsed.inputs;
+          const saved = restoreSimState({ ...parsed, inputs }, lastSaved, petConfig);
           
-          setPet({
-            ...parsed.pet,
-            stats: newStats,
-            emotion: updateEmotion(newStats),
-          });
-          setTotalSpent(parsed.totalSpent || 0);
+          // Replay the (real-time) time away through each day/night window with the live decay rules
+          const restored = catchUp(saved, now - lastSaved, petConfig);
           setEvents(parsed.events || []);
-          setHasToy(parsed.hasToy || false);
           setInitialPurchases(parsed.initialPurchases || initialPurchases);
-          setLastWalkTime(parsed.lastWalkTime || 0);
-          setLastBathTime(parsed.lastBathTime || 0);
-          setLastTrimNailsTime(parsed.lastTrimNailsTime || 0);
-          setFeedCount(parsed.feedCount ?? 0);
           setStatHistory(parsed.statHistory ?? []);
+          commitSim(restored);
           
           if (minutesElapsed > 5) {
             addEvent(`Welcome back! ${Math.floor(minutesElapsed)} minutes have passed.`);
@@ -198,64 +252,53 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
     setShowTutorial(true);
   };
 
-  const addEvent = (message: string) => {
-    setEvents((prev) => [{ message, timestamp: new Date() }, ...prev].slice(0, 20));
+  /** Start a timed action in the engine; when the (speed-scaled) countdown ends, resolve it with applyAction. */
+  const handleAction = (actionId: ActionId) => {
+    if (actionIntervalRef.current) clearInterval(actionIntervalRef.current);
+    // At 1x the engine only ticks every 30s; bring its clock up to now so checks and stamps land on time
+    advanceSim();
+    commitSim(startAction(simRef.current, actionId, petConfig));
+    let remaining = Math.ceil((simRef.current.activeAction?.duration ?? 0) / simRef.current.speed);
+    setActionTimer(remaining);
+
+    const interval = setInterval(() => {
+      remaining -= 1;
+      setActionTimer(Math.max(0, remaining));
+      if (remaining > 0) return;
+      if (actionIntervalRef.current === interval) actionIntervalRef.current = null;
+      clearInterval(interval);
+      advanceSim();
+      commitSim(applyAction(simRef.current, actionId, petConfig));
+    }, 1000);
+    actionIntervalRef.current = interval;
   };
 
-  const updateEmotion = (stats: typeof pet.stats, sleeping: boolean = false) => {
-    if (sleeping) return "sleeping";
-    if (stats.happiness >= 80) return "happy";
-    if (stats.happiness >= 50) return "okay";
-    if (stats.happiness >= 20) return "sad";
-    return "grumpy";
+  const handleCompleteCare = (itemId: string) => {
+    commitSim(completeCare(simRef.current, itemId, petConfig));
   };
 
-  /** Start a timed action; on finish apply statChanges, call extraEffects, toast. */
-  const handleAction = (
-    action: string,
-    cost: number,
-    duration: number,
-    statChanges: Partial<typeof pet.stats>,
-    extraEffects?: () => void
-  ) => {
-    if (actionIntervalRef.current) clearInterval(actionIntervalRef.current);
-    actionCostRef.current = cost;
-    setActiveAction(action);
-    setActionTimer(duration);
-    setTotalSpent((prev) => prev + cost);
+  const handleTrainingFocus = (skillId: string) => {
+    commitSim(setTrainingFocus(simRef.current, skillId, petConfig));
+  };
 
-    if (cost > 0) {
-      addEvent(`Spent $${cost} on ${action.toLowerCase()}`);
-    }
+  const handleScheduleSave = (schedule: OwnerSchedule | null) => {
+    commitSim(setOwnerSchedule(simRef.current, schedule));
+  };
 
-    const interval = setInterval(() => {
-      setActionTimer((prev) => {
-        if (prev <= 1) {
-          if (actionIntervalRef.current === interval) actionIntervalRef.current = null;
-          clearInterval(interval);
-          setActiveAction(null);
-
-          setPet((currentPet) => {
-            const newStats = { ...currentPet.stats, ...statChanges };
-            return {
-              ...currentPet,
-              stats: newStats,
-              emotion: updateEmotion(newStats),
-            };
-          });
-
-          if (extraEffects) {
-            extraEffects();
-          }
+  const handleSleepSave = (adjustment: SleepAdjustment | null) => {
+    commitSim(setSleepAdjustment(simRef.current, adjustment, petConfig));
+  };
 
-          addEvent(`Finished ${action.toLowerCase()}`);
-          toast.success(`${action} complete!`);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    actionIntervalRef.current = interval;
+  const handlePlanTrip = (plan: AbsencePlan) => {
+    commitSim(planAbsence(simRef.current, plan, petConfig));
+  };
+
+  const handleCancelTrip = (id: string) => {
+    commitSim(cancelAbsence(simRef.current, id));
+  };
+
+  const handleEmergency = (goToVet: boolean) => {
+    commitSim(respondToEmergency(simRef.current, goToVet, petConfig));
   };
 
   /** Cancel the current timed action; no stat updates, refund cost, log event. */
@@ -265,11 +308,8 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
       clearInterval(actionIntervalRef.current);
       actionIntervalRef.current = null;
     }
-    const cost = actionCostRef.current;
-    setTotalSpent((prev) => Math.max(0, prev - cost));
-    setActiveAction(null);
+    commitSim(cancelAction(simRef.current));
     setActionTimer(0);
-    addEvent(`${activeAction} stopped early`);
     toast.info("Task cancelled");
   };
 
@@ -277,224 +317,86 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
     const statsKey = JSON.stringify(pet.stats);
     const shouldAppend = statsKey !== lastAppendedStatsRef.current;
     const nextHistory = shouldAppend
-      ? [...statHistory, { t: Date.now(), stats: pet.stats }].slice(-500)
+      ? [...statHistory, { t: sim.time, stats: pet.stats, weight: Math.round(weightKg * 1000) / 1000, bond }].slice(-500)
       : statHistory;
     if (shouldAppend) {
       lastAppendedStatsRef.current = statsKey;
       setStatHistory(nextHistory);
     }
+    // Engine fields keep their names in the save (plus simTime); the in-flight action is not persisted and the
+    // inputs are saved on their own below
+    const { activeAction: _inFlight, time: simTime, inputs: _inputs, ...simData } = sim;
     const dataToSave = {
-      pet,
-      totalSpent,
+      ...simData,
+      simTime,
       events,
-      hasToy,
       initialPurchases,
-      lastWalkTime,
-      lastBathTime,
-      lastTrimNailsTime,
-      feedCount,
       statHistory: nextHistory,
       lastSaved: new Date().toISOString(),
     };
     localStorage.setItem("vpet_pet_data", JSON.stringify(dataToSave));
-  }, [pet, totalSpent, events, hasToy, initialPurchases, lastWalkTime, lastBathTime, lastTrimNailsTime, feedCount, statHistory]);
+  }, [sim, events, initialPurchases, statHistory]);
 
+  /** Recorded inputs only change when the owner does something; time passing keeps the same list. */
   useEffect(() => {
-    const checkSleepCycle = () => {
-      const now = new Date();
-      const currentHour = now.getHours();
-      const { start, end } = petConfig.sleepHours;
-      const shouldBeSleeping = start > end 
-        ? (currentHour >= start || currentHour < end) // e.g., 22-6
-        : (currentHour >= start && currentHour < end); // e.g., 20-7
-      
-      if (shouldBeSleeping && !isSleeping) {
-        setIsSleeping(true);
-        addEvent(`${pet.name} fell asleep 😴`);
-        toast.info(`${pet.name} is sleeping. See you in the morning!`);
-      } else if (!shouldBeSleeping && isSleeping) {
-        setIsSleeping(false);
-        addEvent(`${pet.name} woke up! ☀️`);
-        toast.success(`${pet.name} is awake and ready for the day!`);
-      }
-    };
-    
-    checkSleepCycle();
-    const sleepCheckInterval = setInterval(checkSleepCycle, 60000); // Check every minute
-    
-    return () => clearInterval(sleepCheckInterval);
-  }, [isSleeping, pet.name]);
+    localStorage.setItem("vpet_pet_inputs", JSON.stringify(sim.inputs));
+  }, [sim.inputs]);
 
-  /** Every 30s: apply decay from petConfig (or sleep regen for energy/hunger). */
+  /** Remind the owner when a care action that was waiting on its threshold or cooldown becomes due. */
   useEffect(() => {
-    const decayInterval = setInterval(() => {
-      const now = new Date();
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-      const totalMinutesFromMidnight = currentHour * 60 + currentMinute;
-      
-      const { start, end } = petConfig.sleepHours;
-      const sleepStartMinutes = start * 60;
-      const sleepEndMinutes = end * 60;
-      const isDaytime = start > end
-        ? (totalMinutesFromMidnight < sleepStartMinutes && totalMinutesFromMidnight >= sleepEndMinutes)
-        : (totalMinutesFromMidnight >= sleepEndMinutes && totalMinutesFromMidnight < sleepStartMinutes);
-      
-      if (!activeAction && !isSleeping) {
-        const timeSinceLastRest = Date.now() - lastRestTime;
-        const minutesSinceRest = timeSinceLastRest / (1000 * 60);
-        
-        setPet((currentPet) => {
-          const hungerMultiplier = currentPet.stats.hunger < 25 ? 1.5 : 1;
-          const hygieneMultiplier = currentPet.stats.hygiene < 40 ? 1.5 : 1;
-          
-          const decay = petConfig.decayRates;
-          
-          // Energy: drains faster during day, slight regen when idle
-          const energyChange = isDaytime 
-            ? -(1 / decay.energy) * 0.5 // Drains based on pet config
-            : Math.min(2, minutesSinceRest / 10); // Slight regen when idle at night
-          
-          const newStats = {
-            ...currentPet.stats,
-            hunger: Math.max(0, currentPet.stats.hunger - (1 / decay.hunger) * 0.5),
-            happiness: Math.max(0, currentPet.stats.happiness - ((1 / decay.happiness) * 0.5 * hungerMultiplier * hygieneMultiplier)),
-            hygiene: Math.max(0, currentPet.stats.hygiene - (1 / (decay.hygiene * 2)) * 0.5), // Convert hours to minutes
-            energy: Math.min(100, Math.max(0, currentPet.stats.energy + energyChange)),
-            thirst: Math.max(0, currentPet.stats.thirst - (1 / decay.thirst) * 0.5),
-          };
-          
-          return {
-            ...currentPet,
-            stats: newStats,
-            emotion: updateEmotion(newStats, isSleeping),
-          };
-        });
-        
-        setLastRestTime(Date.now());
-      } else if (isSleeping) {
-        // During sleep: hunger decreases slowly, energy regenerates strongly
-        setPet((currentPet) => {
-          const { start, end } = petConfig.sleepHours;
-          const sleepDuration = start > end ? (24 - start + end) : (end - start);
-          const totalSleepMinutes = sleepDuration * 60;
-          const hungerAtSleep = currentPet.stats.hunger;
-          const targetHungerByMorning = 20;
-          const hungerDecayRate = Math.max(0, (hungerAtSleep - targetHungerByMorning) / totalSleepMinutes);
-          const decay = petConfig.decayRates;
-          
-          const newStats = {
-            ...currentPet.stats,
-            hunger: Math.max(20, currentPet.stats.hunger - (hungerDecayRate * 0.5)), // Slow decay to 20%
-            happiness: Math.max(0, currentPet.stats.happiness - ((1 / decay.happiness) * 0.5 * 0.3)), // Very slow happiness decay
-            hygiene: Math.max(0, currentPet.stats.hygiene - ((1 / (decay.hygiene * 2)) * 0.5 * 0.5)), // Half rate
-            energy: Math.min(100, currentPet.stats.energy + 0.8), // Strong regeneration during sleep
-            thirst: Math.max(15, currentPet.stats.thirst - ((currentPet.stats.thirst - 15) / totalSleepMinutes * 0.5)), // Slow decay during sleep
-          };
-          
-          return {
-            ...currentPet,
-            stats: newStats,
-            emotion: updateEmotion(newStats, true),
-          };
-        });
+    const waiting = new Set<ActionId>();
+    for (const { id, label } of petConfig.actions) {
+      const { available, reasons } = actionAvailability[id];
+      const held = reasons.some((r) => r.code === "threshold" || r.code === "cooldown");
+      if (held || (!available && waitingActionsRef.current.has(id))) waiting.add(id);
+      if (available && waitingActionsRef.current.has(id)) {
+        addEvent(`Reminder: ${label} is due for ${pet.name} ⏰`);
+        toast.info(`${label} is available now`);
       }
-    }, 30000); // Every 30 seconds
-
-    return () => clearInterval(decayInterval);
-  }, [activeAction, isSleeping, lastRestTime]);
+    }
+    waitingActionsRef.current = waiting;
+  }, [actionAvailability, petConfig, pet.name]);
+
+  /** Advance the engine by the real time since the last call, scaled by the current speed. */
+  const advanceSim = () => {
+    const wallNow = Date.now();
+    const elapsed = (wallNow - lastWallTimeRef.current) * simRef.current.speed;
+    lastWallTimeRef.current = wallNow;
+    commitSim(simulate(simRef.current, elapsed, petConfig));
+  };
 
-  useEffect(() => {
-    if (isSleeping || activeAction) return;
-    
-    const idleEventInterval = setInterval(() => {
-      const rand = Math.random();
-      
-      if (rand < 0.02) { // 2% chance every 2 minutes
-        if (pet.stats.happiness < 50) {
-          addEvent(`${pet.name} is waiting for attention 🥺`);
-        } else {
-          const idleEvents = [
-            `${pet.name} is napping peacefully 😴`,
-            `${pet.name} barked at a sound 🐕`,
-            `${pet.name} is watching you curiously 👀`,
-          ];
-          addEvent(idleEvents[Math.floor(Math.random() * idleEvents.length)]);
-        }
-      }
-    }, 120000); // Check every 2 minutes
-    
-    return () => clearInterval(idleEventInterval);
-  }, [isSleeping, activeAction, pet.stats.happiness, pet.name]);
+  const handleSpeedChange = (nextSpeed: SimSpeed) => {
+    advanceSim(); // settle time elapsed at the old speed first
+    commitSim(setSpeed(simRef.current, nextSpeed));
+    toast.info(nextSpeed === 1 ? "Back to real time" : `Simulation running at ${nextSpeed}x`);
+  };
 
-  /** Countdowns for feed/water/exercise/bath/grooming from config thresholds and cooldowns. */
+  /** Every 30 simulated seconds (at least once a real second): decay, sleep regen, sleep/wake transitions. */
   useEffect(() => {
-    const updateCountdowns = () => {
-      const config = petConfig.actions;
-      const decay = petConfig.decayRates;
-      
-      // Feed countdown
-      if (pet.stats.hunger < config.feed.triggerThreshold) {
-        setFeedCountdown(null);
-      } else {
-        const hungerDifference = pet.stats.hunger - config.feed.triggerThreshold;
-        const minutesUntilFeed = hungerDifference * decay.hunger;
-        const hours = Math.floor(minutesUntilFeed / 60);
-        const minutes = Math.ceil(minutesUntilFeed % 60);
-        setFeedCountdown(hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`);
-      }
-
-      // Water countdown
-      if (pet.stats.thirst < config.water.triggerThreshold) {
-        setWaterCountdown(null);
-      } else {
-        const thirstDifference = pet.stats.thirst - config.water.triggerThreshold;
-        const minutesUntilWater = thirstDifference * decay.thirst;
-        const hours = Math.floor(minutesUntilWater / 60);
-        const minutes = Math.ceil(minutesUntilWater % 60);
-        setWaterCountdown(hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`);
-      }
-
-      // Exercise countdown
-      const now = Date.now();
-      const hoursSinceLastExercise = (now - lastWalkTime) / (1000 * 60 * 60);
-      if (hoursSinceLastExercise >= config.exercise.cooldownHours || lastWalkTime === 0) {
-        setWalkCountdown(null);
-      } else {
-        const hoursUntilExercise = config.exercise.cooldownHours - hoursSinceLastExercise;
-        const hours = Math.floor(hoursUntilExercise);
-        const minutes = Math.ceil((hoursUntilExercise - hours) * 60);
-        setWalkCountdown(hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`);
-      }
-
-      // Bath countdown
-      const daysSinceLastBath = (now - lastBathTime) / (1000 * 60 * 60 * 24);
-      if (daysSinceLastBath >= config.bath.cooldownDays || lastBathTime === 0) {
-        setBathCountdown(null);
-      } else {
-        const daysUntilBath = config.bath.cooldownDays - daysSinceLastBath;
-        const days = Math.floor(daysUntilBath);
-        const hours = Math.ceil((daysUntilBath - days) * 24);
-        setBathCountdown(days > 0 ? `${days}d ${hours}h` : `${hours}h`);
-      }
-
-      // Grooming countdown
-      const daysSinceLastTrim = (now - lastTrimNailsTime) / (1000 * 60 * 60 * 24);
-      if (daysSinceLastTrim >= config.grooming.cooldownDays || lastTrimNailsTime === 0) {
-        setTrimNailsCountdown(null);
-      } else {
-        const daysUntilTrim = config.grooming.cooldownDays - daysSinceLastTrim;
-        const days = Math.floor(daysUntilTrim);
-        const hours = Math.ceil((daysUntilTrim - days) * 24);
-        setTrimNailsCountdown(days > 0 ? `${days}d ${hours}h` : `${hours}h`);
-      }
-    };
+    advanceSim();
+    const decayInterval = setInterval(advanceSim, Math.max(1000, TICK_MS / speed));
 
-    updateCountdowns();
-    const countdownInterval = setInterval(updateCountdowns, 30000); // Update every 30 seconds
+    return () => clearInterval(decayInterval);
+  }, [speed]);
 
-    return () => clearInterval(countdownInterval);
-  }, [pet.stats.hunger, pet.stats.thirst, lastWalkTime, lastBathTime, lastTrimNailsTime]);
+  if (sim.surrenderedAt !== null) {
+    return (
+      <JourneySummary
+        petName={pet.name}
+        petType={speciesName}
+        stats={pet.stats}
+        statHistory={statHistory}
+        events={events}
+        totalSpent={totalSpent}
+        bond={bond}
+        welfare={sim.welfare}
+        emergencies={sim.emergencies}
+        adoptedAt={sim.origin.time}
+        surrenderedAt={sim.surrenderedAt}
+        onStartOver={onReset}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted flex flex-col">
@@ -523,9 +425,11 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
           >
             <div className="mb-8">
               <Clock className="w-16 h-16 text-white mx-auto mb-4 animate-pulse-soft" />
-              <h2 className="text-3xl text-white font-light mb-2">{activeAction}</h2>
+              <h2 className="text-3xl text-white font-light mb-2">{activeAction.activity}</h2>
               <p className="text-white/70 text-lg">
-                This is the realistic time it will take...
+                {speed > 1
+                  ? `Sped up ${speed}x — this really takes ${formatCountdown(activeAction.duration * 1000)}`
+                  : "This is the realistic time it will take..."}
               </p>
             </div>
             <div className="text-6xl font-bold text-white">{actionTimer}s</div>
@@ -538,6 +442,19 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
         <div className="container mx-auto px-2 sm:px-4 py-4 flex justify-between items-center max-w-full">
           <h1 className="text-2xl font-bold text-foreground">V-Pet</h1>
           <div className="flex gap-2 items-center">
+            <WeatherWidget weather={weather} />
+            {trip ? (
+              <span className="hidden md:flex items-center gap-1 px-2 py-1 rounded-full bg-muted text-xs font-medium text-muted-foreground">
+                <Luggage className="w-3 h-3" />
+                Away until {formatTripTime(trip.plan.end)}
+              </span>
+            ) : ownerBackAt !== null && (
+              <span className="hidden md:flex items-center gap-1 px-2 py-1 rounded-full bg-muted text-xs font-medium text-muted-foreground">
+                <Briefcase className="w-3 h-3" />
+                Out until {new Date(ownerBackAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+              </span>
+            )}
+            <SpeedControl speed={speed} simTime={sim.time} disabled={!!activeAction} onChange={handleSpeedChange} />
             <Button variant="outline" size="sm" onClick={handleReplayTutorial}>
               <HelpCircle className="w-4 h-4 mr-1" />
               Tutorial
@@ -550,7 +467,12 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
               <Plus className="w-4 h-4 mr-1" />
               New Pet
             </Button>
-            <OptionsMenu onGenerateReport={() => setShowReport(true)} />
+            <OptionsMenu
+              onGenerateReport={() => setShowReport(true)}
+              onEditSchedule={() => setShowSchedule(true)}
+              onEditSleep={() => setShowSleep(true)}
+              onPlanTrip={() => setShowTrip(true)}
+            />
           </div>
         </div>
       </div>
@@ -559,30 +481,131 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
         open={showReport}
         onOpenChange={setShowReport}
         petName={pet.name}
-        petType={pet.type}
+        petType={speciesName}
         stats={pet.stats}
+        untrackedStats={petConfig.untrackedStats}
         emotion={pet.emotion}
+        emotionReason={pet.emotionReason}
+        moodLog={sim.moodLog}
         events={events}
         totalSpent={totalSpent}
         statHistory={statHistory}
+        now={sim.time}
+        peakSpeed={sim.peakSpeed}
+        seed={sim.seed}
+        weight={weightKg}
+        weightLabel={bodyConditionLabels[weightClass]}
+        bond={bond}
+        aloneHistory={sim.aloneHistory}
+        weatherHistory={weatherHistory}
+        emergencies={sim.emergencies}
+        aloneMinutesToday={sim.aloneMinutes}
+        timeZone={sim.timeZone}
+        careSchedule={careSchedule}
+        breedName={breedName}
+        costProjection={getMonthlyCostProjection(petConfig)}
+      />
+
+      <OwnerScheduleDialog
+        open={showSchedule}
+        onOpenChange={setShowSchedule}
+        schedule={sim.ownerSchedule}
+        onSave={handleScheduleSave}
+      />
+      <SleepScheduleDialog
+        open={showSleep}
+        onOpenChange={setShowSleep}
+        petName={pet.name}
+        night={defaultSleepConfig.sleepHours}
+        flex={defaultSleepConfig.sleepFlex}
+        naps={defaultSleepConfig.naps ?? []}
+        timeZone={sim.timeZone}
+        adjustment={pet.sleepAdjustment ?? null}
+        onSave={handleSleepSave}
+      />
+      <AbsencePlannerDialog
+        open={showTrip}
+        onOpenChange={setShowTrip}
+        petName={pet.name}
+        config={petConfig}
+        now={sim.time}
+        timeZone={sim.timeZone}
+        absences={sim.absences}
+        onPlan={handlePlanTrip}
+        onCancel={handleCancelTrip}
       />
 
       <div className="container mx-auto px-2 sm:px-4 py-4 flex-1 overflow-hidden max-w-full">
         <div className="grid grid-cols-2 gap-4 h-full">
           {/* Left Column */}
           <div className="flex flex-col gap-4 h-full min-h-0">
+            {emergencyDefinition && (
+              <EmergencyAlert
+                petName={pet.name}
+                definition={emergencyDefinition}
+                cost={sim.emergency.cost}
+                remainingMs={sim.emergency.deadline - sim.time}
+                onGoToVet={() => handleEmergency(true)}
+                onWait={() => handleEmergency(false)}
+              />
+            )}
+            {sim.welfare.level !== "ok" && (
+              <div className="flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-3 flex-shrink-0">
+                <ShieldAlert className="w-5 h-5 text-destructive shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-foreground">{welfareLevelLabels[sim.welfare.level]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {pet.name} has been left in critical need. Keep every need and health out of the red to win back
+                    trust, or {pet.name} will be surrendered.
+                  </p>
+                  <div className="mt-1 h-1.5 rounded-full bg-muted">
+                    <div
+                      className="h-1.5 rounded-full bg-destructive"
+                      style={{ width: `${getSurrenderProgress(sim.welfare) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
             {/* Pet Display - Top Left */}
             <Card data-tour="pet-display" className="pt-6 px-6 pb-4 bg-gradient-to-br from-card to-card/50 flex-shrink-0">
               <div className="text-center mb-3">
                 <h2 className="text-2xl font-bold text-foreground mb-1">{pet.name}</h2>
-                <p className="text-muted-foreground capitalize">{pet.type}</p>
-                <div className="mt-2 inline-block px-3 py-1 bg-primary/10 rounded-full">
-                  <p className="text-sm font-medium text-primary capitalize">
-                    Mood: {pet.emotion}
+                <p className="text-muted-foreground">
+                  {breedName && `${breedName} · `}
+                  {stageLabel} · {formatAge(getAgeDays(pet.birthDate, sim.time))}
+                </p>
+                {/* Personality: hover a trait for what it changes */}
+                {pet.traits && pet.traits.length > 0 && (
+                  <div className="mt-1 flex flex-wrap justify-center gap-1.5">
+                    {pet.traits.map((id) => (
+                      <span
+                        key={id}
+                        title={personalityTraits[id]?.description}
+                        className="px-2 py-0.5 rounded-full bg-secondary/15 text-xs text-foreground"
+                      >
+                        {personalityTraits[id]?.emoji} {personalityTraits[id]?.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-2 inline-block px-3 py-1 bg-primary/10 rounded-full" title={pet.emotionReason}>
+                  <p className="text-sm font-medium text-primary">
+                    Mood: {emotionLabels[pet.emotion] ?? pet.emotion}
+                  </p>
+                </div>
+                <div
+                  className={`mt-2 ml-2 inline-block px-3 py-1 rounded-full ${
+                    weightClass === "ideal" ? "bg-primary/10 text-primary" : "bg-destructive/10 text-destructive"
+                  }`}
+                >
+                  <p className="text-sm font-medium">
+                    ⚖️ {formatWeight(weightKg)} · {bodyConditionLabels[weightClass]}
                   </p>
                 </div>
               </div>
-              <PetAvatar emotion={pet.emotion} type={pet.type} />
+              <PetAvatar emotion={pet.emotion} reason={pet.emotionReason} type={pet.type} symptoms={illnessSymptoms} />
+              <SkillList config={petConfig} progress={sim.skills} focus={sim.trainingFocus} onFocus={handleTrainingFocus} />
             </Card>
 
             {/* Action Buttons - Below Pet */}
@@ -590,299 +613,21 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
               <h3 className="text-lg font-semibold mb-3 text-foreground flex-shrink-0">Actions</h3>
               <div className="flex-1 min-h-0 grid grid-cols-3 gap-2 overflow-y-auto overflow-x-hidden pr-2 pb-2 content-start">
 
-                {/* Dog: free until 120 feeds, then $25 and +60s "getting food" duration. */}
-                <ActionButton
-                  label="Feed"
-                  cost={pet.type === "dog" ? (feedCount >= 120 ? 25 : 0) : petConfig.actions.feed.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.hunger >= petConfig.actions.feed.triggerThreshold}
-                  cooldownMessage={isSleeping ? "Sleeping" : feedCountdown ? feedCountdown : undefined}
-                  onClick={() => {
-                    const feed = petConfig.actions.feed;
-                    const isDogNeedsRestock = pet.type === "dog" && feedCount >= 120;
-                    const feedCost = pet.type === "dog" ? (feedCount >= 120 ? 25 : 0) : feed.cost;
-                    const feedDuration = isDogNeedsRestock ? 5 + 60 : feed.duration; // +60 sec extra when going to get food
-                    const statChanges: any = {
-                      hunger: Math.min(100, pet.stats.hunger + feed.statChanges.hunger),
-                    };
-                    if (feed.statChanges.happiness) statChanges.happiness = Math.min(100, pet.stats.happiness + feed.statChanges.happiness);
-                    if (feed.statChanges.energy) statChanges.energy = Math.min(100, pet.stats.energy + feed.statChanges.energy);
-                    handleAction(
-                      isDogNeedsRestock ? "Getting food & Feeding" : "Feeding",
-                      feedCost,
-                      feedDuration,
-                      statChanges,
-                      pet.type === "dog" ? () => setFeedCount((c) => c + 1) : undefined
-                    );
-                  }}
-                />
-                <ActionButton
-                  label="Water"
-                  cost={petConfig.actions.water.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.thirst >= petConfig.actions.water.triggerThreshold}
-                  cooldownMessage={isSleeping ? "Sleeping" : waterCountdown ? waterCountdown : undefined}
-                  onClick={() => {
-                    const water = petConfig.actions.water;
-                    const statChanges: any = {
-                      thirst: Math.min(100, pet.stats.thirst + water.statChanges.thirst),
-                    };
-                    if (water.statChanges.happiness) statChanges.happiness = Math.min(100, pet.stats.happiness + water.statChanges.happiness);
-                    handleAction("Giving Water", water.cost, water.duration, statChanges);
-                  }}
-                />
-                <ActionButton
-                  label={pet.type === "dog" ? "Walk" : pet.type === "cat" ? "Play" : pet.type === "parrot" ? "Fly" : "Run"}
-                  cost={petConfig.actions.exercise.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.energy < petConfig.actions.exercise.minEnergy || (lastWalkTime > 0 && walkCountdown !== null)}
-                  cooldownMessage={
-                    isSleeping ? "Sleeping" : 
-                    pet.stats.energy < petConfig.actions.exercise.minEnergy ? "Low energy" : 
-                    walkCountdown ? walkCountdown : 
-                    undefined
-                  }
-                  onClick={() => {
-                    const exercise = petConfig.actions.exercise;
-                    const duration = exercise.duration / 60; // Convert to minutes for display
-                    const energyCost = Math.abs(exercise.statChanges.energy);
-                    const hygieneLoss = exercise.statChanges.hygiene ? Math.abs(exercise.statChanges.hygiene) : 0;
-                    const happinessGain = exercise.statChanges.happiness;
-                    const thirstDecrease = exercise.statChanges.thirst ? Math.abs(exercise.statChanges.thirst) : 0;
-                    const hungerDecrease = exercise.statChanges.hunger ? Math.abs(exercise.statChanges.hunger) : 0;
-                    
-                    const actionLabels: Record<string, string> = {
-                      dog: "walk",
-                      cat: "play session",
-                      parrot: "flight",
-                      rabbit: "run"
-                    };
-                    addEvent(`${pet.name} is going on a ${actionLabels[pet.type] || "exercise"} 🚶`);
-                    
-                    // Schedule random events during exercise
-                    const eventTimers: NodeJS.Timeout[] = [];
-                    const eventMessages: Record<string, string[]> = {
-                      dog: [
-                        `${pet.name} found a stick! +10 Happiness 🦴`,
-                        `${pet.name} met another dog! +15 Happiness 🐕`,
-                        `${pet.name} stepped in mud! -10 Hygiene 💩`
-                      ],
-                      cat: [
-                        `${pet.name} caught a toy! +10 Happiness 🐾`,
-                        `${pet.name} is having fun! +15 Happiness 😸`,
-                        `${pet.name} got a bit messy. -5 Hygiene`
-                      ],
-                      parrot: [
-                        `${pet.name} flew beautifully! +10 Happiness 🦜`,
-                        `${pet.name} is exploring! +15 Happiness 🌿`,
-                        `${pet.name} needs a quick preen. -5 Hygiene`
-                      ],
-                      rabbit: [
-                        `${pet.name} hopped around happily! +10 Happiness 🐰`,
-                        `${pet.name} is full of energy! +15 Happiness 🥕`,
-                        `${pet.name} got a bit dirty. -8 Hygiene`
-                      ]
-                    };
-                    
-                    const messages = eventMessages[pet.type] || eventMessages.dog;
-                    if (Math.random() < 0.10 && messages[0]) {
-                      eventTimers.push(setTimeout(() => {
-                        addEvent(messages[0]);
-                        setPet(p => ({ ...p, stats: { ...p.stats, happiness: Math.min(100, p.stats.happiness + 10) }}));
-                        toast.success("Great exercise!");
-                      }, (exercise.duration * 0.4)));
-                    }
-                    if (Math.random() < 0.08 && messages[1]) {
-                      eventTimers.push(setTimeout(() => {
-                        addEvent(messages[1]);
-                        setPet(p => ({ ...p, stats: { ...p.stats, happiness: Math.min(100, p.stats.happiness + 15) }}));
-                        toast.success("Having fun!");
-                      }, (exercise.duration * 0.6)));
-                    }
-                    if (Math.random() < 0.12 && messages[2]) {
-                      eventTimers.push(setTimeout(() => {
-                        addEvent(messages[2]);
-                        setPet(p => ({ ...p, stats: { ...p.stats, hygiene: Math.max(0, p.stats.hygiene - (hygieneLoss || 5)) }}));
-                        toast.info("Got a bit messy!");
-                      }, (exercise.duration * 0.5)));
-                    }
-                    
-                    const statChanges: any = {
-                      energy: Math.max(0, pet.stats.energy - energyCost),
-                      happiness: Math.min(100, pet.stats.happiness + happinessGain),
-                    };
-                    if (hygieneLoss > 0) statChanges.hygiene = Math.max(0, pet.stats.hygiene - hygieneLoss);
-                    if (thirstDecrease > 0) statChanges.thirst = Math.max(0, pet.stats.thirst - thirstDecrease);
-                    if (hungerDecrease > 0) statChanges.hunger = Math.max(0, pet.stats.hunger - hungerDecrease);
-                    
-                    handleAction(
-                      pet.type === "dog" ? "Walking" : pet.type === "cat" ? "Playing" : pet.type === "parrot" ? "Flying" : "Running",
-                      exercise.cost,
-                      exercise.duration,
-                      statChanges,
-                      () => {
-                        eventTimers.forEach(t => clearTimeout(t));
-                        setLastWalkTime(Date.now());
-                        addEvent(`${pet.name} is back from ${actionLabels[pet.type] || "exercise"}`);
-                      }
-                    );
-                  }}
-                />
-                <ActionButton
-                  label="Play"
-                  cost={petConfig.actions.play.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.energy < petConfig.actions.play.minEnergy || (petConfig.actions.play.requiresToy && !hasToy)}
-                  cooldownMessage={
-                    isSleeping ? "Sleeping" : 
-                    pet.stats.energy < petConfig.actions.play.minEnergy ? "Low energy" : 
-                    (petConfig.actions.play.requiresToy && !hasToy) ? "No toy!" : 
-                    undefined
-                  }
-                  onClick={() => {
-                    const play = petConfig.actions.play;
-                    const energyCost = Math.abs(play.statChanges.energy);
-                    const hygieneLoss = play.statChanges.hygiene ? Math.abs(play.statChanges.hygiene) : 0;
-                    const thirstDecrease = play.statChanges.thirst ? Math.abs(play.statChanges.thirst) : 0;
-                    const hungerDecrease = play.statChanges.hunger ? Math.abs(play.statChanges.hunger) : 0;
-                    
-                    addEvent(`${pet.name} is playing! 🎾`);
-                    
-                    const eventTimers: NodeJS.Timeout[] = [];
-                    
-                    if (Math.random() < 0.10) {
-                      eventTimers.push(setTimeout(() => {
-                        addEvent(`${pet.name} is having great fun! +10 Happiness 🎾`);
-                        setPet(p => ({ ...p, stats: { ...p.stats, happiness: Math.min(100, p.stats.happiness + 10) }}));
-                        toast.success("Perfect playtime!");
-                      }, (play.duration * 0.4)));
-                    }
-                    if (Math.random() < 0.08 && hygieneLoss > 0) {
-                      eventTimers.push(setTimeout(() => {
-                        addEvent(`${pet.name} got a bit messy. -${hygieneLoss} Hygiene 🌪️`);
-                        setPet(p => ({ ...p, stats: { ...p.stats, hygiene: Math.max(0, p.stats.hygiene - hygieneLoss) }}));
-                      }, (play.duration * 0.6)));
-                    }
-                    
-                    // 10% chance toy breaks
-                    const toyBreaks = Math.random() < 0.10 && play.requiresToy;
-                    
-                    const statChanges: any = {
-                      happiness: Math.min(100, pet.stats.happiness + play.statChanges.happiness),
-                      energy: Math.max(0, pet.stats.energy - energyCost),
-                    };
-                    if (hygieneLoss > 0) statChanges.hygiene = Math.max(0, pet.stats.hygiene - hygieneLoss);
-                    if (thirstDecrease > 0) statChanges.thirst = Math.max(0, pet.stats.thirst - thirstDecrease);
-                    if (hungerDecrease > 0) statChanges.hunger = Math.max(0, pet.stats.hunger - hungerDecrease);
-                    
-                    handleAction("Playing", play.cost, play.duration, statChanges, () => {
-                      eventTimers.forEach(t => clearTimeout(t));
-                      if (toyBreaks) {
-                        setHasToy(false);
-                        addEvent(`⚠️ The toy broke! Buy a new one or happiness will drop!`);
-                        toast.error("Toy broke! Buy a new one soon!");
-                        // Start happiness penalty after 1 hour
-                        setTimeout(() => {
-                          if (!hasToy) {
-                            setPet(p => ({ 
-                              ...p, 
-                              stats: { ...p.stats, happiness: Math.max(0, p.stats.happiness - 30) }
-                            }));
-                            addEvent(`${pet.name} is sad without a toy. -30 Happiness 😢`);
-                            toast.error("Your pet is very sad without toys!");
-                          }
-                        }, 60 * 60 * 1000);
-                      }
-                    });
-                  }}
-                />
-                <ActionButton
-                  label="Buy Toy"
-                  cost={15}
-                  disabled={!!activeAction || isSleeping || hasToy}
-                  cooldownMessage={
-                    isSleeping ? "Sleeping" : 
-                    hasToy ? "Already have toy" : 
-                    undefined
-                  }
-                  onClick={() => {
-                    addEvent(`Buying a new toy for ${pet.name} 🛒`);
-                    toast.info("You'll probably go to the mall and buy this, so not much extra time");
-                    handleAction("Buying Toy", 15, 5 * 60, { 
-                      happiness: Math.min(100, pet.stats.happiness + 20)
-                    }, () => {
-                      setHasToy(true);
-                      addEvent("Got a new toy! 🎾");
-                      toast.success("New toy purchased! Your pet loves it!");
-                    });
-                  }}
-                />
-                <ActionButton
-                  label={pet.type === "parrot" ? "Shower" : pet.type === "rabbit" ? "Spot Clean" : "Bath"}
-                  cost={petConfig.actions.bath.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.hygiene >= petConfig.actions.bath.triggerThreshold}
-                  cooldownMessage={
-                    isSleeping ? "Sleeping" : 
-                    pet.stats.hygiene >= petConfig.actions.bath.triggerThreshold ? "Hygiene OK" : 
-                    bathCountdown ? bathCountdown : 
-                    undefined
-                  }
-                  onClick={() => {
-                    const bath = petConfig.actions.bath;
-                    const actionLabel = pet.type === "parrot" ? "Shower" : pet.type === "rabbit" ? "Spot Clean" : "Bath";
-                    addEvent(`${pet.name} is getting a ${actionLabel.toLowerCase()} 🛁`);
-                    const statChanges: any = {
-                      hygiene: Math.min(100, pet.stats.hygiene + bath.statChanges.hygiene),
-                    };
-                    if (bath.statChanges.happiness) {
-                      statChanges.happiness = Math.max(0, Math.min(100, pet.stats.happiness + bath.statChanges.happiness));
-                    }
-                    handleAction(actionLabel, bath.cost, bath.duration, statChanges, () => {
-                      setLastBathTime(Date.now());
-                    });
-                  }}
-                />
-                <ActionButton
-                  label="Vet Visit"
-                  cost={petConfig.actions.vetVisit.cost}
-                  disabled={!!activeAction || isSleeping}
-                  cooldownMessage={isSleeping ? "Sleeping" : undefined}
-                  onClick={() => {
-                    const vet = petConfig.actions.vetVisit;
-                    addEvent(`Taking ${pet.name} to the vet 🏥`);
-                    handleAction("Vet Visit", vet.cost, vet.duration, { 
-                      hygiene: Math.min(100, pet.stats.hygiene + vet.statChanges.hygiene),
-                      happiness: Math.min(100, pet.stats.happiness + vet.statChanges.happiness),
-                      energy: Math.min(100, pet.stats.energy + vet.statChanges.energy)
-                    }, () => {
-                      addEvent(`${pet.name} got a checkup! All healthy! 🩺`);
-                      toast.success("Checkup complete! Your pet is healthy!");
-                    });
-                  }}
-                />
-                <ActionButton
-                  label={pet.type === "parrot" ? "Trim Beak/Claws" : pet.type === "cat" ? "Brush" : pet.type === "rabbit" ? "Brush" : "Trim Nails"}
-                  cost={petConfig.actions.grooming.cost}
-                  disabled={!!activeAction || isSleeping || pet.stats.hygiene >= petConfig.actions.grooming.triggerThreshold}
-                  cooldownMessage={
-                    isSleeping ? "Sleeping" : 
-                    pet.stats.hygiene >= petConfig.actions.grooming.triggerThreshold ? "Hygiene OK" : 
-                    trimNailsCountdown ? trimNailsCountdown : 
-                    undefined
-                  }
-                  onClick={() => {
-                    const grooming = petConfig.actions.grooming;
-                    const actionLabel = pet.type === "parrot" ? "Trimming Beak/Claws" : pet.type === "cat" ? "Brushing" : pet.type === "rabbit" ? "Brushing" : "Trimming Nails";
-                    addEvent(`${actionLabel} ${pet.name} ✂️`);
-                    const statChanges: any = {
-                      hygiene: Math.min(100, pet.stats.hygiene + grooming.statChanges.hygiene),
-                    };
-                    if (grooming.statChanges.happiness) {
-                      statChanges.happiness = Math.max(0, Math.min(100, pet.stats.happiness + grooming.statChanges.happiness));
-                    }
-                    handleAction(actionLabel, grooming.cost, grooming.duration, statChanges, () => {
-                      setLastTrimNailsTime(Date.now());
-                      const finishLabel = pet.type === "parrot" ? "beak and claws are trimmed" : pet.type === "cat" ? "is brushed" : pet.type === "rabbit" ? "is brushed" : "nails are trimmed";
-                      addEvent(`${pet.name}'s ${finishLabel}!`);
-                    });
-                  }}
-                />
+                {/* Cost comes from the plan so restocks (e.g. dog food after 120 feeds) show up. */}
+                {petConfig.actions.map(({ id, label }) => {
+                  const availability = actionAvailability[id];
+                  return (
+                    <ActionButton
+                      key={id}
+                      label={label}
+                      cost={getActionPlan(sim, id, petConfig).cost}
+                      disabled={!availability.available}
+                      cooldownMessage={availability.reasons[0]?.label}
+                      tooltip={describeAvailability(availability)}
+                      onClick={() => handleAction(id)}
+                    />
+                  );
+                })}
               </div>
             </Card>
           </div>
@@ -893,48 +638,84 @@ export const Dashboard = ({ pet: initialPet, onReset, onReplayIntro }: Dashboard
             <Card data-tour="stats" className="p-4 flex-shrink-0">
               <h3 className="text-lg font-semibold mb-2 text-foreground">Stats</h3>
               <div className="space-y-2">
+                <StatBar
+                  icon={HeartPulse}
+                  label="Health"
+                  value={pet.stats.health}
+                  color="bg-red-500"
+                />
                 <StatBar
                   icon={Droplets}
                   label="Hunger"
                   value={pet.stats.hunger}
                   color="bg-blue-500"
                 />
-                <StatBar
-                  icon={GlassWater}
-                  label="Thirst"
-                  value={pet.stats.thirst}
-                  color="bg-cyan-500"
-                />
+                {isTracked("thirst") && (
+                  <StatBar
+                    icon={GlassWater}
+                    label="Thirst"
+                    value={pet.stats.thirst}
+                    color="bg-cyan-500"
+                  />
+                )}
                 <StatBar
                   icon={Heart}
                   label="Happiness"
                   value={pet.stats.happiness}
                   color="bg-pink-500"
                 />
-                <StatBar
-                  icon={Sparkles}
-                  label="Hygiene"
-                  value={pet.stats.hygiene}
-                  color="bg-purple-500"
-                />
+                {isTracked("hygiene") && (
+                  <StatBar
+                    icon={Sparkles}
+                    label="Hygiene"
+                    value={pet.stats.hygiene}
+                    color="bg-purple-500"
+                  />
+                )}
                 <StatBar
                   icon={Battery}
                   label="Energy"
                   value={pet.stats.energy}
                   color="bg-green-500"
                 />
+                {isTracked("bladder") && (
+                  <StatBar
+                    icon={Toilet}
+                    label="Bladder"
+                    value={pet.stats.bladder}
+                    color="bg-amber-500"
+                  />
+                )}
+                <StatBar
+                  icon={HeartHandshake}
+                  label={`Bond · ${bondLevelLabels[getBondLevel(bond)]}`}
+                  value={bond}
+                  color="bg-rose-500"
+                />
+                {enclosureLabel && (
+                  <StatBar
+                    icon={Home}
+                    label={enclosureLabel}
+                    value={100 - sim.enclosureSoil}
+                    color="bg-lime-500"
+                  />
+                )}
               </div>
             </Card>
 
             <div className="grid grid-cols-2 gap-4 flex-1 min-h-0">
-              {/* Spending */}
-              <Card data-tour="spending" className="p-3 bg-gradient-to-br from-secondary/20 to-secondary/5 h-full">
-                <div className="flex items-center gap-2 mb-1">
-                  <DollarSign className="w-4 h-4 text-secondary" />
-                  <h3 className="text-sm font-semibold text-foreground">Total Spent</h3>
-                </div>
-                <p className="text-2xl font-bold text-secondary">${totalSpent}</p>
-              </Card>
+              <div className="flex flex-col gap-4 h-full min-h-0">
+                {/* Spending */}
+                <Card data-tour="spending" className="p-3 bg-gradient-to-br from-secondary/20 to-secondary/5 shrink-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <DollarSign className="w-4 h-4 text-secondary" />
+                    <h3 className="text-sm font-semibold text-foreground">Total Spent</h3>
+                  </div>
+                  <p className="text-2xl font-bold text-secondary">${totalSpent}</p>
+                </Card>
+
+                <PreventiveCare schedule={careSchedule} now={sim.time} onComplete={handleCompleteCare} />
+              </div>
 
               {/* Event Log - Moved to right side */}
               <div data-tour="events" className="h-full flex w-full">
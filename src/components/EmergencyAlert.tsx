@@ -0,0 +1,51 @@
+/**
+ * Emergency banner: what happened, how long is left on the countdown, and the choice between paying the
+ * emergency vet's bill now or waiting it out and risking the pet's health.
+ */
+import { motion } from "framer-motion";
+import { Siren } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatCountdown } from "@/lib/simulation";
+import type { EmergencyDefinition } from "@/lib/petConfig";
+
+interface EmergencyAlertProps {
+  petName: string;
+  definition: EmergencyDefinition;
+  cost: number;
+  /** Sim ms left before the outcome is left to chance. */
+  remainingMs: number;
+  onGoToVet: () => void;
+  onWait: () => void;
+}
+
+export const EmergencyAlert = ({ petName, definition, cost, remainingMs, onGoToVet, onWait }: EmergencyAlertProps) => {
+  const risk = Math.round((1 - definition.recoveryChance) * 100);
+  return (
+    <motion.div initial={{ opacity: 0, y: -8 }} animate={{ opacity: 1, y: 0 }}>
+      <Card className="border-destructive bg-destructive/10 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-start gap-3">
+            <Siren className="mt-0.5 h-5 w-5 shrink-0 text-destructive" />
+            <div>
+              <p className="font-semibold text-foreground">
+                Emergency: {definition.name} · {formatCountdown(Math.max(0, remainingMs))} left
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {petName} needs {definition.treatment.name} (${cost}). Without it there's a {risk}% chance of serious harm.
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onWait}>
+              Wait it out
+            </Button>
+            <Button variant="destructive" size="sm" onClick={onGoToVet}>
+              Emergency vet (${cost})
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -1,53 +1,20 @@
 /**
- * First-time setup: buy essentials (bowls, bed, toy, etc.) per pet type. One-time cost; then tutorial can show.
+ * First-time setup: buy the species' essentials (bowls, bed, tank, toy, etc.) from its config. One-time cost;
+ * then tutorial can show.
  */
 import { motion } from "framer-motion";
 import { ShoppingBag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { petConfigs, type PetType } from "@/lib/petConfig";
 
 interface InitialPurchaseProps {
   onComplete: (totalCost: number) => void;
   petType: string;
 }
 
-/** Essentials list and prices per pet type (dog bowls $30, etc.). */
-const getPurchaseItems = (petType: string) => {
-  const items: Record<string, Array<{ id: string; name: string; cost: number; description: string }>> = {
-    dog: [
-      { id: "collar", name: "Collar", cost: 15, description: "Essential for walks" },
-      { id: "harness", name: "Harness", cost: 25, description: "Safe walking gear" },
-      { id: "bed", name: "Dog Bed", cost: 50, description: "Comfy sleeping spot" },
-      { id: "bowls", name: "Food & Water Bowls", cost: 30, description: "For meals" },
-      { id: "toy", name: "Dog Toy", cost: 15, description: "For playtime fun" },
-    ],
-    cat: [
-      { id: "collar", name: "Collar", cost: 12, description: "ID tag holder" },
-      { id: "bed", name: "Cat Bed", cost: 40, description: "Comfy sleeping spot" },
-      { id: "bowls", name: "Food & Water Bowls", cost: 18, description: "For meals" },
-      { id: "toy", name: "Cat Toy", cost: 12, description: "For playtime fun" },
-      { id: "litter", name: "Litter Box", cost: 30, description: "Essential for cats" },
-    ],
-    parrot: [
-      { id: "cage", name: "Cage", cost: 80, description: "Safe home" },
-      { id: "perch", name: "Perch", cost: 25, description: "For resting" },
-      { id: "bowls", name: "Food & Water Bowls", cost: 15, description: "For meals" },
-      { id: "toy", name: "Bird Toy", cost: 18, description: "For enrichment" },
-      { id: "toys", name: "Extra Toys", cost: 20, description: "More enrichment" },
-    ],
-    rabbit: [
-      { id: "hutch", name: "Hutch", cost: 60, description: "Safe home" },
-      { id: "bedding", name: "Bedding", cost: 20, description: "Comfy sleeping" },
-      { id: "bowls", name: "Food & Water Bowls", cost: 15, description: "For meals" },
-      { id: "toy", name: "Rabbit Toy", cost: 12, description: "For playtime fun" },
-      { id: "hay", name: "Hay Rack", cost: 10, description: "For feeding" },
-    ],
-  };
-  return items[petType] || items.dog;
-};
-
 export const InitialPurchase = ({ onComplete, petType }: InitialPurchaseProps) => {
-  const purchaseItems = getPurchaseItems(petType);
+  const purchaseItems = (petConfigs[petType as PetType] || petConfigs.dog).essentials;
   const totalCost = purchaseItems.reduce((sum, item) => sum + item.cost, 0);
 
   return (
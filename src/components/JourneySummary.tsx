@@ -0,0 +1,131 @@
+/**
+ * End of the journey after a surrender: how long the pet stayed, what it cost, which needs were left critical and
+ * for how long, and what to do differently (the report's improvements, over the whole adoption), with a way to
+ * adopt again.
+ */
+import { motion } from "framer-motion";
+import { HeartCrack } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  getActionCounts,
+  getAverageStat,
+  getEmergencySummary,
+  getGrade,
+  getImprovements,
+  getOverallScore,
+  type EventEntry,
+  type PetStats,
+  type StatHistoryEntry,
+} from "@/lib/reportLogic";
+import { bondLevelLabels, getBondLevel } from "@/lib/bond";
+import { getNeglectReasons, type Welfare } from "@/lib/welfare";
+import type { EmergencyRecord } from "@/lib/emergency";
+
+interface JourneySummaryProps {
+  petName: string;
+  petType: string;
+  stats: PetStats;
+  statHistory: StatHistoryEntry[];
+  events: EventEntry[];
+  totalSpent: number;
+  bond: number;
+  welfare: Welfare;
+  emergencies: EmergencyRecord[];
+  adoptedAt: number;
+  surrenderedAt: number;
+  onStartOver: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const JourneySummary = ({
+  petName,
+  petType,
+  stats,
+  statHistory,
+  events,
+  totalSpent,
+  bond,
+  welfare,
+  emergencies,
+  adoptedAt,
+  surrenderedAt,
+  onStartOver,
+}: JourneySummaryProps) => {
+  // The whole adoption, not just the final state, decides what went wrong
+  const average = { ...stats };
+  for (const key of Object.keys(stats) as (keyof PetStats)[]) average[key] = getAverageStat(statHistory, key, stats[key]);
+  const counts = getActionCounts(events);
+  const improvements = getImprovements(average, counts);
+  const reasons = getNeglectReasons(welfare);
+  const untreated = getEmergencySummary(emergencies, "all", surrenderedAt).records.filter((record) => record.outcome !== "treated");
+  const days = Math.max(1, Math.round((surrenderedAt - adoptedAt) / DAY_MS));
+  const facts = [
+    { label: "Days together", value: String(days) },
+    { label: "Money spent", value: `$${Math.round(totalSpent)}` },
+    { label: "Bond", value: bondLevelLabels[getBondLevel(bond)] },
+    { label: "Care grade", value: getGrade(getOverallScore(average, counts)) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted flex items-center justify-center p-4">
+      <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} className="w-full max-w-2xl">
+        <Card className="p-6 space-y-5">
+          <div className="text-center space-y-2">
+            <HeartCrack className="w-12 h-12 text-destructive mx-auto" />
+            <h1 className="text-2xl font-bold text-foreground">{petName} has been surrendered</h1>
+            <p className="text-sm text-muted-foreground">
+              After repeated welfare warnings, {petName} was taken back to the shelter on{" "}
+              {new Date(surrenderedAt).toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long" })}.
+              About 1 in every 5 pets is returned after adoption, and the move is hard on them. Here's what went wrong, so
+              the next {petType} can stay.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {facts.map((fact) => (
+              <div key={fact.label} className="rounded-lg border border-border bg-muted/20 p-3 text-center">
+                <p className="text-lg font-semibold text-foreground">{fact.value}</p>
+                <p className="text-xs text-muted-foreground">{fact.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {(reasons.length > 0 || untreated.length > 0) && (
+            <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-4">
+              <p className="text-sm font-semibold text-foreground mb-2">What went wrong</p>
+              <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+                {reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+                {untreated.length > 0 && (
+                  <li>
+                    {untreated.length} emergenc{untreated.length === 1 ? "y" : "ies"} went untreated (
+                    {untreated.map((record) => record.name.toLowerCase()).join(", ")})
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="rounded-lg border border-border bg-muted/20 p-4">
+            <p className="text-sm font-semibold text-foreground mb-3">What to do differently</p>
+            <ul className="space-y-3">
+              {improvements.map((item, i) => (
+                <li key={i} className="text-sm">
+                  <span className="text-destructive/90">• {item.wrong}</span>
+                  <p className="text-muted-foreground mt-1 pl-4">→ {item.better}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <Button className="w-full" onClick={onStartOver}>
+            Adopt a new pet
+          </Button>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
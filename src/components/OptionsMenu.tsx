@@ -1,7 +1,7 @@
 /**
- * Header options: Q&A and Generate Report. Report callback is passed from Dashboard so it can open the modal with current pet data.
+ * Header options: Q&A, Generate Report, My Schedule, Sleep Schedule and Plan a Trip. Callbacks are passed from Dashboard so it can open the modals with current pet data.
  */
-import { MoreHorizontal, HelpCircle, FileText } from "lucide-react";
+import { MoreHorizontal, HelpCircle, FileText, CalendarClock, Moon, Plane } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,9 +13,12 @@ import { useNavigate } from "react-router-dom";
 
 interface OptionsMenuProps {
   onGenerateReport?: () => void;
+  onEditSchedule?: () => void;
+  onEditSleep?: () => void;
+  onPlanTrip?: () => void;
 }
 
-export const OptionsMenu = ({ onGenerateReport }: OptionsMenuProps) => {
+export const OptionsMenu = ({ onGenerateReport, onEditSchedule, onEditSleep, onPlanTrip }: OptionsMenuProps) => {
   const navigate = useNavigate();
 
   return (
@@ -35,6 +38,33 @@ export const OptionsMenu = ({ onGenerateReport }: OptionsMenuProps) => {
             Generate Report
           </DropdownMenuItem>
         )}
+        {onEditSchedule && (
+          <DropdownMenuItem
+            onClick={onEditSchedule}
+            className="cursor-pointer"
+          >
+            <CalendarClock className="w-4 h-4 mr-2" />
+            My Schedule
+          </DropdownMenuItem>
+        )}
+        {onEditSleep && (
+          <DropdownMenuItem
+            onClick={onEditSleep}
+            className="cursor-pointer"
+          >
+            <Moon className="w-4 h-4 mr-2" />
+            Sleep Schedule
+          </DropdownMenuItem>
+        )}
+        {onPlanTrip && (
+          <DropdownMenuItem
+            onClick={onPlanTrip}
+            className="cursor-pointer"
+          >
+            <Plane className="w-4 h-4 mr-2" />
+            Plan a Trip
+          </DropdownMenuItem>
+        )}
         <DropdownMenuItem
           onClick={() => navigate("/qa")}
           className="cursor-pointer"
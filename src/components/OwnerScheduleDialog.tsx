@@ -0,0 +1,139 @@
+/**
+ * Owner schedule form: work or school days, hours and commute. Saving hands the schedule to the engine, which
+ * blocks care actions and counts the pet's alone time while the owner is out. Turning it off means always home.
+ */
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_OWNER_SCHEDULE,
+  formatHour,
+  formatSchedule,
+  parseHour,
+  weekdayLabels,
+  type OwnerSchedule,
+} from "@/lib/ownerSchedule";
+
+interface OwnerScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: OwnerSchedule | null;
+  onSave: (schedule: OwnerSchedule | null) => void;
+}
+
+/** Monday first, as most weekly planners show it. */
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const OwnerScheduleDialog = ({ open, onOpenChange, schedule, onSave }: OwnerScheduleDialogProps) => {
+  const [enabled, setEnabled] = useState(schedule !== null);
+  const [workDays, setWorkDays] = useState<string[]>([]);
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [commute, setCommute] = useState("");
+
+  // Start from the saved schedule each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const current = schedule ?? DEFAULT_OWNER_SCHEDULE;
+    setEnabled(schedule !== null);
+    setWorkDays(current.workDays.map(String));
+    setStart(formatHour(current.workStart));
+    setEnd(formatHour(current.workEnd));
+    setCommute(String(current.commuteMinutes));
+  }, [open, schedule]);
+
+  const workStart = parseHour(start);
+  const workEnd = parseHour(end);
+  const commuteMinutes = Math.max(0, Math.min(180, Math.round(Number(commute) || 0)));
+  const problem =
+    workDays.length === 0
+      ? "Pick at least one day."
+      : workStart === null || workEnd === null || workStart === workEnd
+        ? "Start and end need to be different times."
+        : null;
+  const valid = !enabled || !problem;
+  const draft: OwnerSchedule | null =
+    enabled && valid ? { workDays: workDays.map(Number), workStart, workEnd, commuteMinutes } : null;
+
+  const handleSave = () => {
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-foreground sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Your weekly schedule</DialogTitle>
+          <DialogDescription>
+            While you're at work or school you can't care for your pet, and it spends that time home alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="schedule-enabled">I work or study away from home</Label>
+          <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        {enabled && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Days away (the rest are days off)</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={workDays}
+                onValueChange={setWorkDays}
+                className="justify-start flex-wrap"
+              >
+                {WEEK_ORDER.map((day) => (
+                  <ToggleGroupItem key={day} value={String(day)} className="px-2 text-xs">
+                    {weekdayLabels[day]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-start">Starts</Label>
+                <Input id="schedule-start" type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-end">Ends</Label>
+                <Input id="schedule-end" type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-commute">Commute (min)</Label>
+                <Input
+                  id="schedule-commute"
+                  type="number"
+                  min={0}
+                  max={180}
+                  value={commute}
+                  onChange={(e) => setCommute(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className={`text-xs ${problem ? "text-destructive" : "text-muted-foreground"}`}>
+              {problem ?? `Away ${formatSchedule(draft)}.`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!valid}>
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,49 +1,56 @@
 /**
- * Large pet icon by type (dog/cat/parrot/rabbit). Color and subtle animation depend on emotion.
+ * Large pet icon from the species config. Color and subtle animation depend on emotion, with the reason for
+ * it underneath; visible illness symptoms are listed below that.
  */
-import { motion } from "framer-motion";
-import { DogIcon, Cat, Bird, Rabbit } from "lucide-react";
+import { motion, type TargetAndTransition } from "framer-motion";
+import { petConfigs, type PetType } from "@/lib/petConfig";
+import type { PetEmotion } from "@/lib/simulation";
 
 interface PetAvatarProps {
-  emotion: "happy" | "sad" | "okay" | "grumpy" | "neutral" | "sleeping";
+  emotion: PetEmotion;
+  /** Why the pet feels that way. */
+  reason?: string;
   type: string;
+  /** Symptoms of an untreated illness, shown under the pet. */
+  symptoms?: string[];
 }
 
-const PetIcon = ({ type, className }: { type: string; className: string }) => {
-  switch (type) {
-    case "cat":
-      return <Cat className={className} strokeWidth={1.5} />;
-    case "parrot":
-      return <Bird className={className} strokeWidth={1.5} />;
-    case "rabbit":
-      return <Rabbit className={className} strokeWidth={1.5} />;
-    case "dog":
-    default:
-      return <DogIcon className={className} strokeWidth={1.5} />;
-  }
-};
-
-const emotionColors = {
+const emotionColors: Record<PetEmotion, string> = {
   happy: "text-accent",
   okay: "text-primary",
   sad: "text-blue-400",
   grumpy: "text-destructive",
   neutral: "text-muted-foreground",
   sleeping: "text-purple-400",
+  hungry: "text-orange-500",
+  thirsty: "text-cyan-500",
+  dirty: "text-amber-700",
+  tired: "text-slate-400",
+  bored: "text-muted-foreground",
+  excited: "text-accent",
+  anxious: "text-yellow-500",
 };
 
-const emotionAnimations = {
+const emotionAnimations: Record<PetEmotion, TargetAndTransition> = {
   happy: { scale: [1, 1.05, 1], rotate: [0, 5, -5, 0] },
   okay: { scale: 1 },
   sad: { y: [0, 5, 0] },
   grumpy: { x: [-2, 2, -2, 2, 0], rotate: [0, -5, 5, 0] },
   neutral: { scale: 1 },
   sleeping: { y: [0, -3, 0], opacity: [1, 0.8, 1] },
+  hungry: { y: [0, -4, 0] },
+  thirsty: { y: [0, -4, 0] },
+  dirty: { rotate: [0, -3, 3, 0] },
+  tired: { scale: [1, 0.97, 1], opacity: [1, 0.85, 1] },
+  bored: { x: [0, -6, 0, 6, 0] },
+  excited: { y: [0, -12, 0], rotate: [0, -8, 8, 0] },
+  anxious: { x: [-1, 1, -1, 1, 0] },
 };
 
-export const PetAvatar = ({ emotion, type }: PetAvatarProps) => {
+export const PetAvatar = ({ emotion, reason, type, symptoms = [] }: PetAvatarProps) => {
+  const PetIcon = (petConfigs[type as PetType] || petConfigs.dog).icon;
   return (
-    <div className="flex items-center justify-center py-5">
+    <div className="flex flex-col items-center justify-center gap-3 py-5">
       <motion.div
         animate={emotionAnimations[emotion]}
         transition={{
@@ -53,8 +60,18 @@ export const PetAvatar = ({ emotion, type }: PetAvatarProps) => {
         }}
         className={`${emotionColors[emotion]} transition-colors duration-500`}
       >
-        <PetIcon type={type} className="w-[172px] h-[172px] drop-shadow-lg" />
+        <PetIcon className="w-[172px] h-[172px] drop-shadow-lg" strokeWidth={1.5} />
       </motion.div>
+      {reason && <p className="text-sm text-muted-foreground text-center">{reason}</p>}
+      {symptoms.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {symptoms.map((symptom) => (
+            <span key={symptom} className="px-2 py-0.5 rounded-full bg-destructive/10 text-xs font-medium text-destructive">
+              🤒 {symptom}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,29 +1,42 @@
 /**
- * Choose pet type and name. Clears previous save and flags tutorial for after first purchase.
+ * Choose pet type, breed (with its projected monthly cost), name and age at adoption (young or adult). Clears
+ * previous save and flags tutorial for after first purchase.
  */
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Dog, Cat, Bird, Rabbit } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { getBreedConfig, petConfigs, type LifeStageId, type PetType } from "@/lib/petConfig";
+import { formatAge, getAdoptableStages } from "@/lib/lifeStages";
+import { getMonthlyCostProjection } from "@/lib/costs";
 
 interface PetSelectionProps {
-  onSelectPet: (type: string, name: string) => void;
+  onSelectPet: (type: string, name: string, stage: LifeStageId, breed: string) => void;
 }
 
-const petTypes = [
-  { id: "dog", name: "Dog", icon: Dog, color: "bg-gradient-to-br from-amber-100 to-orange-100", available: true },
-  { id: "cat", name: "Cat", icon: Cat, color: "bg-gradient-to-br from-purple-100 to-pink-100", available: true },
-  { id: "parrot", name: "Parrot", icon: Bird, color: "bg-gradient-to-br from-green-100 to-teal-100", available: true },
-  { id: "rabbit", name: "Rabbit", icon: Rabbit, color: "bg-gradient-to-br from-blue-100 to-indigo-100", available: true },
-];
+const petTypes = Object.values(petConfigs);
 
 const LETTERS_AND_SPACES_ONLY = /^[a-zA-Z\s]*$/;
 
+const stageHints: Partial<Record<LifeStageId, string>> = {
+  young: "Eats little and often, sleeps more and needs extra vet visits",
+  adult: "Settled routine and yearly checkups",
+};
+
 export const PetSelection = ({ onSelectPet }: PetSelectionProps) => {
   const [selectedType, setSelectedType] = useState<string | null>(null);
   const [petName, setPetName] = useState("");
+  const [stage, setStage] = useState<LifeStageId>("young");
+  const [breed, setBreed] = useState<string | null>(null);
+
+  const speciesConfig = selectedType ? petConfigs[selectedType as PetType] || petConfigs.dog : null;
+  const selectedBreed = breed ?? speciesConfig?.breeds[0]?.id;
+
+  const handleSelectType = (type: string) => {
+    setSelectedType(type);
+    setBreed(null);
+  };
 
   const nameInvalid = petName.length > 0 && !LETTERS_AND_SPACES_ONLY.test(petName);
   const canSubmit = selectedType && petName.trim() && !nameInvalid;
@@ -31,8 +44,9 @@ export const PetSelection = ({ onSelectPet }: PetSelectionProps) => {
   const handleSubmit = () => {
     if (canSubmit) {
       localStorage.removeItem("vpet_pet_data");
+      localStorage.removeItem("vpet_pet_inputs");
       localStorage.setItem("vpet_show_tutorial", "true");
-      onSelectPet(selectedType, petName.trim());
+      onSelectPet(selectedType, petName.trim(), stage, selectedBreed);
     }
   };
 
@@ -56,32 +70,27 @@ export const PetSelection = ({ onSelectPet }: PetSelectionProps) => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
           {petTypes.map((pet, index) => (
             <motion.div
-              key={pet.id}
+              key={pet.type}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
             >
               <Card
                 className={`relative p-6 cursor-pointer transition-all duration-300 ${
-                  selectedType === pet.id
+                  selectedType === pet.type
                     ? "ring-4 ring-primary shadow-lg scale-105"
                     : "hover:shadow-md hover:scale-102"
-                } ${!pet.available ? "opacity-50 cursor-not-allowed" : ""}`}
-                onClick={() => pet.available && setSelectedType(pet.id)}
+                }`}
+                onClick={() => handleSelectType(pet.type)}
               >
                 <div
-                  className={`${pet.color} rounded-2xl p-6 mb-4 flex items-center justify-center`}
+                  className={`${pet.cardColor} rounded-2xl p-6 mb-4 flex items-center justify-center`}
                 >
                   <pet.icon className="w-16 h-16 text-foreground/70" />
                 </div>
                 <h3 className="text-xl font-semibold text-center text-foreground">
                   {pet.name}
                 </h3>
-                {!pet.available && (
-                  <p className="text-xs text-center text-muted-foreground mt-2">
-                    Coming Soon
-                  </p>
-                )}
               </Card>
             </motion.div>
           ))}
@@ -94,6 +103,26 @@ export const PetSelection = ({ onSelectPet }: PetSelectionProps) => {
             className="max-w-md mx-auto"
           >
             <Card className="p-6 bg-card">
+              <label className="block mb-2 text-sm font-medium text-foreground">
+                Breed
+              </label>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {speciesConfig?.breeds.map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    variant={selectedBreed === option.id ? "default" : "outline"}
+                    className="h-auto flex-col items-start gap-0.5 whitespace-normal p-3 text-left"
+                    onClick={() => setBreed(option.id)}
+                  >
+                    <span className="font-medium">{option.name}</span>
+                    <span className="text-xs font-normal opacity-80">{option.description}</span>
+                    <span className="text-xs font-semibold opacity-90">
+                      ~${Math.round(getMonthlyCostProjection(getBreedConfig(speciesConfig, option.id)).total)}/month
+                    </span>
+                  </Button>
+                ))}
+              </div>
               <label className="block mb-2 text-sm font-medium text-foreground">
                 Name your pet
               </label>
@@ -111,6 +140,25 @@ export const PetSelection = ({ onSelectPet }: PetSelectionProps) => {
                 </p>
               )}
               {!nameInvalid && <div className="mb-4" />}
+              <label className="block mb-2 text-sm font-medium text-foreground">
+                Age at adoption
+              </label>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {getAdoptableStages(speciesConfig).map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    variant={stage === option.id ? "default" : "outline"}
+                    className="h-auto flex-col items-start gap-0.5 whitespace-normal p-3 text-left"
+                    onClick={() => setStage(option.id)}
+                  >
+                    <span className="font-medium">
+                      {option.name} · {formatAge(option.adoptionAgeDays ?? 0)}
+                    </span>
+                    <span className="text-xs font-normal opacity-80">{stageHints[option.id]}</span>
+                  </Button>
+                ))}
+              </div>
               <Button
                 onClick={handleSubmit}
                 disabled={!canSubmit}
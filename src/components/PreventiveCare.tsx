@@ -0,0 +1,58 @@
+/**
+ * Preventive care card: the species' vaccines, parasite control and checkups with when each is due, soonest first.
+ * Due and overdue items get a button to take care of them (cost is added to Total Spent).
+ */
+import { Syringe } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { careStatusLabels, formatDueIn, type CareScheduleEntry, type CareStatus } from "@/lib/preventiveCare";
+
+interface PreventiveCareProps {
+  schedule: CareScheduleEntry[];
+  now: number;
+  onComplete: (itemId: string) => void;
+}
+
+const statusStyles: Record<CareStatus, string> = {
+  upcoming: "text-muted-foreground",
+  dueSoon: "text-amber-600",
+  due: "text-orange-600 font-semibold",
+  overdue: "text-destructive font-semibold",
+};
+
+export const PreventiveCare = ({ schedule, now, onComplete }: PreventiveCareProps) => {
+  return (
+    <Card className="p-3 flex-1 flex flex-col min-h-0 overflow-hidden">
+      <div className="flex items-center gap-2 mb-2 shrink-0">
+        <Syringe className="w-4 h-4 text-primary" />
+        <h3 className="text-sm font-semibold text-foreground">Preventive Care</h3>
+      </div>
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="space-y-1.5 pr-3">
+          {schedule.map(({ item, dueAt, overdueAt, status }) => (
+            <div key={item.id} className="flex items-center justify-between gap-2 p-1.5 rounded-lg bg-muted/50 text-xs">
+              <div className="min-w-0">
+                <p className="text-foreground leading-tight truncate">{item.name}</p>
+                <p className={statusStyles[status]}>
+                  {careStatusLabels[status]} · {formatDueIn(status === "overdue" ? overdueAt : dueAt, now)}
+                </p>
+              </div>
+              {(status === "due" || status === "overdue" || status === "dueSoon") && (
+                <Button
+                  size="sm"
+                  variant={status === "overdue" ? "destructive" : "outline"}
+                  className="h-6 px-2 text-[10px] shrink-0"
+                  title={status === "overdue" ? item.overdueWarning : undefined}
+                  onClick={() => onComplete(item.id)}
+                >
+                  Done (${item.cost})
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+};
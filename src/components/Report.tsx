@@ -1,7 +1,11 @@
 /**
  * Care report modal: choose time range (1d / 7d / 30d / since adoption), then view
- * per-stat tabs (Hunger, Thirst, Happiness, Hygiene, Energy) with average + graph, and
- * Mood tab with happiness graph and letter rating. Uses project theme.
+ * per-stat tabs (Health, Hunger, Thirst, Happiness, Hygiene, Energy) with average + graph and any weather that
+ * explains the curve, Weight and Bond trend tabs,
+ * an Alone tab with hours home alone per day, and a Mood tab with happiness graph, letter rating, time spent in each
+ * emotion and recent mood changes, plus emergencies and how they ended, the preventive care schedule and the
+ * breed's projected monthly cost.
+ * Uses project theme.
  */
 import { useState, useMemo } from "react";
 import {
@@ -30,13 +34,33 @@ import {
   filterStatHistoryByRange,
   getAverageStat,
   getMoodRatingFromHappiness,
+  getBondFeedback,
+  getEmotionShares,
+  getRangeStartMs,
+  getAloneDays,
+  getAloneFeedback,
+  getWeatherNote,
+  getEmergencySummary,
   type EventEntry,
+  type MoodEntry,
   type PetStats,
   type ReportTimeRange,
   type StatHistoryEntry,
 } from "@/lib/reportLogic";
-import { Droplets, Heart, Sparkles, Battery, GlassWater, Smile } from "lucide-react";
+import { formatWeight } from "@/lib/bodyCondition";
+import { bondLevelLabels, getBondLevel } from "@/lib/bond";
+import { emotionLabels } from "@/lib/emotion";
+import { careStatusLabels, formatDueIn, type CareScheduleEntry } from "@/lib/preventiveCare";
+import type { CostProjection } from "@/lib/costs";
+import type { AloneDay } from "@/lib/ownerSchedule";
+import { getDeviceTimeZone } from "@/lib/sleepSchedule";
+import type { Weather } from "@/lib/weather";
+import { emergencyOutcomeLabels, type EmergencyRecord } from "@/lib/emergency";
+import type { PetEmotion } from "@/lib/simulation";
+import { Droplets, Heart, HeartPulse, Sparkles, Battery, GlassWater, Smile, FastForward, Scale, HeartHandshake, Home, CloudSun, Siren } from "lucide-react";
 import {
+  BarChart,
+  Bar,
   LineChart,
   Line,
   XAxis,
@@ -52,11 +76,42 @@ export interface ReportProps {
   petName: string;
   petType: string;
   stats: PetStats;
-  emotion: string;
+  /** Stats the species doesn't track (a fish's thirst); left out of the stat summary and graphs. */
+  untrackedStats?: (keyof PetStats)[];
+  emotion: PetEmotion;
+  /** Why the pet currently feels that way. */
+  emotionReason?: string;
+  /** Emotion changes with their reasons, oldest first. */
+  moodLog?: MoodEntry[];
   events: EventEntry[];
   totalSpent: number;
   /** Snapshot history for graphs; can be empty if not yet collected. */
   statHistory?: StatHistoryEntry[];
+  /** Simulated "now" for range filters; differs from the wall clock in accelerated sessions. */
+  now?: number;
+  /** Fastest simulation speed used; above 1 the report is flagged as accelerated. */
+  peakSpeed?: number;
+  /** RNG seed of the session, shown so a report can be replayed. */
+  seed?: number;
+  /** Current weight in kg and its class label ("Ideal weight"). */
+  weight?: number;
+  weightLabel?: string;
+  /** Current owner–pet bond, 0–100. */
+  bond?: number;
+  /** Minutes home alone on each past day, and so far today. */
+  aloneHistory?: AloneDay[];
+  aloneMinutesToday?: number;
+  /** IANA zone of the pet's home; alone days are split and labelled at its midnight. */
+  timeZone?: string;
+  /** Weather of each day since adoption, oldest first. */
+  weatherHistory?: Weather[];
+  /** Emergencies and how each ended, oldest first. */
+  emergencies?: EmergencyRecord[];
+  /** Preventive care items with their due status. */
+  careSchedule?: CareScheduleEntry[];
+  breedName?: string;
+  /** Expected monthly cost of routine care for this breed. */
+  costProjection?: CostProjection;
 }
 
 const TIME_RANGE_OPTIONS: { value: ReportTimeRange; label: string }[] = [
@@ -67,6 +122,7 @@ const TIME_RANGE_OPTIONS: { value: ReportTimeRange; label: string }[] = [
 ];
 
 const statConfig: { key: keyof PetStats; label: string; icon: typeof Heart }[] = [
+  { key: "health", label: "Health", icon: HeartPulse },
   { key: "hunger", label: "Hunger", icon: Droplets },
   { key: "thirst", label: "Thirst", icon: GlassWater },
   { key: "happiness", label: "Happiness", icon: Heart },
@@ -74,9 +130,29 @@ const statConfig: { key: keyof PetStats; label: string; icon: typeof Heart }[] =
   { key: "energy", label: "Energy", icon: Battery },
 ];
 
+/** Weight points from filtered history; entries from before weight tracking are skipped. */
+function buildWeightData(history: StatHistoryEntry[]) {
+  return history
+    .filter((h) => h.weight !== undefined)
+    .map((h) => ({
+      time: new Date(h.t).toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }),
+      value: h.weight as number,
+    }));
+}
+
+/** Bond points from filtered history; entries from before bond tracking are skipped. */
+function buildBondData(history: StatHistoryEntry[]) {
+  return history
+    .filter((h) => h.bond !== undefined)
+    .map((h) => ({
+      time: new Date(h.t).toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }),
+      value: Math.round(h.bond as number),
+    }));
+}
+
 /** Build chart data from filtered history for one stat. */
 function buildChartData(history: StatHistoryEntry[], statKey: keyof PetStats) {
-  return history.map((h) => ({
+  return history.filter((h) => h.stats[statKey] !== undefined).map((h) => ({
     time: new Date(h.t).toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }),
     value: Math.round(h.stats[statKey]),
     full: h.stats[statKey],
@@ -97,15 +173,33 @@ export function Report({
   petName,
   petType,
   stats,
+  untrackedStats = [],
   emotion,
+  emotionReason,
+  moodLog = [],
   events,
   totalSpent,
   statHistory = [],
+  now,
+  peakSpeed = 1,
+  seed,
+  weight,
+  weightLabel,
+  bond,
+  aloneHistory = [],
+  aloneMinutesToday = 0,
+  timeZone = getDeviceTimeZone(),
+  weatherHistory = [],
+  emergencies = [],
+  careSchedule = [],
+  breedName,
+  costProjection,
 }: ReportProps) {
   const [timeRange, setTimeRange] = useState<ReportTimeRange>("7");
+  const trackedStats = statConfig.filter(({ key }) => !untrackedStats.includes(key));
 
-  const filteredEvents = useMemo(() => filterEventsByRange(events, timeRange), [events, timeRange]);
-  const filteredHistory = useMemo(() => filterStatHistoryByRange(statHistory, timeRange), [statHistory, timeRange]);
+  const filteredEvents = useMemo(() => filterEventsByRange(events, timeRange, now), [events, timeRange, now]);
+  const filteredHistory = useMemo(() => filterStatHistoryByRange(statHistory, timeRange, now), [statHistory, timeRange, now]);
 
   const counts = getActionCounts(filteredEvents);
   const score = getOverallScore(stats, counts);
@@ -114,7 +208,23 @@ export function Report({
   const { summary: moodSummary, tips: moodTips } = getMoodFeedback(stats, counts);
 
   const avgHappiness = getAverageStat(filteredHistory, "happiness", stats.happiness);
+  const weightData = useMemo(() => buildWeightData(filteredHistory), [filteredHistory]);
+  const weightChange = weightData.length > 1 ? weightData[weightData.length - 1].value - weightData[0].value : 0;
+  const bondData = useMemo(() => buildBondData(filteredHistory), [filteredHistory]);
+  const bondChange = bondData.length > 1 ? bondData[bondData.length - 1].value - bondData[0].value : 0;
   const moodGrade = getMoodRatingFromHappiness(avgHappiness);
+  const aloneDays = useMemo(
+    () => getAloneDays(aloneHistory, aloneMinutesToday, timeRange, timeZone, now),
+    [aloneHistory, aloneMinutesToday, timeRange, timeZone, now]
+  );
+  const averageAloneHours = aloneDays.reduce((sum, entry) => sum + entry.hours, 0) / Math.max(1, aloneDays.length);
+  const showAlone = aloneHistory.length > 0 || aloneMinutesToday > 0;
+  const emergencySummary = useMemo(() => getEmergencySummary(emergencies, timeRange, now), [emergencies, timeRange, now]);
+  const emotionShares = useMemo(() => getEmotionShares(moodLog, timeRange, now), [moodLog, timeRange, now]);
+  const recentMoods = useMemo(() => {
+    const start = getRangeStartMs(timeRange, now);
+    return moodLog.filter((entry) => entry.t >= start).slice(-8).reverse();
+  }, [moodLog, timeRange, now]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -125,6 +235,16 @@ export function Report({
           </DialogTitle>
         </DialogHeader>
 
+        {peakSpeed > 1 && (
+          <div className="flex items-center gap-2 rounded-lg border border-secondary/40 bg-secondary/10 p-3 text-sm text-foreground">
+            <FastForward className="h-4 w-4 text-secondary shrink-0" />
+            <span>
+              Accelerated session (up to {peakSpeed}x). Time in this report is simulated, so don&apos;t compare it with
+              real-time care.
+            </span>
+          </div>
+        )}
+
         {/* Time range: ask before showing everything */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-foreground">Report period</label>
@@ -150,14 +270,14 @@ export function Report({
               Overall score: {score}/100 for this period (current stats + care variety).
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              Total spent: ${totalSpent} · {petType}
+              Total spent: ${totalSpent} · {breedName ? `${breedName} (${petType})` : petType}
             </p>
           </div>
         </div>
 
         <Tabs defaultValue="hunger" className="w-full">
           <TabsList className="flex w-full flex-wrap gap-1 bg-muted/50 border border-border h-auto p-1">
-            {statConfig.map(({ key, label }) => (
+            {trackedStats.map(({ key, label }) => (
               <TabsTrigger
                 key={key}
                 value={key}
@@ -166,6 +286,30 @@ export function Report({
                 {label}
               </TabsTrigger>
             ))}
+            {weight !== undefined && (
+              <TabsTrigger
+                value="weight"
+                className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground text-xs px-2 py-1.5"
+              >
+                Weight
+              </TabsTrigger>
+            )}
+            {bond !== undefined && (
+              <TabsTrigger
+                value="bond"
+                className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground text-xs px-2 py-1.5"
+              >
+                Bond
+              </TabsTrigger>
+            )}
+            {showAlone && (
+              <TabsTrigger
+                value="alone"
+                className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground text-xs px-2 py-1.5"
+              >
+                Alone
+              </TabsTrigger>
+            )}
             <TabsTrigger
               value="mood"
               className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground text-xs px-2 py-1.5"
@@ -174,10 +318,11 @@ export function Report({
             </TabsTrigger>
           </TabsList>
 
-          {statConfig.map(({ key, label, icon: Icon }) => {
+          {trackedStats.map(({ key, label, icon: Icon }) => {
             const avg = getAverageStat(filteredHistory, key, stats[key]);
             const { assessment, tip } = getStatFeedback(key, stats[key], counts);
             const chartData = buildChartData(filteredHistory, key);
+            const weatherNote = getWeatherNote(weatherHistory, key, timeRange, now);
             return (
               <TabsContent key={key} value={key} className="mt-4 space-y-3">
                 <Card className="border-border bg-card/80 p-4">
@@ -190,6 +335,12 @@ export function Report({
                   </div>
                   <p className="text-sm text-foreground mt-2">{assessment}</p>
                   <p className="text-xs text-muted-foreground mt-1 italic">Tip: {tip}</p>
+                  {weatherNote && (
+                    <p className="flex items-start gap-1 text-xs text-muted-foreground mt-2">
+                      <CloudSun className="h-3 w-3 mt-0.5 shrink-0" />
+                      <span>Weather: {weatherNote}</span>
+                    </p>
+                  )}
                 </Card>
                 {chartData.length > 0 && (
                   <div className="h-[200px] w-full rounded-lg border border-border bg-muted/20 p-2">
@@ -212,16 +363,126 @@ export function Report({
             );
           })}
 
+          {weight !== undefined && (
+            <TabsContent value="weight" className="mt-4 space-y-3">
+              <Card className="border-border bg-card/80 p-4">
+                <div className="flex items-center gap-2">
+                  <Scale className="h-4 w-4 text-primary" />
+                  <span className="font-medium text-foreground">Weight</span>
+                  <span className="text-sm text-muted-foreground">
+                    — Current: {formatWeight(weight)} ({weightLabel}) · Change in period: {weightChange >= 0 ? "+" : "−"}
+                    {formatWeight(Math.abs(weightChange))}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 italic">
+                  Tip: Treats and skipped walks add up; too few meals make pets underweight. Both tire pets faster and raise illness risk.
+                </p>
+              </Card>
+              {weightData.length > 0 && (
+                <div className="h-[200px] w-full rounded-lg border border-border bg-muted/20 p-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={weightData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border/50" />
+                      <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                      <YAxis
+                        domain={["auto", "auto"]}
+                        tickFormatter={(value: number) => formatWeight(value)}
+                        tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <Tooltip
+                        contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "6px" }}
+                        labelStyle={{ color: "hsl(var(--foreground))" }}
+                        formatter={(value: number) => [formatWeight(value), "Weight"]}
+                      />
+                      <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} name="Weight" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </TabsContent>
+          )}
+
+          {bond !== undefined && (
+            <TabsContent value="bond" className="mt-4 space-y-3">
+              <Card className="border-border bg-card/80 p-4">
+                <div className="flex items-center gap-2">
+                  <HeartHandshake className="h-4 w-4 text-primary" />
+                  <span className="font-medium text-foreground">Bond</span>
+                  <span className="text-sm text-muted-foreground">
+                    — Current: {Math.round(bond)} ({bondLevelLabels[getBondLevel(bond)]}) · Change in period:{" "}
+                    {bondChange >= 0 ? "+" : "−"}
+                    {Math.abs(bondChange)}
+                  </span>
+                </div>
+                <p className="text-sm text-foreground mt-2">{getBondFeedback(bond, bondChange)}</p>
+              </Card>
+              {bondData.length > 0 && (
+                <div className="h-[200px] w-full rounded-lg border border-border bg-muted/20 p-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={bondData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border/50" />
+                      <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                      <YAxis domain={[0, 100]} tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                      <Tooltip
+                        contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "6px" }}
+                        labelStyle={{ color: "hsl(var(--foreground))" }}
+                        formatter={(value: number) => [value, "Bond"]}
+                      />
+                      <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} name="Bond" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </TabsContent>
+          )}
+
+          {showAlone && (
+            <TabsContent value="alone" className="mt-4 space-y-3">
+              <Card className="border-border bg-card/80 p-4">
+                <div className="flex items-center gap-2">
+                  <Home className="h-4 w-4 text-primary" />
+                  <span className="font-medium text-foreground">Home alone</span>
+                  <span className="text-sm text-muted-foreground">
+                    — Average: {averageAloneHours.toFixed(1)}h per day · Today: {(aloneMinutesToday / 60).toFixed(1)}h
+                  </span>
+                </div>
+                <p className="text-sm text-foreground mt-2">{getAloneFeedback(averageAloneHours)}</p>
+              </Card>
+              <div className="h-[200px] w-full rounded-lg border border-border bg-muted/20 p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={aloneDays.map((entry) => ({
+                      time: new Date(entry.day).toLocaleDateString(undefined, { timeZone, weekday: "short", month: "short", day: "numeric" }),
+                      value: entry.hours,
+                    }))}
+                    margin={{ top: 5, right: 5, left: 0, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border/50" />
+                    <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                    <YAxis domain={[0, 24]} tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }} />
+                    <Tooltip
+                      contentStyle={{ background: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "6px" }}
+                      labelStyle={{ color: "hsl(var(--foreground))" }}
+                      formatter={(value: number) => [`${value}h`, "Alone"]}
+                    />
+                    <Bar dataKey="value" fill="hsl(var(--primary))" name="Alone" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </TabsContent>
+          )}
+
           <TabsContent value="mood" className="mt-4 space-y-4">
             <div className="flex items-center justify-between gap-4 flex-wrap">
               <div className="flex items-center gap-2 text-foreground">
                 <Smile className="h-5 w-5 text-primary" />
-                <span className="font-medium">Current mood: {emotion}</span>
+                <span className="font-medium">Current mood: {emotionLabels[emotion] ?? emotion}</span>
               </div>
               <span className={`text-2xl font-bold ${gradeColor(moodGrade)}`}>
                 Mood rating: {moodGrade}
               </span>
             </div>
+            {emotionReason && <p className="text-sm text-foreground">{emotionReason}</p>}
             <p className="text-sm text-muted-foreground">{moodSummary}</p>
             <p className="text-xs text-muted-foreground">
               How you took care of your pet in this period: you fed {counts.feed} time(s), gave water {counts.water} time(s),
@@ -244,6 +505,35 @@ export function Report({
                 </ResponsiveContainer>
               </div>
             )}
+            {emotionShares.length > 0 && (
+              <div className="rounded-lg border border-border bg-muted/20 p-3 space-y-1.5">
+                <p className="text-xs font-medium text-foreground">Time spent in each mood</p>
+                {emotionShares.map(({ emotion: shown, share }) => (
+                  <div key={shown} className="flex items-center gap-2 text-xs">
+                    <span className="w-16 shrink-0 text-muted-foreground">{emotionLabels[shown]}</span>
+                    <div className="h-2 flex-1 rounded-full bg-muted">
+                      <div className="h-2 rounded-full bg-primary" style={{ width: `${share * 100}%` }} />
+                    </div>
+                    <span className="w-10 text-right text-foreground">{Math.round(share * 100)}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {recentMoods.length > 0 && (
+              <div className="rounded-lg border border-border bg-muted/20 p-3">
+                <p className="text-xs font-medium text-foreground mb-2">Recent mood changes</p>
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {recentMoods.map((entry) => (
+                    <li key={entry.t}>
+                      <span className="text-foreground">
+                        {new Date(entry.t).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                      </span>{" "}
+                      · {entry.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="rounded-lg border border-border bg-muted/30 p-3">
               <p className="text-xs font-medium text-foreground mb-2">Tips for a happier pet:</p>
               <ul className="list-disc list-inside text-xs text-muted-foreground space-y-1">
@@ -255,6 +545,85 @@ export function Report({
           </TabsContent>
         </Tabs>
 
+        {costProjection && (
+          <div className="rounded-lg border border-border bg-muted/20 p-4">
+            <p className="text-sm font-semibold text-foreground mb-1">Projected monthly cost</p>
+            <p className="text-xs text-muted-foreground mb-3">
+              Routine care for {breedName ?? `a ${petType}`}; toys, treatment and damage come on top.
+            </p>
+            <ul className="space-y-1 text-sm">
+              {costProjection.lines.map((line) => (
+                <li key={line.label} className="flex justify-between text-muted-foreground">
+                  <span>{line.label}</span>
+                  <span>${Math.round(line.monthly)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between font-semibold text-foreground border-t border-border pt-1">
+                <span>Total</span>
+                <span>${Math.round(costProjection.total)}/month</span>
+              </li>
+            </ul>
+          </div>
+        )}
+
+        {emergencySummary.records.length > 0 && (
+          <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-4">
+            <p className="text-sm font-semibold text-foreground mb-1 flex items-center gap-2">
+              <Siren className="h-4 w-4 text-destructive" />
+              Emergencies
+            </p>
+            <p className="text-xs text-muted-foreground mb-3">
+              ${emergencySummary.spent} at the emergency vet
+              {emergencySummary.untreatedHealthLost > 0 && ` · ${emergencySummary.untreatedHealthLost}% health lost untreated`}.{" "}
+              {emergencySummary.feedback}
+            </p>
+            <ul className="space-y-2">
+              {emergencySummary.records.map((record) => (
+                <li key={record.onsetAt} className="text-sm flex items-start justify-between gap-4">
+                  <div>
+                    <span className="text-foreground">{record.name}</span>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(record.onsetAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}{" "}
+                      · -{record.healthLost}% health
+                    </p>
+                  </div>
+                  <span
+                    className={`text-xs font-medium shrink-0 ${record.outcome === "worsened" ? "text-destructive" : "text-muted-foreground"}`}
+                  >
+                    {emergencyOutcomeLabels[record.outcome]}
+                    {record.cost > 0 && ` · $${record.cost}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {careSchedule.length > 0 && (
+          <div className="rounded-lg border border-border bg-muted/20 p-4">
+            <p className="text-sm font-semibold text-foreground mb-3">Preventive care</p>
+            <ul className="space-y-2">
+              {careSchedule.map(({ item, lastDoneAt, dueAt, overdueAt, status }) => (
+                <li key={item.id} className="text-sm flex items-start justify-between gap-4">
+                  <div>
+                    <span className="text-foreground">{item.name}</span>
+                    <p className="text-xs text-muted-foreground">
+                      {lastDoneAt ? `Last done ${formatDueIn(lastDoneAt, now ?? Date.now())}` : "Not done since adoption"} · $
+                      {item.cost} every {item.intervalDays} days
+                    </p>
+                    {status === "overdue" && <p className="text-xs text-destructive/90">{item.overdueWarning}</p>}
+                  </div>
+                  <span
+                    className={`text-xs font-medium shrink-0 ${status === "overdue" ? "text-destructive" : status === "due" ? "text-orange-600" : "text-muted-foreground"}`}
+                  >
+                    {careStatusLabels[status]} · {formatDueIn(status === "overdue" ? overdueAt : dueAt, now ?? Date.now())}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="rounded-lg border border-border bg-muted/20 p-4">
           <p className="text-sm font-semibold text-foreground mb-3">What to improve</p>
           <ul className="space-y-3">
@@ -266,6 +635,12 @@ export function Report({
             ))}
           </ul>
         </div>
+
+        {seed !== undefined && (
+          <p className="text-[10px] text-muted-foreground text-right font-mono">
+            Session seed {seed >>> 0} · include it when reporting a bug so the session can be replayed
+          </p>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,48 @@
+/**
+ * Skills row on the pet card: every skill in the species' tree as a chip with training progress. Clicking an open
+ * skill makes it the focus of the next training sessions; hovering shows what it does.
+ */
+import { GraduationCap, Lock } from "lucide-react";
+import type { PetConfig } from "@/lib/petConfig";
+import { getSkillStatus, getTrainingTarget, type SkillProgress } from "@/lib/training";
+
+interface SkillListProps {
+  config: PetConfig;
+  progress: SkillProgress;
+  focus: string | null;
+  onFocus: (skillId: string) => void;
+}
+
+export const SkillList = ({ config, progress, focus, onFocus }: SkillListProps) => {
+  const target = getTrainingTarget(config, progress, focus);
+  return (
+    <div className="flex flex-wrap justify-center gap-1.5">
+      {config.skills.map((skill) => {
+        const status = getSkillStatus(config, skill, progress);
+        const sessions = Math.min(progress[skill.id] ?? 0, skill.sessions);
+        const styles =
+          status === "learned"
+            ? "bg-primary/15 text-primary"
+            : skill.id === target?.id
+              ? "bg-accent/20 text-foreground ring-1 ring-accent"
+              : status === "trainable"
+                ? "bg-muted text-muted-foreground hover:bg-muted/70"
+                : "bg-muted/50 text-muted-foreground/70";
+        return (
+          <button
+            key={skill.id}
+            type="button"
+            disabled={status !== "trainable"}
+            title={status === "locked" ? `Learn ${skill.requires?.join(", ")} first. ${skill.benefit}` : skill.benefit}
+            onClick={() => onFocus(skill.id)}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${styles}`}
+          >
+            {status === "locked" ? <Lock className="w-3 h-3" /> : <GraduationCap className="w-3 h-3" />}
+            {skill.name}
+            {status !== "learned" && ` ${sessions}/${skill.sessions}`}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * Sleep schedule form: move the pet's bedtime and change how long it sleeps, within what's healthy for its
+ * species. Times are on the clock of the pet's home time zone; daytime naps are shown but follow the species.
+ */
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { formatHour } from "@/lib/ownerSchedule";
+import {
+  applySleepAdjustment,
+  getSleepAdjustmentProblem,
+  getSleepMinutes,
+  type SleepAdjustment,
+  type SleepFlex,
+  type SleepWindow,
+} from "@/lib/sleepSchedule";
+
+interface SleepScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  petName: string;
+  /** The species' night for the pet's life stage, before the owner's adjustment. */
+  night: SleepWindow;
+  flex: SleepFlex;
+  naps: SleepWindow[];
+  timeZone: string;
+  adjustment: SleepAdjustment | null;
+  onSave: (adjustment: SleepAdjustment | null) => void;
+}
+
+/** Choices go in half-hour steps. */
+const STEP_HOURS = 0.5;
+
+const steps = (from: number, to: number) => {
+  const values: number[] = [];
+  for (let value = from; value <= to + 1e-9; value += STEP_HOURS) values.push(Math.round(value * 2) / 2);
+  return values;
+};
+
+const formatWindow = ({ start, end }: SleepWindow) => `${formatHour(start)}–${formatHour(end)}`;
+
+export const SleepScheduleDialog = ({
+  open,
+  onOpenChange,
+  petName,
+  night,
+  flex,
+  naps,
+  timeZone,
+  adjustment,
+  onSave,
+}: SleepScheduleDialogProps) => {
+  const defaultHours = getSleepMinutes(night) / 60;
+  const [shift, setShift] = useState("0");
+  const [hours, setHours] = useState(String(defaultHours));
+
+  // Start from the saved adjustment each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setShift(String(adjustment?.shiftHours ?? 0));
+    setHours(String(defaultHours + (adjustment?.extraHours ?? 0)));
+  }, [open, adjustment, defaultHours]);
+
+  const draft: SleepAdjustment = { shiftHours: Number(shift), extraHours: Number(hours) - defaultHours };
+  const problem = getSleepAdjustmentProblem(night, flex, draft);
+  const isDefault = draft.shiftHours === 0 && draft.extraHours === 0;
+  const preview = applySleepAdjustment(night, flex, draft);
+
+  const handleSave = () => {
+    onSave(isDefault ? null : draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-border bg-card text-foreground sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{petName}'s sleep schedule</DialogTitle>
+          <DialogDescription>
+            Normally {formatWindow(night)} ({defaultHours} hours). Times follow {petName}'s home clock ({timeZone}),
+            so daylight saving changes don't move bedtime.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Bedtime</Label>
+            <Select value={shift} onValueChange={setShift}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {steps(-flex.shiftHours, flex.shiftHours).map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {formatHour((night.start + value + 24) % 24)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Night length</Label>
+            <Select value={hours} onValueChange={setHours}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {steps(flex.minHours, flex.maxHours).map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value} hours
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1 text-xs">
+          <p className={problem ? "text-destructive" : "text-muted-foreground"}>
+            {problem ?? `Asleep ${formatWindow(preview)}${isDefault ? " (species default)" : ""}.`}
+          </p>
+          {naps.length > 0 && (
+            <p className="text-muted-foreground">Daytime naps: {naps.map(formatWindow).join(", ")}.</p>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="ghost" onClick={() => onSave(null)} disabled={!adjustment}>
+            Reset
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!!problem}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
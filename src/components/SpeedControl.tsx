@@ -0,0 +1,46 @@
+/**
+ * Header speed picker (1x / 60x / 1440x) for demos and classroom sessions. Shows the simulated clock while sped up.
+ */
+import { FastForward } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { SIM_SPEEDS, type SimSpeed } from "@/lib/simulation";
+
+interface SpeedControlProps {
+  speed: SimSpeed;
+  simTime: number;
+  disabled?: boolean;
+  onChange: (speed: SimSpeed) => void;
+}
+
+const speedHints: Record<SimSpeed, string> = {
+  1: "Real time",
+  60: "1 minute per second",
+  1440: "1 day per minute",
+};
+
+export const SpeedControl = ({ speed, simTime, disabled, onChange }: SpeedControlProps) => {
+  return (
+    <div className="flex items-center gap-2">
+      {speed > 1 && (
+        <span className="hidden md:flex items-center gap-1 px-2 py-1 rounded-full bg-secondary/20 text-xs font-medium text-secondary">
+          <FastForward className="w-3 h-3" />
+          {new Date(simTime).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })}
+        </span>
+      )}
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={String(speed)}
+        disabled={disabled}
+        onValueChange={(value) => value && onChange(Number(value) as SimSpeed)}
+      >
+        {SIM_SPEEDS.map((option) => (
+          <ToggleGroupItem key={option} value={String(option)} title={speedHints[option]} className="px-2 text-xs">
+            {option}x
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+};
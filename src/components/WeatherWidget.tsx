@@ -0,0 +1,46 @@
+/**
+ * Header weather: today's conditions and temperature at the pet's home, with the season and how the weather
+ * changes care (heat, cold, walks) in the tooltip.
+ */
+import { Cloud, CloudLightning, CloudRain, CloudSnow, Snowflake, Sun, type LucideIcon } from "lucide-react";
+import {
+  describeWeather,
+  getWeatherEffects,
+  isColdSnap,
+  isHeatWave,
+  seasonLabels,
+  type Weather,
+  type WeatherCondition,
+} from "@/lib/weather";
+
+const weatherIcons: Record<WeatherCondition, LucideIcon> = {
+  sunny: Sun,
+  cloudy: Cloud,
+  rain: CloudRain,
+  storm: CloudLightning,
+  snow: CloudSnow,
+  blizzard: Snowflake,
+};
+
+interface WeatherWidgetProps {
+  weather: Weather;
+}
+
+export const WeatherWidget = ({ weather }: WeatherWidgetProps) => {
+  const Icon = weatherIcons[weather.condition];
+  const effects = getWeatherEffects(weather);
+  const tone = isHeatWave(weather)
+    ? "bg-destructive/15 text-destructive"
+    : isColdSnap(weather)
+      ? "bg-primary/15 text-primary"
+      : "bg-muted text-muted-foreground";
+  return (
+    <span
+      className={`hidden sm:flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${tone}`}
+      title={[`${seasonLabels[weather.season]}: ${describeWeather(weather)}`, ...effects].join("\n")}
+    >
+      <Icon className="w-3 h-3" />
+      {weather.temperature}°C
+    </span>
+  );
+};
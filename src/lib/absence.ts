@@ -0,0 +1,134 @@
+/**
+ * Absence planning: trips the owner books ahead and who looks after the pet meanwhile. A kennel boards it
+ * (daily fee, every need covered day and night, mild stress from the strange place); a sitter drops by a set
+ * number of times a day and does the chosen tasks (fee per visit); a friend does the same for free but doesn't
+ * always turn up. Kennels and sitters take a sick pet to the vet and add the bill to the trip.
+ * The engine runs the plan the same way in the live tick and in offline catch-up.
+ */
+import type { AbsenceCareConfig } from "./petConfig";
+import { getWallMinutes } from "./sleepSchedule";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Kennel staff look in on a boarded pet every hour, day and night. */
+export const BOARDING_VISITS = 24;
+export const MAX_VISITS_PER_DAY = 4;
+/** Chance a friend turns up for each visit. */
+export const FRIEND_RELIABILITY = 0.7;
+/** Happiness a boarded pet loses per awake hour to the strange place. */
+export const BOARDING_STRESS_PER_HOUR = 0.5;
+
+export type AbsenceCare = "boarding" | "sitter" | "friend";
+
+export interface AbsencePlan {
+  id: string;
+  /** Sim times the owner leaves and gets back. */
+  start: number;
+  end: number;
+  care: AbsenceCare;
+  /** Sitter or friend visits per day; kennels look in BOARDING_VISITS times a day whatever this says. */
+  visitsPerDay: number;
+  /** Actions done on each sitter or friend visit, from the species' visitTasks. */
+  tasks: string[];
+}
+
+/** A booked trip and how it went so far. */
+export interface Absence {
+  plan: AbsencePlan;
+  visits: number;
+  missedVisits: number;
+  /** Everything the trip cost so far, vet bills included. */
+  spent: number;
+  /** The part of `spent` paid to the vet; trips saved before carers treated illness have none. */
+  vetSpent?: number;
+}
+
+/** One line of a trip's bill. */
+export interface CostLine {
+  label: string;
+  amount: number;
+}
+
+export const absenceCareLabels: Record<AbsenceCare, string> = {
+  boarding: "Boarding kennel",
+  sitter: "Pet sitter",
+  friend: "A friend",
+};
+
+export const getVisitsPerDay = (plan: AbsencePlan) => (plan.care === "boarding" ? BOARDING_VISITS : plan.visitsPerDay);
+
+/**
+ * Wall-clock hours of the day's visits: a kennel's on every hour, anyone else's spread from 08:00 to 20:00 (a
+ * single visit comes at noon).
+ */
+export function getVisitHours(plan: AbsencePlan): number[] {
+  const visitsPerDay = getVisitsPerDay(plan);
+  if (plan.care === "boarding") return Array.from({ length: visitsPerDay }, (_, i) => (24 * i) / visitsPerDay);
+  if (visitsPerDay <= 1) return [12];
+  return Array.from({ length: visitsPerDay }, (_, i) => 8 + (12 * i) / (visitsPerDay - 1));
+}
+
+/** Visit times after `from` and up to `to` (under a day apart) that fall inside the trip, on the home clock. */
+export function getVisitsBetween(plan: AbsencePlan, from: number, to: number, timeZone: string): number[] {
+  const wallMinutes = getWallMinutes(from, timeZone);
+  const elapsed = (to - from) / MINUTE_MS;
+  const visits: number[] = [];
+  for (const hour of getVisitHours(plan)) {
+    const ahead = (((hour * 60 - wallMinutes) % 1440) + 1440) % 1440;
+    const t = from + ahead * MINUTE_MS;
+    if (ahead > 0 && ahead <= elapsed && t >= plan.start && t < plan.end) visits.push(t);
+  }
+  return visits.sort((a, b) => a - b);
+}
+
+/** How many visits the whole trip has. */
+export function countVisits(plan: AbsencePlan, timeZone: string): number {
+  let count = 0;
+  for (let t = plan.start - 1; t < plan.end; t += DAY_MS) count += getVisitsBetween(plan, t, t + DAY_MS, timeZone).length;
+  return count;
+}
+
+/** Days billed by a kennel: every started day. */
+export const getBoardingDays = (plan: AbsencePlan) => Math.max(1, Math.ceil((plan.end - plan.start) / DAY_MS));
+
+/** The trip's bill up front: kennel days or sitter visits at the species' rates; a friend is free. */
+export function getAbsenceQuote(plan: AbsencePlan, care: AbsenceCareConfig, timeZone: string): CostLine[] {
+  if (plan.care === "boarding") {
+    const days = getBoardingDays(plan);
+    return [{ label: `Boarding: ${days} day${days === 1 ? "" : "s"} × $${care.boardingPerDay}`, amount: days * care.boardingPerDay }];
+  }
+  const visits = countVisits(plan, timeZone);
+  if (plan.care === "sitter") {
+    return [{ label: `Pet sitter: ${visits} visit${visits === 1 ? "" : "s"} × $${care.sitterPerVisit}`, amount: visits * care.sitterPerVisit }];
+  }
+  return [{ label: `Friend: ${visits} visit${visits === 1 ? "" : "s"} (if they turn up)`, amount: 0 }];
+}
+
+export const getQuoteTotal = (lines: CostLine[]) => lines.reduce((sum, line) => sum + line.amount, 0);
+
+/** The trip under way at `time`, if any. */
+export function getActiveAbsence(absences: Absence[], time: number): Absence | undefined {
+  return absences.find(({ plan }) => plan.start <= time && time < plan.end);
+}
+
+/** Why a plan can't be booked, or null if it can. */
+export function getAbsencePlanProblem(plan: AbsencePlan, care: AbsenceCareConfig, absences: Absence[], now: number): string | null {
+  if (plan.start < now) return "Trips have to start in the future.";
+  if (plan.end <= plan.start) return "The trip has to end after it starts.";
+  if (absences.some(({ plan: other }) => plan.start < other.end && other.start < plan.end)) {
+    return "That overlaps a trip you've already planned.";
+  }
+  if (plan.care === "boarding") return null;
+  if (plan.visitsPerDay < 1 || plan.visitsPerDay > MAX_VISITS_PER_DAY) {
+    return `Visits have to be 1–${MAX_VISITS_PER_DAY} a day.`;
+  }
+  if (plan.tasks.length === 0) return "Pick at least one task for each visit.";
+  const unknown = plan.tasks.find((task) => !care.visitTasks.includes(task));
+  return unknown ? `A visit can't cover "${unknown}".` : null;
+}
+
+/** "Sat 3 Oct 14:00". */
+export function formatTripTime(time: number): string {
+  return new Date(time).toLocaleString(undefined, { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
@@ -0,0 +1,172 @@
+/**
+ * Action eligibility: one evaluator driven by each ActionDefinition's `requirements` in PetConfig (statBelow,
+ * cooldownHours/Days, minEnergy, requiresToy, withoutToy, minSoil, skillToLearn) plus sleep, busy state, the owner's schedule and trips, and the weather for outdoor actions, for the pet's current life stage and weight. Returns every blocking reason and when the action opens up.
+ */
+import { getActionDefinition, type PetConfig } from "./petConfig";
+import { getTrainingTarget } from "./training";
+import { getOwnerBackAt } from "./ownerSchedule";
+import { getActiveAbsence } from "./absence";
+import { getNextSleepChange, getZoneOffset } from "./sleepSchedule";
+import { applyWeather, describeWeather, getOutdoorImpact, getWeather, weatherLabels } from "./weather";
+import {
+  DAY_MS,
+  HOUR_MS,
+  MINUTE_MS,
+  formatCountdown,
+  getEffectiveConfig,
+  type ActionId,
+  type PetStats,
+  type SimState,
+} from "./simulation";
+
+export type BlockCode = "busy" | "away" | "sleeping" | "weather" | "threshold" | "cooldown" | "lowEnergy" | "noToy" | "hasToy" | "clean" | "allLearned";
+
+export interface BlockReason {
+  code: BlockCode;
+  /** Short text for the button ("Sleeping", "2h 5m"). */
+  label: string;
+  /** Full sentence for tooltips and reminders. */
+  detail: string;
+  /** Sim time the reason clears on its own; undefined when it needs the owner (e.g. buy a toy). */
+  until?: number;
+}
+
+export interface ActionAvailability {
+  available: boolean;
+  reasons: BlockReason[];
+  /** When every reason has cleared: now if available, null if some reason has no predictable end. */
+  availableAt: number | null;
+}
+
+/** Minutes for a stat to fall 1% while awake, mirroring the decay tick. */
+function minutesPerPercent(stat: keyof PetStats, config: PetConfig): number {
+  const decay = config.decayRates;
+  return stat === "hygiene" ? decay.hygiene * 2 : decay[stat];
+}
+
+/** Evaluate every rule for one action; none are short-circuited so callers can list them all. */
+export function getActionAvailability(state: SimState, actionId: ActionId, baseConfig: PetConfig): ActionAvailability {
+  // Feed thresholds, decay and sleep hours depend on the pet's life stage and weight; decay also on the weather
+  const weather = getWeather(state.seed, state.time, state.timeZone);
+  const config = applyWeather(getEffectiveConfig(baseConfig, state.pet, state.time), weather);
+  const definition = getActionDefinition(config, actionId);
+  const rules = definition?.requirements ?? {};
+  const { stats, name } = state.pet;
+  const now = state.time;
+  const reasons: BlockReason[] = [];
+
+  if (state.activeAction) {
+    const until = state.activeAction.startedAt + state.activeAction.duration * 1000;
+    reasons.push({ code: "busy", label: "Busy", detail: `You're busy: ${state.activeAction.activity.toLowerCase()}.`, until });
+  }
+
+  const trip = getActiveAbsence(state.absences, now);
+  const backAt = trip ? trip.plan.end : getOwnerBackAt(state.ownerSchedule, now, state.timeZone);
+  if (backAt !== null) {
+    const detail = trip ? `You're away on a trip until ${formatClock(backAt)}.` : `You're out until ${formatClock(backAt)}.`;
+    reasons.push({ code: "away", label: "Away", detail, until: backAt });
+  }
+
+  if (state.isSleeping) {
+    const until = getNextSleepChange(config, now, state.timeZone);
+    const label = state.isNapping ? "Napping" : "Sleeping";
+    reasons.push({ code: "sleeping", label, detail: `${name} is ${label.toLowerCase()} until ${formatClock(until)}.`, until });
+  }
+
+  if (definition?.outdoors && getOutdoorImpact(weather) === "blocked") {
+    // Each day has one weather, so the next chance is tomorrow
+    const until = (weather.day + 1) * DAY_MS - getZoneOffset(now, state.timeZone);
+    reasons.push({
+      code: "weather",
+      label: weatherLabels[weather.condition],
+      detail: `Too wild to go out today (${describeWeather(weather)}). Try again tomorrow.`,
+      until,
+    });
+  }
+
+  if (rules.statBelow && stats[rules.statBelow.stat] >= rules.statBelow.value) {
+    const { stat, value } = rules.statBelow;
+    const percentAbove = stats[stat] - value;
+    const until = now + (Math.floor(percentAbove) + 1) * minutesPerPercent(stat, config) * MINUTE_MS;
+    reasons.push({
+      code: "threshold",
+      label: formatCountdown(until - now),
+      detail: `${capitalize(stat)} is ${Math.round(stats[stat])}%; only needed below ${value}%.`,
+      until,
+    });
+  }
+
+  const cooldownMs = (rules.cooldownHours ?? 0) * HOUR_MS + (rules.cooldownDays ?? 0) * DAY_MS;
+  const lastDone = state.lastDone[actionId] ?? 0;
+  if (cooldownMs > 0 && lastDone > 0 && now - lastDone < cooldownMs) {
+    const until = lastDone + cooldownMs;
+    reasons.push({
+      code: "cooldown",
+      label: formatCountdown(until - now),
+      detail: `Done recently; next one is due ${formatClock(until)}.`,
+      until,
+    });
+  }
+
+  if (rules.minEnergy !== undefined && stats.energy < rules.minEnergy) {
+    reasons.push({
+      code: "lowEnergy",
+      label: "Low energy",
+      detail: `Energy is ${Math.round(stats.energy)}%; needs at least ${rules.minEnergy}%. Rest or sleep restores it.`,
+    });
+  }
+
+  if (rules.requiresToy && !state.hasToy) {
+    reasons.push({ code: "noToy", label: "No toy!", detail: "Needs a toy. Buy one first." });
+  }
+
+  if (rules.withoutToy && state.hasToy) {
+    reasons.push({ code: "hasToy", label: "Already have toy", detail: `${name} already has a toy.` });
+  }
+
+  if (rules.minSoil !== undefined && state.enclosureSoil < rules.minSoil) {
+    const enclosure = config.elimination.enclosureName ?? "enclosure";
+    reasons.push({
+      code: "clean",
+      label: "Still clean",
+      detail: `The ${enclosure} is ${Math.round(state.enclosureSoil)}% soiled; clean it from ${rules.minSoil}%.`,
+    });
+  }
+
+  if (rules.skillToLearn && !getTrainingTarget(config, state.skills, state.trainingFocus)) {
+    reasons.push({ code: "allLearned", label: "All learned", detail: `${name} has learned every skill.` });
+  }
+
+  const predictable = reasons.every((r) => r.until !== undefined);
+  return {
+    available: reasons.length === 0,
+    reasons,
+    availableAt: predictable ? Math.max(now, ...reasons.map((r) => r.until as number)) : null,
+  };
+}
+
+/** Evaluate every action at once, keyed by id. */
+export function getAllActionAvailability(
+  state: SimState,
+  actionIds: ActionId[],
+  config: PetConfig
+): Record<ActionId, ActionAvailability> {
+  return Object.fromEntries(actionIds.map((id) => [id, getActionAvailability(state, id, config)])) as Record<
+    ActionId,
+    ActionAvailability
+  >;
+}
+
+/** Tooltip lines: every reason plus the time the action opens up. */
+export function describeAvailability(availability: ActionAvailability): string[] {
+  if (availability.available) return [];
+  const lines = availability.reasons.map((r) => r.detail);
+  if (availability.availableAt !== null) lines.push(`Available ${formatClock(availability.availableAt)}.`);
+  return lines;
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+function formatClock(time: number): string {
+  return new Date(time).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" });
+}
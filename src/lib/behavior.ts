@@ -0,0 +1,49 @@
+/**
+ * Behavior incidents: how bored, restless and stressed a pet is (each 0–1), and the chance of each mischief
+ * incident in PetConfig once training and enrichment (a toy, recent exercise or play) are taken into account.
+ */
+import type { BehaviorIncident } from "./petConfig";
+import type { PetStats } from "./simulation";
+
+export interface BehaviorDrivers {
+  /** Unhappy and under-stimulated. */
+  boredom: number;
+  /** Energy left unspent. */
+  restlessness: number;
+  /** Ill, hungry or thirsty, living in a soiled enclosure, or panicking home alone. */
+  stress: number;
+}
+
+/** Having a toy cuts the odds by this factor; so does exercise or play within the enrichment window. */
+const TOY_ENRICHMENT = 0.6;
+const ACTIVITY_ENRICHMENT = 0.5;
+export const ENRICHMENT_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export function getBehaviorDrivers(
+  stats: PetStats,
+  isIll: boolean,
+  enclosureSoil: number,
+  separationAnxiety: boolean = false
+): BehaviorDrivers {
+  const needs = stats.hunger < 25 || stats.thirst < 25 ? 0.4 : 0;
+  return {
+    boredom: clamp01((60 - stats.happiness) / 60),
+    restlessness: clamp01((stats.energy - 60) / 40),
+    stress: clamp01((isIll ? 0.6 : 0) + needs + (enclosureSoil >= 80 ? 0.4 : 0) + (separationAnxiety ? 0.5 : 0)),
+  };
+}
+
+/** Odds multiplier from enrichment: a toy to hand and exercise or play since `now - ENRICHMENT_WINDOW_MS`. */
+export function getEnrichmentMultiplier(hasToy: boolean, lastActiveAt: number, now: number): number {
+  const recentlyActive = lastActiveAt > 0 && now - lastActiveAt < ENRICHMENT_WINDOW_MS;
+  return (hasToy ? TOY_ENRICHMENT : 1) * (recentlyActive ? ACTIVITY_ENRICHMENT : 1);
+}
+
+/** Chance of one incident at a check; 0 while none of its drivers apply. */
+export function getIncidentChance(incident: BehaviorIncident, drivers: BehaviorDrivers, multiplier: number): number {
+  const { boredom = 0, restlessness = 0, stress = 0 } = incident.drivers;
+  const pressure = boredom * drivers.boredom + restlessness * drivers.restlessness + stress * drivers.stress;
+  return Math.min(1, incident.chance * pressure * multiplier);
+}
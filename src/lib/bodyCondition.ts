@@ -0,0 +1,82 @@
+/**
+ * Weight model: a 9-point body condition score (5 = ideal) moved by calories in (feeds, treats) and out (resting
+ * burn, exercise, play). Weight is derived from the score and the ideal weight for the pet's age; being under- or
+ * overweight speeds up energy and happiness decay and raises illness risk.
+ */
+import type { PetConfig } from "./petConfig";
+import { applyModifiers, getAgeDays, type ConfigModifiers } from "./lifeStages";
+
+export type BodyConditionClass = "underweight" | "ideal" | "overweight";
+
+export const IDEAL_BODY_CONDITION = 5;
+
+/** Energy stored per kg of body weight. */
+const KCAL_PER_KG = 7700;
+/** Each score point above or below ideal is about 10% of ideal weight. */
+const WEIGHT_PER_POINT = 0.1;
+/** Newborns start at this share of adult weight and grow linearly until the adult stage. */
+const BIRTH_WEIGHT_FRACTION = 0.2;
+
+const conditionModifiers: Record<BodyConditionClass, ConfigModifiers> = {
+  underweight: { decayMultipliers: { energy: 1.2, happiness: 1.2 }, illnessRisk: 1.5 },
+  ideal: {},
+  overweight: { decayMultipliers: { energy: 1.3, happiness: 1.15 }, illnessRisk: 1.3 },
+};
+
+export const bodyConditionLabels: Record<BodyConditionClass, string> = {
+  underweight: "Underweight",
+  ideal: "Ideal weight",
+  overweight: "Overweight",
+};
+
+/** Score must come this far back inside the ideal band before a pet stops counting as under/overweight. */
+const CLASS_HYSTERESIS = 0.25;
+
+/**
+ * Weight class for a score. Pass the previous class so a pet hovering at a boundary doesn't flip back and forth
+ * with every meal.
+ */
+export function getBodyConditionClass(score: number, previous?: BodyConditionClass): BodyConditionClass {
+  if (previous === "underweight" && score < 4 + CLASS_HYSTERESIS) return "underweight";
+  if (previous === "overweight" && score >= 6 - CLASS_HYSTERESIS) return "overweight";
+  if (score < 4) return "underweight";
+  if (score >= 6) return "overweight";
+  return "ideal";
+}
+
+/** Share of adult size at this age; 1 from the adult stage on. */
+export function getSizeFraction(config: PetConfig, ageDays: number): number {
+  const adultFrom = config.lifeStages.find((stage) => stage.id === "adult")?.fromDays ?? 0;
+  if (adultFrom <= 0) return 1;
+  return Math.min(1, BIRTH_WEIGHT_FRACTION + (1 - BIRTH_WEIGHT_FRACTION) * (ageDays / adultFrom));
+}
+
+/** Current weight in kg for a pet born at `birthDate` with this body condition score. */
+export function getWeightKg(config: PetConfig, birthDate: number, score: number, time: number): number {
+  const idealKg = config.bodyCondition.adultWeightKg * getSizeFraction(config, getAgeDays(birthDate, time));
+  return idealKg * (1 + (score - IDEAL_BODY_CONDITION) * WEIGHT_PER_POINT);
+}
+
+/** Score change for a calorie surplus (+) or deficit (−) at this age. */
+export function getConditionChange(config: PetConfig, ageDays: number, kcal: number): number {
+  const idealKg = config.bodyCondition.adultWeightKg * getSizeFraction(config, ageDays);
+  return kcal / (idealKg * WEIGHT_PER_POINT * KCAL_PER_KG);
+}
+
+/** Calories burned at rest over `minutes`; smaller (younger) pets burn proportionally less. */
+export function getRestingBurn(config: PetConfig, ageDays: number, minutes: number, hungerMultiplier: number): number {
+  return config.bodyCondition.restingKcalPerDay * getSizeFraction(config, ageDays) * hungerMultiplier * (minutes / 1440);
+}
+
+/** "20.4 kg", or grams for small animals ("452 g"). */
+export function formatWeight(kg: number): string {
+  return kg < 1 ? `${Math.round(kg * 1000)} g` : `${kg.toFixed(1)} kg`;
+}
+
+/** Score stays on the 1–9 scale. */
+export const clampCondition = (score: number) => Math.max(1, Math.min(9, score));
+
+/** Species config with the under/overweight penalties for this class applied. */
+export function applyBodyCondition(config: PetConfig, weightClass: BodyConditionClass): PetConfig {
+  return applyModifiers(config, conditionModifiers[weightClass]);
+}
@@ -0,0 +1,72 @@
+/**
+ * Bond: the long-term relationship between owner and pet (0–100). It grows a little each day the pet's needs
+ * were met on time, faster on a streak of such days, and drops with neglect, long absences and repeating
+ * care the pet hates. A closer bond makes the pet respond more warmly to care and shapes which emotions it shows.
+ */
+import type { StatKey } from "./petConfig";
+import type { PetStats } from "./simulation";
+
+/** Bond of a newly adopted pet; pets saved before bond existed start in the middle. */
+export const INITIAL_BOND = 20;
+export const LEGACY_BOND = 50;
+
+/** Awake minutes per day a need may sit at a critical level before the day counts as neglected. */
+export const NEGLECT_GRACE_MINUTES = 60;
+
+/** A need below this is urgent; the pet is being neglected while it lasts. */
+const NEGLECT_LEVEL = 20;
+
+/** Disliked care repeated within this many days strains the bond much more. */
+export const ROUGH_HANDLING_REPEAT_DAYS = 14;
+
+export type BondLevel = "wary" | "warming" | "attached" | "devoted";
+
+export const bondLevelLabels: Record<BondLevel, string> = {
+  wary: "Wary",
+  warming: "Warming up",
+  attached: "Attached",
+  devoted: "Devoted",
+};
+
+export function getBondLevel(bond: number): BondLevel {
+  if (bond >= 75) return "devoted";
+  if (bond >= 50) return "attached";
+  if (bond >= 25) return "warming";
+  return "wary";
+}
+
+/** True while any need is urgent or health is poor; `excused` needs (care not possible yet) don't count. */
+export function isNeglected(stats: PetStats, excused: StatKey[] = []): boolean {
+  const urgent = (stat: StatKey) => !excused.includes(stat) && stats[stat] < NEGLECT_LEVEL;
+  return urgent("hunger") || urgent("thirst") || urgent("hygiene") || urgent("happiness") || stats.health < 50;
+}
+
+/**
+ * Bond change at the end of a day. A well-kept day adds half a point, plus a quarter per day of the streak
+ * before it (up to +2); a neglected day costs a point per hour of neglect (up to 8) and a day without the
+ * owner costs 3.
+ */
+export function getDailyBondChange(neglectMinutes: number, streak: number, ownerAbsent: boolean): number {
+  if (neglectMinutes > NEGLECT_GRACE_MINUTES) return -Math.min(8, neglectMinutes / 60);
+  if (ownerAbsent) return -3;
+  return 0.5 + Math.min(6, streak) * 0.25;
+}
+
+/** How strongly the pet takes to care: 0.7× at no bond up to 1.3× when devoted. */
+export function getCareResponse(bond: number): number {
+  return 0.7 + (bond / 100) * 0.6;
+}
+
+/** Scale an action's happiness by the bond: enjoyed care pleases more, disliked care upsets less. */
+export function applyBondToChanges(changes: Partial<PetStats>, bond: number): Partial<PetStats> {
+  const happiness = changes.happiness;
+  if (!happiness) return changes;
+  const response = getCareResponse(bond);
+  return { ...changes, happiness: happiness > 0 ? happiness * response : happiness * (2 - response) };
+}
+
+/** Bond lost to care the pet hates (negative happiness); more if it was already done recently. */
+export function getRoughHandlingLoss(changes: Partial<PetStats>, repeated: boolean): number {
+  if ((changes.happiness ?? 0) >= 0) return 0;
+  return repeated ? 4 : 1;
+}
@@ -0,0 +1,60 @@
+/**
+ * Cost projection: what a species or breed is expected to cost per month with routine care, from each paid
+ * action's cost and how often it comes round (cooldowns, or how fast its stat runs down) plus preventive care.
+ * Shown in the breed picker and the report; one-offs like toys and vet treatment aren't projected.
+ */
+import type { ActionDefinition, PetConfig } from "./petConfig";
+import { getDailySleepMinutes } from "./sleepSchedule";
+
+const DAYS_PER_MONTH = 30;
+
+export interface CostLine {
+  label: string;
+  monthly: number;
+}
+
+export interface CostProjection {
+  lines: CostLine[];
+  total: number;
+}
+
+/** Expected uses per day: as often as the cooldown allows, or as often as the stat drops to its threshold. */
+function getUsesPerDay(action: ActionDefinition, config: PetConfig): number {
+  const rules = action.requirements ?? {};
+  const cooldownDays = (rules.cooldownDays ?? 0) + (rules.cooldownHours ?? 0) / 24;
+  if (cooldownDays > 0) return 1 / cooldownDays;
+  if (rules.minSoil !== undefined) return getSoilPerDay(config) / 100;
+  const threshold = rules.statBelow;
+  const gain = threshold && (action.statChanges[threshold.stat] ?? 0);
+  if (!threshold || !gain || gain <= 0) return 0;
+  const { stat, value } = threshold;
+  // Mirrors the decay tick, where hygiene drops at half its configured rate
+  const minutesPerPercent = stat === "hygiene" ? config.decayRates.hygiene * 2 : config.decayRates[stat];
+  const awakeMinutes = 24 * 60 - getDailySleepMinutes(config);
+  return awakeMinutes / minutesPerPercent / Math.min(gain, 100 - value);
+}
+
+/** How much the litter box / hutch / cage / tank soils in a day; cleaning at least that often avoids accidents. */
+function getSoilPerDay(config: PetConfig): number {
+  const { usesBelow = 0, soilPerUse = 0, soilPerDay = 0 } = config.elimination;
+  const asleepMinutes = getDailySleepMinutes(config);
+  // Bladder drops at a third of its rate overnight, as in the decay tick
+  const bladderDrop = (24 * 60 - asleepMinutes) / config.decayRates.bladder + asleepMinutes / (config.decayRates.bladder * 3);
+  return soilPerDay + (usesBelow < 100 ? (bladderDrop / (100 - usesBelow)) * soilPerUse : 0);
+}
+
+/**
+ * Monthly cost of routine care once starter supplies are used up: from then on the engine charges every use of a
+ * restocked action at the restock price.
+ */
+export function getMonthlyCostProjection(config: PetConfig): CostProjection {
+  const lines: CostLine[] = [];
+  for (const action of config.actions) {
+    const perUse = action.restock ? action.restock.cost : action.cost;
+    const monthly = perUse * getUsesPerDay(action, config) * DAYS_PER_MONTH;
+    if (monthly >= 0.5) lines.push({ label: action.label, monthly });
+  }
+  const preventive = config.preventiveCare.reduce((sum, item) => sum + (item.cost * DAYS_PER_MONTH) / item.intervalDays, 0);
+  if (preventive > 0) lines.push({ label: "Preventive care", monthly: preventive });
+  return { lines, total: lines.reduce((sum, line) => sum + line.monthly, 0) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Emergency rules: which species emergency can strike now, what the emergency vet bills, and the record of how
+ * each one ended for the event log and the report. The engine rolls onset and runs the countdown; Dashboard
+ * shows it with the choice between paying and taking the risk.
+ */
+import type { EmergencyDefinition, PetConfig } from "./petConfig";
+import type { PetStats } from "./simulation";
+
+/** Emergency under way; the bill is fixed at onset so the owner knows it before deciding. */
+export interface ActiveEmergency {
+  id: string;
+  onsetAt: number;
+  /** Sim time the countdown runs out; left untreated, the outcome is rolled then. */
+  deadline: number;
+  cost: number;
+  /** Health at onset, to tell how much the emergency took. */
+  health: number;
+}
+
+/** Treated at the emergency vet, or left untreated and either pulled through or badly hurt. */
+export type EmergencyOutcome = "treated" | "recovered" | "worsened";
+
+/** How an emergency ended, for the report. */
+export interface EmergencyRecord {
+  id: string;
+  name: string;
+  onsetAt: number;
+  resolvedAt: number;
+  outcome: EmergencyOutcome;
+  /** Emergency vet bill; 0 when untreated. */
+  cost: number;
+  /** Health lost from onset to the outcome, consequences included. */
+  healthLost: number;
+}
+
+export const emergencyOutcomeLabels: Record<EmergencyOutcome, string> = {
+  treated: "Treated",
+  recovered: "Pulled through untreated",
+  worsened: "Untreated, badly hurt",
+};
+
+export function getEmergencyDefinition(config: PetConfig, emergencyId: string): EmergencyDefinition | undefined {
+  return config.emergencies.find((emergency) => emergency.id === emergencyId);
+}
+
+/** Whether an emergency's trigger holds: its stat is low enough, the tank dirty enough, the day hot enough. */
+export function canStrike(definition: EmergencyDefinition, stats: PetStats, enclosureSoil: number, heatWave: boolean): boolean {
+  if (definition.cause && stats[definition.cause.stat] >= definition.cause.below) return false;
+  if (definition.soilAbove !== undefined && enclosureSoil < definition.soilAbove) return false;
+  return !definition.heatWave || heatWave;
+}
+
+/** The emergency vet's bill for a 0–1 roll, rounded to $10. */
+export function getEmergencyCost({ treatment }: EmergencyDefinition, roll: number): number {
+  return Math.round((treatment.minCost + roll * (treatment.maxCost - treatment.minCost)) / 10) * 10;
+}
@@ -0,0 +1,121 @@
+/**
+ * Emotion model: picks the pet's emotion from all of its stats and its situation (urgent needs first, then what
+ * just happened or is missing, then overall happiness shaded by the bond) and explains it in one sentence for
+ * the avatar, the mood badge and the mood timeline in the report.
+ */
+import { getBondLevel } from "./bond";
+import type { PetEmotion, PetStats } from "./simulation";
+
+/** Below this, hunger or thirst is what the pet feels most. */
+const NEED_LEVEL = 30;
+const TIRED_LEVEL = 20;
+const DIRTY_LEVEL = 25;
+
+/** Still excited this long after exercise or play. */
+const EXCITED_MINUTES = 60;
+/** Without a toy, this long since exercise or play leaves the pet bored. */
+const BORED_MINUTES = 8 * 60;
+/** This long awake without the owner doing anything leaves the pet anxious. */
+const ANXIOUS_MINUTES = 8 * 60;
+
+/** What the emotion is derived from; the engine builds it from the sim state. */
+export interface EmotionContext {
+  name: string;
+  stats: PetStats;
+  isSleeping: boolean;
+  isNapping: boolean;
+  /** Symptoms of the current illness; null while healthy. */
+  symptoms: string[] | null;
+  /** Name of the emergency under way; null if there is none. */
+  emergency: string | null;
+  bond: number;
+  hasToy: boolean;
+  /** Awake minutes since the owner last did anything with the pet. */
+  minutesAlone: number;
+  /** Out on their schedule; the pet is home alone. */
+  ownerAway: boolean;
+  /** Set once a stretch alone passes the species' tolerance: hours alone so far, and whether it panics. */
+  lonely: { hours: number; anxious: boolean } | null;
+  /** Latest exercise or play session and how long ago it finished; null if there hasn't been one. */
+  lastActivity: { activity: string; minutesAgo: number } | null;
+}
+
+export interface EmotionReading {
+  emotion: PetEmotion;
+  /** "Max is thirsty — water is at 22%". */
+  reason: string;
+}
+
+export const emotionLabels: Record<PetEmotion, string> = {
+  happy: "Happy",
+  okay: "Content",
+  neutral: "Aloof",
+  sad: "Sad",
+  grumpy: "Grumpy",
+  sleeping: "Sleeping",
+  hungry: "Hungry",
+  thirsty: "Thirsty",
+  dirty: "Dirty",
+  tired: "Tired",
+  bored: "Bored",
+  excited: "Excited",
+  anxious: "Anxious",
+};
+
+const percent = (value: number) => `${Math.round(value)}%`;
+
+const hours = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  return `${h} hour${h === 1 ? "" : "s"}`;
+};
+
+/** Overall mood once no need or situation stands out; a close bond shows joy sooner and sulks later. */
+function getHappinessEmotion({ name, stats, bond }: EmotionContext): EmotionReading {
+  const level = getBondLevel(bond);
+  const happiness = percent(stats.happiness);
+  if (stats.happiness >= 80 - (bond - 50) / 5) return { emotion: "happy", reason: `${name} is happy — happiness is at ${happiness}` };
+  if (stats.happiness >= 50) {
+    return level === "wary"
+      ? { emotion: "neutral", reason: `${name} is keeping their distance — your bond is still wary` }
+      : { emotion: "okay", reason: `${name} is content — happiness is at ${happiness}` };
+  }
+  if (stats.happiness >= (level === "devoted" ? 10 : level === "wary" ? 30 : 20)) {
+    return { emotion: "sad", reason: `${name} is feeling down — happiness is at ${happiness}` };
+  }
+  return { emotion: "grumpy", reason: `${name} is grumpy — happiness is at ${happiness}` };
+}
+
+/** The emotion that stands out right now and why. */
+export function getEmotion(context: EmotionContext): EmotionReading {
+  const { name, stats, lastActivity } = context;
+  if (context.emergency) return { emotion: "anxious", reason: `${name} is in distress — ${context.emergency.toLowerCase()}` };
+  if (context.isSleeping) return { emotion: "sleeping", reason: `${name} is ${context.isNapping ? "taking a nap" : "asleep"}` };
+  if (context.symptoms) {
+    const shown = context.symptoms.length ? context.symptoms.join(", ").toLowerCase() : `health is at ${percent(stats.health)}`;
+    return { emotion: "sad", reason: `${name} feels unwell — ${shown}` };
+  }
+  if (stats.thirst < NEED_LEVEL) return { emotion: "thirsty", reason: `${name} is thirsty — water is at ${percent(stats.thirst)}` };
+  if (stats.hunger < NEED_LEVEL) return { emotion: "hungry", reason: `${name} is hungry — food is at ${percent(stats.hunger)}` };
+  if (stats.energy < TIRED_LEVEL) return { emotion: "tired", reason: `${name} is tired — energy is at ${percent(stats.energy)}` };
+  if (stats.hygiene < DIRTY_LEVEL) return { emotion: "dirty", reason: `${name} feels dirty — hygiene is at ${percent(stats.hygiene)}` };
+  if (lastActivity && lastActivity.minutesAgo < EXCITED_MINUTES) {
+    return { emotion: "excited", reason: `${name} is excited after ${lastActivity.activity.toLowerCase()}` };
+  }
+  if (context.lonely) {
+    const { hours: alone, anxious } = context.lonely;
+    return anxious
+      ? { emotion: "anxious", reason: `${name} has separation anxiety — home alone for ${hours(alone * 60)}` }
+      : { emotion: "sad", reason: `${name} is lonely — home alone for ${hours(alone * 60)}` };
+  }
+  // While the owner is out on schedule, being left alone is loneliness, not being ignored
+  if (!context.ownerAway && context.minutesAlone >= ANXIOUS_MINUTES) {
+    return { emotion: "anxious", reason: `${name} is anxious — left alone for ${hours(context.minutesAlone)}` };
+  }
+  if (!context.hasToy && (!lastActivity || lastActivity.minutesAgo >= BORED_MINUTES)) {
+    return {
+      emotion: "bored",
+      reason: `${name} is bored — ${lastActivity ? `no play or exercise for ${hours(lastActivity.minutesAgo)}` : "no toy and no play yet"}`,
+    };
+  }
+  return getHappinessEmotion(context);
+}
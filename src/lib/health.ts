@@ -0,0 +1,50 @@
+/**
+ * Health and illness rules: severity from how long an illness went untreated, health drain while ill,
+ * and what a vet diagnosis costs. The engine rolls onset; Dashboard shows symptoms.
+ */
+import type { IllnessDefinition, PetConfig } from "./petConfig";
+
+export type IllnessSeverity = "mild" | "moderate" | "severe";
+
+/** Illness the pet currently has; `onsetAt` is sim time. */
+export interface ActiveIllness {
+  id: string;
+  onsetAt: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Untreated for a day it turns moderate, after three days severe. */
+const MODERATE_AFTER_MS = 24 * HOUR_MS;
+const SEVERE_AFTER_MS = 72 * HOUR_MS;
+
+/** Treatment cost multiplier and health drain multiplier per severity. */
+const severityCost: Record<IllnessSeverity, number> = { mild: 1, moderate: 2, severe: 4 };
+const severityDrain: Record<IllnessSeverity, number> = { mild: 1, moderate: 1.5, severe: 2 };
+
+/** Health regained per hour while healthy and fed/watered. */
+export const HEALTH_RECOVERY_PER_HOUR = 0.5;
+
+/** Hunger and thirst must stay at or above this for health to recover. */
+export const HEALTH_RECOVERY_MIN_STAT = 25;
+
+export function getIllnessDefinition(config: PetConfig, illnessId: string): IllnessDefinition | undefined {
+  return config.illnesses.find((illness) => illness.id === illnessId);
+}
+
+export function getIllnessSeverity(illness: ActiveIllness, now: number): IllnessSeverity {
+  const untreatedMs = now - illness.onsetAt;
+  if (untreatedMs >= SEVERE_AFTER_MS) return "severe";
+  if (untreatedMs >= MODERATE_AFTER_MS) return "moderate";
+  return "mild";
+}
+
+/** Health lost over `hours` at the given severity. */
+export function getHealthLoss(definition: IllnessDefinition, severity: IllnessSeverity, hours: number): number {
+  return definition.healthLossPerHour * severityDrain[severity] * hours;
+}
+
+/** What the vet charges for treatment; the worse it got, the more it costs. */
+export function getTreatmentCost(definition: IllnessDefinition, severity: IllnessSeverity): number {
+  return definition.treatment.cost * severityCost[severity];
+}
@@ -0,0 +1,82 @@
+/**
+ * Aging: which life stage a pet is in and the species config adjusted for it (decay, sleep, feeding, illness
+ * risk). The engine and eligibility evaluator work on the adjusted config; PetConfig keeps the adult baseline.
+ */
+import type { LifeStageDefinition, LifeStageId, PetConfig } from "./petConfig";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Age in days at `time`; birthDate is sim time. */
+export function getAgeDays(birthDate: number, time: number): number {
+  return Math.max(0, (time - birthDate) / DAY_MS);
+}
+
+/** The latest stage the pet has reached. */
+export function getLifeStage(config: PetConfig, birthDate: number, time: number): LifeStageDefinition {
+  const age = getAgeDays(birthDate, time);
+  let current = config.lifeStages[0];
+  for (const stage of config.lifeStages) {
+    if (age >= stage.fromDays) current = stage;
+  }
+  return current;
+}
+
+/** Stages that can be picked at adoption, with the age the animal arrives at. */
+export function getAdoptableStages(config: PetConfig): LifeStageDefinition[] {
+  return config.lifeStages.filter((stage) => stage.adoptionAgeDays !== undefined);
+}
+
+/** Birth date for an animal adopted at `stageId` right now. */
+export function getAdoptionBirthDate(config: PetConfig, stageId: LifeStageId, now: number): number {
+  const stage = config.lifeStages.find((s) => s.id === stageId) ?? getAdoptableStages(config)[0];
+  return now - (stage?.adoptionAgeDays ?? 0) * DAY_MS;
+}
+
+/** Decay speed-ups (>1 = faster drop) and an illness-risk multiplier, as used by life stages and body condition. */
+export interface ConfigModifiers {
+  decayMultipliers?: Partial<Record<keyof PetConfig["decayRates"], number>>;
+  illnessRisk?: number;
+}
+
+/** Scale decay rates and illness onset chances; everything else is left as is. */
+export function applyModifiers(config: PetConfig, { decayMultipliers = {}, illnessRisk = 1 }: ConfigModifiers): PetConfig {
+  const decayRates = { ...config.decayRates };
+  for (const key of Object.keys(decayMultipliers) as (keyof PetConfig["decayRates"])[]) {
+    // Rates are "minutes per 1%", so a faster drop means a shorter interval
+    decayRates[key] = decayRates[key] / (decayMultipliers[key] ?? 1);
+  }
+  return {
+    ...config,
+    decayRates,
+    illnesses: config.illnesses.map((illness) => ({ ...illness, onsetChance: Math.min(1, illness.onsetChance * illnessRisk) })),
+  };
+}
+
+/** Species config with one stage's overrides applied. */
+export function applyLifeStage(config: PetConfig, stage: LifeStageDefinition): PetConfig {
+  const actions = config.actions.map((action) =>
+    action.category === "meal" && stage.feedBelow !== undefined && action.requirements?.statBelow
+      ? { ...action, requirements: { ...action.requirements, statBelow: { stat: "hunger" as const, value: stage.feedBelow } } }
+      : action
+  );
+  return {
+    ...applyModifiers(config, stage),
+    sleepHours: stage.sleepHours ?? config.sleepHours,
+    actions,
+  };
+}
+
+/** Config as it applies to a pet born at `birthDate`, at sim time `time`. */
+export function getStageConfig(config: PetConfig, birthDate: number, time: number): PetConfig {
+  return applyLifeStage(config, getLifeStage(config, birthDate, time));
+}
+
+/** "10 weeks", "7 months", "3 years 2 months". */
+export function formatAge(days: number): string {
+  if (days < 7) return `${Math.floor(days)} day${Math.floor(days) === 1 ? "" : "s"}`;
+  if (days < 16 * 7) return `${Math.floor(days / 7)} weeks`;
+  if (days < 2 * 365) return `${Math.floor(days / 30.44)} months`;
+  const years = Math.floor(days / 365);
+  const months = Math.floor((days - years * 365) / 30.44);
+  return months ? `${years} years ${months} month${months === 1 ? "" : "s"}` : `${years} years`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Owner schedule: the work or school days, hours and commute the owner entered. While the owner is out the pet
+ * is home alone, care actions wait until they're back, and alone time is tallied per day for the report.
+ * Species with a LonelinessConfig start to suffer once a stretch alone passes their tolerance.
+ */
+import type { LonelinessConfig } from "./petConfig";
+import { getLocalDay, getLocalMidnight, getWallTime } from "./sleepSchedule";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface OwnerSchedule {
+  /** Days with work or school, 0 = Sunday; the rest are days at home. */
+  workDays: number[];
+  /** Work hours on the pet's home clock (8.5 = 08:30); an end before the start is a night shift. */
+  workStart: number;
+  workEnd: number;
+  /** One way; the owner leaves this long before work starts and is back this long after it ends. */
+  commuteMinutes: number;
+}
+
+/** Alone time on one local day; `day` is its midnight in the pet's home time zone. */
+export interface AloneDay {
+  day: number;
+  minutes: number;
+}
+
+export const DEFAULT_OWNER_SCHEDULE: OwnerSchedule = {
+  workDays: [1, 2, 3, 4, 5],
+  workStart: 9,
+  workEnd: 17,
+  commuteMinutes: 30,
+};
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Local midnight, in the pet's home time zone, of the day `time` falls on. */
+export function getDayStart(time: number, timeZone: string): number {
+  return getLocalMidnight(getLocalDay(time, timeZone), timeZone);
+}
+
+/** When the owner leaves and gets back for the shift starting on local day `day`; null on a day off. */
+function getAwayWindow(schedule: OwnerSchedule, day: number, timeZone: string): { leave: number; back: number } | null {
+  // Day 0 (1 Jan 1970) was a Thursday
+  if (!schedule.workDays.includes((day + 4) % 7)) return null;
+  // Wall-clock minutes past midnight on the home clock, so a DST change doesn't move the shift
+  const at = (hours: number, dayOffset: number, offsetMinutes: number) =>
+    getWallTime((day + dayOffset) * DAY_MS + (Math.round(hours * 60) + offsetMinutes) * MINUTE_MS, timeZone);
+  const overnight = schedule.workEnd <= schedule.workStart;
+  return {
+    leave: at(schedule.workStart, 0, -schedule.commuteMinutes),
+    back: at(schedule.workEnd, overnight ? 1 : 0, schedule.commuteMinutes),
+  };
+}
+
+/** When the owner gets back if they're out at `time` (today's shift or last night's), otherwise null. */
+export function getOwnerBackAt(schedule: OwnerSchedule | null, time: number, timeZone: string): number | null {
+  if (!schedule) return null;
+  const today = getLocalDay(time, timeZone);
+  for (const day of [today - 1, today]) {
+    const window = getAwayWindow(schedule, day, timeZone);
+    if (window && time >= window.leave && time < window.back) return window.back;
+  }
+  return null;
+}
+
+export const isOwnerAway = (schedule: OwnerSchedule | null, time: number, timeZone: string) =>
+  getOwnerBackAt(schedule, time, timeZone) !== null;
+
+/** "Mon–Fri 08:30–17:30 (+30 min commute each way)". */
+export function formatSchedule(schedule: OwnerSchedule | null): string {
+  if (!schedule || schedule.workDays.length === 0) return "Always home";
+  const days = [...schedule.workDays].sort((a, b) => a - b);
+  const consecutive = days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+  const dayText =
+    consecutive && days.length > 2
+      ? `${weekdayLabels[days[0]]}–${weekdayLabels[days[days.length - 1]]}`
+      : days.map((day) => weekdayLabels[day]).join(", ");
+  const commute = schedule.commuteMinutes > 0 ? ` (+${schedule.commuteMinutes} min commute each way)` : "";
+  return `${dayText} ${formatHour(schedule.workStart)}–${formatHour(schedule.workEnd)}${commute}`;
+}
+
+/** 8.5 → "08:30". */
+export function formatHour(hours: number): string {
+  const minutes = Math.round(hours * 60);
+  return `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/** "08:30" → 8.5; null if it isn't a time. */
+export function parseHour(text: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours + minutes / 60 : null;
+}
+
+/** Hours of the current alone stretch past the species' tolerance; 0 while it copes (or doesn't mind at all). */
+export function getLonelyHours(loneliness: LonelinessConfig | undefined, aloneSince: number | null, time: number): number {
+  if (!loneliness || aloneSince === null) return 0;
+  return Math.max(0, (time - aloneSince) / HOUR_MS - loneliness.toleranceHours);
+}
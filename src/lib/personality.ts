@@ -0,0 +1,110 @@
+/**
+ * Personality: a couple of traits rolled for each pet at adoption so two dogs don't behave alike. Traits scale
+ * decay rates and how much individual actions please or upset the pet; the engine applies them on top of the
+ * life-stage and weight adjustments.
+ */
+import type { ActionCategory, PetConfig, StatKey } from "./petConfig";
+import { applyModifiers, type ConfigModifiers } from "./lifeStages";
+
+export type TraitId = "energetic" | "anxious" | "foodMotivated" | "independent" | "cuddly";
+
+/** Per action category, multipliers on a stat's change. */
+type ActionMultipliers = Partial<Record<ActionCategory, Partial<Record<StatKey, number>>>>;
+
+export interface TraitDefinition {
+  id: TraitId;
+  name: string;
+  emoji: string;
+  description: string;
+  modifiers: ConfigModifiers;
+  /** Scale stat increases from these actions. */
+  gainMultipliers?: ActionMultipliers;
+  /** Scale stat losses from these actions. */
+  lossMultipliers?: ActionMultipliers;
+  /** Traits that can't appear together with this one. */
+  excludes?: TraitId[];
+}
+
+export const personalityTraits: Record<TraitId, TraitDefinition> = {
+  energetic: {
+    id: "energetic",
+    name: "Energetic",
+    emoji: "⚡",
+    description: "Tires slowly but gets bored quickly; loves exercise and play.",
+    modifiers: { decayMultipliers: { energy: 0.8, happiness: 1.1 } },
+    gainMultipliers: { exercise: { happiness: 1.5 }, play: { happiness: 1.5 } },
+  },
+  anxious: {
+    id: "anxious",
+    name: "Anxious",
+    emoji: "😰",
+    description: "Mood drops faster; baths and grooming upset them twice as much, and vet visits are no fun.",
+    modifiers: { decayMultipliers: { happiness: 1.15 }, illnessRisk: 1.1 },
+    lossMultipliers: { bath: { happiness: 2 }, grooming: { happiness: 2 } },
+    gainMultipliers: { vet: { happiness: 0.5 }, bath: { happiness: 0.5 } },
+  },
+  foodMotivated: {
+    id: "foodMotivated",
+    name: "Food-motivated",
+    emoji: "🍖",
+    description: "Always hungry; meals, treats and treat-rewarded training make them twice as happy.",
+    modifiers: { decayMultipliers: { hunger: 1.15 } },
+    gainMultipliers: { meal: { happiness: 2 }, treat: { happiness: 2 }, training: { happiness: 2 } },
+  },
+  independent: {
+    id: "independent",
+    name: "Independent",
+    emoji: "🧭",
+    description: "Content on their own, but play and training please them less.",
+    modifiers: { decayMultipliers: { happiness: 0.8 } },
+    gainMultipliers: { play: { happiness: 0.7 }, training: { happiness: 0.7 } },
+    excludes: ["cuddly"],
+  },
+  cuddly: {
+    id: "cuddly",
+    name: "Cuddly",
+    emoji: "🤗",
+    description: "Needs company and misses you sooner; treats, grooming and play mean extra to them.",
+    modifiers: { decayMultipliers: { happiness: 1.1 } },
+    gainMultipliers: { treat: { happiness: 1.5 }, grooming: { happiness: 1.5 }, play: { happiness: 1.5 } },
+    excludes: ["independent"],
+  },
+};
+
+/** Traits each new pet gets. */
+const TRAITS_PER_PET = 2;
+
+/** Roll a pet's traits; contradictory pairs (independent and cuddly) never come together. */
+export function generateTraits(random: () => number): TraitId[] {
+  const traits: TraitId[] = [];
+  let pool = Object.keys(personalityTraits) as TraitId[];
+  while (traits.length < TRAITS_PER_PET && pool.length) {
+    const trait = pool[Math.floor(random() * pool.length)];
+    traits.push(trait);
+    const excluded = personalityTraits[trait].excludes ?? [];
+    pool = pool.filter((id) => id !== trait && !excluded.includes(id));
+  }
+  return traits;
+}
+
+/** Species config with the pet's traits applied: decay and illness modifiers, then per-action multipliers. */
+export function applyTraits(config: PetConfig, traits: TraitId[] = []): PetConfig {
+  let next = config;
+  for (const id of traits) {
+    const trait = personalityTraits[id];
+    if (!trait) continue;
+    next = applyModifiers(next, trait.modifiers);
+    const actions = next.actions.map((action) => {
+      const gains = (action.category && trait.gainMultipliers?.[action.category]) || {};
+      const losses = (action.category && trait.lossMultipliers?.[action.category]) || {};
+      const statChanges = { ...action.statChanges };
+      for (const stat of Object.keys(statChanges) as StatKey[]) {
+        const delta = statChanges[stat] ?? 0;
+        statChanges[stat] = delta * ((delta >= 0 ? gains[stat] : losses[stat]) ?? 1);
+      }
+      return { ...action, statChanges };
+    });
+    next = { ...next, actions };
+  }
+  return next;
+}
@@ -1,15 +1,309 @@
 /**
- * Per-pet config: decay rates, sleep hours, initial stats, and all action costs/durations/effects.
- * Used by Dashboard and Index for behavior and initial state.
+ * Per-pet config: decay rates and the knock-on effects between stats, sleep hours, initial stats, the list of
+ * care actions (labels, costs, durations, effects, prerequisites, side events, messages), the illnesses neglect
+ * can cause, the life stages a pet ages through, its calorie budget, its preventive care schedule, where it
+ * relieves itself, the skills it can be trained in, the mischief it gets up to when bored or stressed, how it
+ * copes home alone, its breeds, and the essentials bought at adoption. Used by the simulation engine,
+ * Dashboard, PetSelection and Index.
  */
-import { Cat, Bird, Rabbit, Dog } from "lucide-react";
+import { Cat, Bird, Rabbit, Dog, Rat, PawPrint, Fish, Turtle } from "lucide-react";
+import type { PetStats } from "./simulation";
+import type { SleepFlex, SleepWindow } from "./sleepSchedule";
 
-export type PetType = "dog" | "cat" | "parrot" | "rabbit";
+export type PetType = "dog" | "cat" | "parrot" | "rabbit" | "hamster" | "guineaPig" | "fish" | "turtle";
+
+/** Stat keys an action or side event can change. */
+export type StatKey = keyof PetStats;
+
+/** Prerequisites checked by the eligibility evaluator; every unmet one is reported. */
+export interface ActionRequirements {
+  /** Only needed while this stat is below the value (e.g. feed when hunger < 35). */
+  statBelow?: { stat: StatKey; value: number };
+  minEnergy?: number;
+  requiresToy?: boolean;
+  /** Blocked while the pet already has a toy (buying a spare makes no sense). */
+  withoutToy?: boolean;
+  cooldownHours?: number;
+  cooldownDays?: number;
+  /** Only worth doing once the litter box / hutch / cage is at least this soiled (0–100). */
+  minSoil?: number;
+  /** Needs a skill that isn't learned yet (training). */
+  skillToLearn?: boolean;
+}
+
+/** Chance-based extra outcome rolled when the action finishes. Messages use {name} for the pet's name. */
+export interface ActionSideEvent {
+  id: string;
+  chance: number; // 0–1
+  message: string;
+  statChanges?: Partial<PetStats>;
+  toast?: { level: "success" | "info" | "error"; text: string };
+  breaksToy?: boolean;
+}
+
+/**
+ * One care action as Dashboard shows it. Labels are per species because each PetConfig carries its own list;
+ * adding an action to a species is a config-only change.
+ */
+/** Sort of care an action is, for rules shared across species (traits, life stages, the pet's last activity). */
+export type ActionCategory = "meal" | "treat" | "exercise" | "play" | "bath" | "grooming" | "vet" | "training";
+
+export interface ActionDefinition {
+  id: string;
+  label: string; // button text
+  activity: string; // overlay title while it runs, e.g. "Walking"
+  category?: ActionCategory;
+  cost: number;
+  duration: number; // in seconds
+  statChanges: Partial<PetStats>; // deltas; negative = loss
+  kcal?: number; // calories eaten (+) or burned (−)
+  /** Meal: the pet eats until full, so calories scale with the hunger actually restored. */
+  eatsUntilFull?: boolean;
+  requirements?: ActionRequirements;
+  /** Free for this many uses, then each use costs more and takes longer (e.g. buying a new bag of food). */
+  restock?: { freeUses: number; cost: number; extraDuration: number; activity: string };
+  startMessage?: string;
+  startToast?: { level: "success" | "info" | "error"; text: string };
+  sideEvents?: ActionSideEvent[];
+  completionMessage?: string;
+  completionToast?: { level: "success" | "info" | "error"; text: string };
+  grantsToy?: boolean;
+  /** Vet-style action: diagnoses and treats the current illness, charging for treatment by severity. */
+  diagnoses?: boolean;
+  /** Chore that empties the litter box / hutch / cage (soil back to 0). */
+  cleansEnclosure?: boolean;
+  /** Training session: one step of progress on the focused (or next) skill. */
+  trains?: boolean;
+  /** Done outside (a dog walk): storms call it off, rain cuts it short and brings home mud. */
+  outdoors?: boolean;
+}
+
+/**
+ * Illness neglect can bring on. While the cause holds (and, for preventable ones, the preventive care is overdue),
+ * onset is rolled every illness check (30 sim minutes); once ill, health drains until a vet treats it.
+ * Symptoms are what the owner sees before a diagnosis.
+ */
+export interface IllnessDefinition {
+  id: string;
+  name: string;
+  symptoms: string[];
+  cause?: { stat: StatKey; below: number };
+  /** Only caught while the enclosure is at least this soiled (0–100), e.g. fin rot in dirty tank water. */
+  soilAbove?: number;
+  /** Preventive care item that protects against it; only caught while that item is overdue. */
+  preventedBy?: string;
+  onsetChance: number; // 0–1 per check
+  healthLossPerHour: number; // at mild severity
+  /** Treatment prescribed at the vet; cost is for a mild case and scales with severity. */
+  treatment: { name: string; cost: number; health: number };
+}
+
+/**
+ * A rare emergency (a swallowed sock, heatstroke). While its trigger holds, onset is rolled every illness check
+ * with the pet awake; a countdown starts, health drains, and the owner either pays the emergency vet or takes
+ * the risk. Left untreated, the pet pulls through with `recoveryChance` or suffers the consequences.
+ */
+export interface EmergencyDefinition {
+  id: string;
+  name: string;
+  /** Log line at onset; {name} is replaced with the pet's name. */
+  message: string;
+  cause?: { stat: StatKey; below: number };
+  /** Only on heat-wave days. */
+  heatWave?: boolean;
+  /** Only while the enclosure is at least this soiled (0–100). */
+  soilAbove?: number;
+  onsetChance: number; // 0–1 per check
+  /** Hours the owner has to get to the emergency vet. */
+  countdownHours: number;
+  healthLossPerHour: number;
+  /** Emergency treatment; the bill is rolled between minCost and maxCost at onset. */
+  treatment: { name: string; minCost: number; maxCost: number; health: number };
+  /** Chance an untreated pet gets through it with nothing worse than the drain so far. */
+  recoveryChance: number;
+  /** Stat changes when an untreated case goes badly. */
+  consequences: Partial<PetStats>;
+}
+
+/**
+ * A knock-on effect between stats while the pet is awake: while `when` holds, the target decays faster
+ * (`decayMultiplier`) and/or changes by `perHour`. Multipliers on the same target stack.
+ */
+export interface StatInteraction {
+  when: { stat: StatKey; below?: number; above?: number };
+  target: StatKey;
+  /** Scales the target's decay, e.g. 1.5 = half again as fast. */
+  decayMultiplier?: number;
+  /** Change to the target per hour while active; negative drains it. */
+  perHour?: number;
+}
+
+/**
+ * Recurring preventive care (vaccines, parasite control, checkups), scheduled from the adoption date. Due on
+ * `firstDueDays` after adoption, then every `intervalDays` after it was last done; overdue once the grace
+ * period has passed too, which is when illnesses it prevents can be caught.
+ */
+export interface PreventiveCareItem {
+  id: string;
+  name: string;
+  cost: number;
+  firstDueDays: number;
+  intervalDays: number;
+  graceDays: number;
+  /** What skipping it risks, shown when it goes overdue. */
+  overdueWarning: string;
+  /** Multiplier on every illness while overdue (e.g. a missed wellness exam). */
+  overdueIllnessRisk?: number;
+}
+
+export type LifeStageId = "young" | "adult" | "senior";
+
+/**
+ * One life stage (puppy, adult, senior…). Anything left out uses the species' base config; decay multipliers
+ * speed a stat's drop up (>1) or slow it down (<1).
+ */
+export interface LifeStageDefinition {
+  id: LifeStageId;
+  name: string; // e.g. "Puppy"
+  fromDays: number; // age the stage starts at
+  /** Age of an animal adopted at this stage; stages without one can't be picked at adoption. */
+  adoptionAgeDays?: number;
+  decayMultipliers?: Partial<Record<keyof PetConfig["decayRates"], number>>;
+  sleepHours?: SleepWindow;
+  /** Feed once hunger drops below this (young animals eat little and often). */
+  feedBelow?: number;
+  /** Recommended days between vet checkups. */
+  vetCheckupDays: number;
+  /** Multiplier on illness onset chances. */
+  illnessRisk?: number;
+}
+
+/** Calorie budget behind weight: resting burn vs. what feeds and treats add and exercise burns. */
+export interface BodyConditionConfig {
+  adultWeightKg: number; // ideal adult weight
+  restingKcalPerDay: number; // burned at rest by an adult (life-stage hunger multipliers scale it)
+}
+
+/** How a species copes home alone while the owner is out; species without one don't mind. */
+export interface LonelinessConfig {
+  /** Hours alone before it starts to suffer. */
+  toleranceHours: number;
+  /** Happiness lost per awake hour alone past the tolerance. */
+  happinessPerHour: number;
+  /** Past the tolerance it panics rather than just pines: anxious, and more prone to stress incidents. */
+  separationAnxiety?: boolean;
+}
+
+/** Care while the owner travels: a kennel's daily fee, a sitter's fee per visit, and what a visit can cover. */
+export interface AbsenceCareConfig {
+  boardingPerDay: number;
+  sitterPerVisit: number;
+  /** Actions a sitter or friend can do on a visit, in order; the owner picks which. Kennels do all of them. */
+  visitTasks: string[];
+}
+
+/**
+ * Where a species relieves itself. "outdoors": the owner has to take it out (a potty break or walk empties the
+ * bladder) or it has an accident when the bladder runs out. "enclosure": it goes on its own in its litter box,
+ * hutch or cage once the bladder drops below `usesBelow`, soiling it; when the enclosure is full it has an
+ * accident instead. Aquarium species also foul their tank steadily (`soilPerDay`). Messages use {name} for the
+ * pet's name.
+ */
+export interface EliminationConfig {
+  outlet: "outdoors" | "enclosure";
+  /** "litter box", "hutch", "cage", "tank"; the outdoors outlet has none. */
+  enclosureName?: string;
+  /** Dashboard label for how clean the enclosure is; defaults to the enclosure name. */
+  meterLabel?: string;
+  usesBelow?: number;
+  /** Soil added each time the enclosure is used (0–100 scale). */
+  soilPerUse?: number;
+  /** Soil added per day regardless of potty needs (fish waste, uneaten food). */
+  soilPerDay?: number;
+  /** Species without a tracked bladder never have one. */
+  accidentMessage?: string;
+  accidentPenalty?: Partial<PetStats>;
+}
+
+/** One-time purchase at adoption (bowls, bed, tank…). */
+export interface EssentialItem {
+  id: string;
+  name: string;
+  cost: number;
+  description: string;
+}
+
+/**
+ * Mischief a bored, restless or stressed pet gets up to while awake and left alone. Each check, the chance is
+ * `chance` times the weighted sum of the drivers (each 0–1), so a content, well-exercised pet does nothing.
+ * Damage is paid by the owner; messages use {name} for the pet's name.
+ */
+export interface BehaviorIncident {
+  id: string;
+  name: string;
+  chance: number;
+  drivers: { boredom?: number; restlessness?: number; stress?: number };
+  message: string;
+  damageCost: number;
+  statChanges?: Partial<PetStats>;
+}
+
+/** What a learned skill changes; every learned skill's effects stack. */
+export interface SkillEffects {
+  /** Multipliers on side event chances, keyed "actionId.sideId" (e.g. fewer muddy walks). */
+  sideEventChance?: Record<string, number>;
+  /** Extra stat changes when an action finishes. */
+  actionBonus?: Record<string, Partial<PetStats>>;
+  /** Multiplier on how much each use soils the litter box / hutch / cage. */
+  soilMultiplier?: number;
+  /** Multipliers on behavior incident chances, keyed by incident id. */
+  incidentChance?: Record<string, number>;
+}
+
+/**
+ * One node of a species' skill tree: learned after `sessions` training sessions, once every skill in
+ * `requires` is learned. The train action's cooldown spreads the sessions over days.
+ */
+export interface SkillDefinition {
+  id: string;
+  name: string;
+  sessions: number;
+  requires?: string[];
+  /** Shown on the pet card: what the skill does for the pet. */
+  benefit: string;
+  effects: SkillEffects;
+}
+
+/** Patch for one action; statChanges and requirements are merged into the species' values. */
+export type ActionOverride = Partial<Omit<ActionDefinition, "id" | "statChanges" | "requirements">> & {
+  statChanges?: Partial<PetStats>;
+  requirements?: Partial<ActionRequirements>;
+};
+
+/** Anything a breed changes about its species; unset fields keep the species default. */
+export interface BreedOverrides {
+  decayRates?: Partial<PetConfig["decayRates"]>;
+  sleepHours?: PetConfig["sleepHours"];
+  initialStats?: Partial<PetStats>;
+  bodyCondition?: Partial<BodyConditionConfig>;
+  actions?: Record<string, ActionOverride>;
+  preventiveCare?: Record<string, Partial<Omit<PreventiveCareItem, "id">>>;
+}
+
+/** A breed or variety under a species (Chihuahua, Husky; budgie, macaw). The first one is the default. */
+export interface BreedDefinition {
+  id: string;
+  name: string;
+  description: string;
+  overrides: BreedOverrides;
+}
 
 export interface PetConfig {
   type: PetType;
   name: string;
   icon: typeof Dog;
+  /** Background of the species card in PetSelection. */
+  cardColor: string;
   // Stat decay rates (per 30 seconds)
   decayRates: {
     hunger: number; // -1% every X minutes
@@ -17,364 +311,2709 @@ export interface PetConfig {
     hygiene: number; // -1% every X hours
     energy: number; // -1% every X minutes (daytime drain)
     thirst: number; // -1% every X minutes
+    bladder: number; // -1% every X minutes (a third as fast asleep)
   };
-  // Sleep cycle
-  sleepHours: { start: number; end: number }; // 24-hour format
+  // Knock-on effects between stats while awake
+  statInteractions: StatInteraction[];
+  // Sleep cycle, on the pet's home clock (24-hour format)
+  sleepHours: SleepWindow;
+  /** Daytime naps, e.g. a cat's afternoon snooze. */
+  naps?: SleepWindow[];
+  /** How far owners may adjust the night. */
+  sleepFlex: SleepFlex;
   // Initial stats
-  initialStats: {
-    hunger: number;
-    happiness: number;
-    hygiene: number;
-    energy: number;
-    thirst: number;
-  };
-  // Actions available and their effects
-  actions: {
-    feed: {
-      cost: number;
-      duration: number; // in seconds
-      statChanges: {
-        hunger: number;
-        happiness?: number;
-        energy?: number;
-      };
-      triggerThreshold: number; // Feed when hunger < this
-    };
-    water: {
-      cost: number;
-      duration: number;
-      statChanges: {
-        thirst: number;
-        happiness?: number;
-      };
-      triggerThreshold: number;
-    };
-    exercise: { // Walk for dogs, Play for cats, Fly for parrots, Run for rabbits
-      cost: number;
-      duration: number;
-      statChanges: {
-        energy: number; // negative = cost
-        happiness: number;
-        hygiene?: number; // negative = loss
-        thirst: number; // negative = decrease (a lot)
-        hunger: number; // negative = decrease (some)
-      };
-      minEnergy: number;
-      cooldownHours: number;
-    };
-    play: {
-      cost: number;
-      duration: number;
-      statChanges: {
-        happiness: number;
-        energy: number; // negative
-        hygiene?: number; // negative
-        thirst: number; // negative = decrease (a lot)
-        hunger: number; // negative = decrease (some)
-      };
-      requiresToy: boolean;
-      minEnergy: number;
-    };
-    bath: {
-      cost: number;
-      duration: number;
-      statChanges: {
-        hygiene: number;
-        happiness?: number; // negative for pets that don't like baths
-      };
-      triggerThreshold: number;
-      cooldownDays: number;
-    };
-    grooming: { // Trim nails for dogs/cats, Trim beak/claws for parrots, Trim nails for rabbits
-      cost: number;
-      duration: number;
-      statChanges: {
-        hygiene: number;
-        happiness?: number; // negative
-      };
-      triggerThreshold: number;
-      cooldownDays: number;
-    };
-    vetVisit: {
-      cost: number;
-      duration: number;
-      statChanges: {
-        hygiene: number;
-        happiness: number;
-        energy: number;
+  initialStats: PetStats;
+  /** Stats the species has no use for (a fish's thirst); held at 100 and left off the dashboard and report. */
+  untrackedStats?: StatKey[];
+  // Actions available, in display order
+  actions: ActionDefinition[];
+  // Illnesses this species can catch
+  illnesses: IllnessDefinition[];
+  // Rare emergencies that need the emergency vet
+  emergencies: EmergencyDefinition[];
+  // Life stages, youngest first
+  lifeStages: LifeStageDefinition[];
+  // Weight model
+  bodyCondition: BodyConditionConfig;
+  // Recurring vaccines, parasite control and checkups
+  preventiveCare: PreventiveCareItem[];
+  // Potty needs
+  elimination: EliminationConfig;
+  // Skill tree for the train action, in training order
+  skills: SkillDefinition[];
+  // Mischief when bored or stressed
+  incidents: BehaviorIncident[];
+  // Coping home alone while the owner is out
+  loneliness?: LonelinessConfig;
+  // Boarding, pet-sitter and friend care while the owner travels
+  absenceCare: AbsenceCareConfig;
+  // Breeds / varieties, default first
+  breeds: BreedDefinition[];
+  // Bought once at adoption
+  essentials: EssentialItem[];
+}
+
+/** Species config for a breed: overrides merged in, and action calories scaled to the breed's size. */
+export function getBreedConfig(config: PetConfig, breedId?: string): PetConfig {
+  const breed = config.breeds.find((b) => b.id === breedId);
+  if (!breed) return config;
+  const { decayRates, sleepHours, initialStats, bodyCondition, actions = {}, preventiveCare = {} } = breed.overrides;
+  const merged = { ...config.bodyCondition, ...bodyCondition };
+  // Portions and calories burned follow the breed's resting burn, so weight stays balanced at the same routine
+  const kcalScale = merged.restingKcalPerDay / config.bodyCondition.restingKcalPerDay;
+  return {
+    ...config,
+    decayRates: { ...config.decayRates, ...decayRates },
+    sleepHours: sleepHours ?? config.sleepHours,
+    initialStats: { ...config.initialStats, ...initialStats },
+    bodyCondition: merged,
+    actions: config.actions.map((action) => {
+      const patch = actions[action.id] ?? {};
+      return {
+        ...action,
+        ...patch,
+        kcal: action.kcal && action.kcal * kcalScale,
+        statChanges: { ...action.statChanges, ...patch.statChanges },
+        requirements: action.requirements || patch.requirements ? { ...action.requirements, ...patch.requirements } : undefined,
       };
-    };
+    }),
+    preventiveCare: config.preventiveCare.map((item) => ({ ...item, ...preventiveCare[item.id] })),
   };
 }
 
+/** Look up one of a species' actions by id. */
+export function getActionDefinition(config: PetConfig, actionId: string): ActionDefinition | undefined {
+  return config.actions.find((action) => action.id === actionId);
+}
+
+/** Short training session; the cooldown keeps sessions spread out so skills take days to learn. */
+const trainAction: ActionDefinition = {
+  id: "train",
+  label: "Train",
+  activity: "Training",
+  category: "training",
+  cost: 0,
+  duration: 10 * 60,
+  statChanges: { energy: -5, happiness: 5 },
+  requirements: { minEnergy: 20, cooldownHours: 6, skillToLearn: true },
+  trains: true,
+  startMessage: "Short training session with {name} 🎓",
+};
+
+/** Same toy run for every species. */
+const buyToyAction: ActionDefinition = {
+  id: "buyToy",
+  label: "Buy Toy",
+  activity: "Buying Toy",
+  cost: 15,
+  duration: 5 * 60,
+  statChanges: { happiness: 20 },
+  requirements: { withoutToy: true },
+  startMessage: "Buying a new toy for {name} 🛒",
+  startToast: { level: "info", text: "You'll probably go to the mall and buy this, so not much extra time" },
+  completionMessage: "Got a new toy! 🎾",
+  completionToast: { level: "success", text: "New toy purchased! Your pet loves it!" },
+  grantsToy: true,
+};
+
+/** 10% chance the toy breaks during play. */
+const toyBreaks: ActionSideEvent = {
+  id: "toyBreak",
+  chance: 0.1,
+  message: "⚠️ The toy broke! Buy a new one or happiness will drop!",
+  toast: { level: "error", text: "Toy broke! Buy a new one soon!" },
+  breaksToy: true,
+};
+
+/** Partial water change for aquarium species; clears the waste that fouls the tank. */
+const waterChangeAction: ActionDefinition = {
+  id: "waterChange",
+  label: "Water Change",
+  activity: "Cleaning Tank",
+  cost: 2,
+  duration: 30 * 60,
+  statChanges: { happiness: 5 },
+  cleansEnclosure: true,
+  requirements: { minSoil: 30 },
+  startMessage: "Siphoning the gravel in {name}'s tank 🪣",
+  completionMessage: "{name}'s tank is clear again",
+};
+
+/** Checkup messages for when nothing is found; an ill pet gets a diagnosis instead. */
+const vetCheckup = {
+  startMessage: "Taking {name} to the vet 🏥",
+  completionMessage: "{name} got a checkup! All healthy! 🩺",
+  completionToast: { level: "success" as const, text: "Checkup complete! Your pet is healthy!" },
+  category: "vet" as const,
+  diagnoses: true,
+};
+
+/** Monthly flea & tick prevention for dogs and cats; skipping it lets an infestation take hold. */
+const fleaTick: PreventiveCareItem = {
+  id: "fleaTick",
+  name: "Flea & tick prevention",
+  cost: 20,
+  firstDueDays: 0,
+  intervalDays: 30,
+  graceDays: 7,
+  overdueWarning: "Fleas and ticks can move in.",
+};
+
+const fleas: IllnessDefinition = {
+  id: "fleas",
+  name: "Flea infestation",
+  symptoms: ["Scratching constantly", "Tiny dark specks in the fur"],
+  preventedBy: "fleaTick",
+  onsetChance: 0.004,
+  healthLossPerHour: 0.5,
+  treatment: { name: "flea treatment and a home spray", cost: 60, health: 20 },
+};
+
+const intestinalWorms: IllnessDefinition = {
+  id: "worms",
+  name: "Intestinal worms",
+  symptoms: ["Scooting", "Pot-bellied look"],
+  preventedBy: "deworming",
+  onsetChance: 0.001,
+  healthLossPerHour: 0.75,
+  treatment: { name: "a course of dewormer", cost: 40, health: 25 },
+};
+
+/** Underfeeding; the one neglect illness fish and turtles share with everyone else. */
+const malnutrition: IllnessDefinition = {
+  id: "malnutrition",
+  name: "Malnutrition",
+  symptoms: ["Lethargic", "Dull coat"],
+  cause: { stat: "hunger", below: 10 },
+  onsetChance: 0.05,
+  healthLossPerHour: 2,
+  treatment: { name: "nutritional support and vitamins", cost: 80, health: 45 },
+};
+
+/** Neglect illnesses every land animal can get. */
+const commonIllnesses: IllnessDefinition[] = [
+  {
+    id: "skinInfection",
+    name: "Skin infection",
+    symptoms: ["Scratching a lot", "Red, flaky patches"],
+    cause: { stat: "hygiene", below: 10 },
+    onsetChance: 0.04,
+    healthLossPerHour: 1.5,
+    treatment: { name: "medicated wash and antibiotics", cost: 60, health: 40 },
+  },
+  malnutrition,
+  {
+    id: "dehydration",
+    name: "Dehydration",
+    symptoms: ["Dry gums", "Sunken eyes"],
+    cause: { stat: "thirst", below: 10 },
+    onsetChance: 0.08,
+    healthLossPerHour: 3,
+    treatment: { name: "IV fluids", cost: 90, health: 50 },
+  },
+];
+
+/** Heat-wave emergency for warm-blooded pets; small animals' treatment is cheaper (see each species). */
+const heatstroke: EmergencyDefinition = {
+  id: "heatstroke",
+  name: "Heatstroke",
+  message: "{name} is panting hard and collapsing in the heat 🥵",
+  heatWave: true,
+  cause: { stat: "thirst", below: 50 },
+  onsetChance: 0.02,
+  countdownHours: 2,
+  healthLossPerHour: 10,
+  treatment: { name: "cooling, IV fluids and monitoring", minCost: 800, maxCost: 2500, health: 40 },
+  recoveryChance: 0.35,
+  consequences: { health: -60, energy: -40 },
+};
+
+/** Small-animal heatstroke treatment. */
+const smallHeatstroke: EmergencyDefinition = {
+  ...heatstroke,
+  treatment: { ...heatstroke.treatment, minCost: 200, maxCost: 600 },
+};
+
+/** Knock-on effects every species shares: hunger and dirt sour the mood, thirst saps energy, fatigue hurts mood. */
+const commonStatInteractions: StatInteraction[] = [
+  { when: { stat: "hunger", below: 25 }, target: "happiness", decayMultiplier: 1.5 },
+  { when: { stat: "hygiene", below: 40 }, target: "happiness", decayMultiplier: 1.5 },
+  { when: { stat: "thirst", below: 25 }, target: "energy", decayMultiplier: 1.5 },
+  { when: { stat: "hunger", below: 15 }, target: "energy", decayMultiplier: 1.25 },
+  { when: { stat: "energy", below: 15 }, target: "happiness", decayMultiplier: 1.3 },
+];
+
 export const petConfigs: Record<PetType, PetConfig> = {
   dog: {
     type: "dog",
     name: "Dog",
     icon: Dog,
+    cardColor: "bg-gradient-to-br from-amber-100 to-orange-100",
     decayRates: {
       hunger: 6.75, // -1% every 6.75 min
       happiness: 45, // -1% every 45 min
       hygiene: 120, // -1% every 2 hours
       energy: 10, // -1% every 10 min (daytime)
       thirst: 3.5, // -1% every 3.5 min
+      bladder: 4.2, // Needs to go out about every 7 hours
     },
+    statInteractions: commonStatInteractions,
     sleepHours: { start: 22, end: 6 },
+    sleepFlex: { shiftHours: 2, minHours: 8, maxHours: 11 },
     initialStats: {
       hunger: 80,
       happiness: 80,
       hygiene: 90,
       energy: 80,
       thirst: 80,
+      health: 100,
+      bladder: 100,
     },
-    actions: {
-      feed: {
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
         cost: 0,
         duration: 5,
         statChanges: { hunger: 90, happiness: 5, energy: 12 },
-        triggerThreshold: 35,
+        kcal: 450,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 35 } },
+        restock: { freeUses: 120, cost: 25, extraDuration: 60, activity: "Getting food & Feeding" }, // +60 sec extra when going to get food
       },
-      water: {
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
         cost: 0,
         duration: 5,
         statChanges: { thirst: 80, happiness: 3 },
-        triggerThreshold: 70,
+        requirements: { statBelow: { stat: "thirst", value: 70 } },
       },
-      exercise: {
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 5, hunger: 3 },
+        kcal: 40,
+        completionMessage: "{name} gobbled up a treat! 🦴",
+      },
+      {
+        id: "exercise",
+        label: "Walk",
+        activity: "Walking",
+        category: "exercise",
         cost: 0,
         duration: 5,
-        statChanges: { energy: -20, happiness: 15, hygiene: -7, thirst: -35, hunger: -8 },
-        minEnergy: 20,
-        cooldownHours: 12,
+        statChanges: { energy: -20, happiness: 15, hygiene: -7, thirst: -35, hunger: -8, bladder: 100 },
+        kcal: -120,
+        requirements: { minEnergy: 20, cooldownHours: 12 },
+        outdoors: true,
+        startMessage: "{name} is going on a walk 🚶",
+        sideEvents: [
+          { id: "stick", chance: 0.1, message: "{name} found a stick! +10 Happiness 🦴", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "friend", chance: 0.08, message: "{name} met another dog! +15 Happiness 🐕", statChanges: { happiness: 15 }, toast: { level: "success", text: "Having fun!" } },
+          { id: "mess", chance: 0.12, message: "{name} stepped in mud! -10 Hygiene 💩", statChanges: { hygiene: -10 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back from walk",
       },
-      play: {
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
         cost: 0,
         duration: 5,
         statChanges: { happiness: 15, energy: -20, hygiene: -3, thirst: -30, hunger: -6 },
-        requiresToy: true,
-        minEnergy: 20,
+        kcal: -80,
+        requirements: { requiresToy: true, minEnergy: 20 },
+        startMessage: "{name} is playing! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          { id: "mess", chance: 0.08, message: "{name} got a bit messy. -3 Hygiene 🌪️", statChanges: { hygiene: -3 } },
+          toyBreaks,
+        ],
       },
-      bath: {
+      buyToyAction,
+      {
+        id: "bath",
+        label: "Bath",
+        activity: "Bath",
+        category: "bath",
         cost: 2,
         duration: 35 * 60,
         statChanges: { hygiene: 100, happiness: -5 },
-        triggerThreshold: 35,
-        cooldownDays: 14,
+        requirements: { statBelow: { stat: "hygiene", value: 35 }, cooldownDays: 14 },
+        startMessage: "{name} is getting a bath 🛁",
       },
-      grooming: {
-        cost: 10,
-        duration: 30 * 60,
-        statChanges: { hygiene: 15, happiness: -3 },
-        triggerThreshold: 35,
-        cooldownDays: 30,
+      {
+        id: "potty",
+        label: "Potty Break",
+        activity: "Potty Break",
+        cost: 0,
+        duration: 10 * 60,
+        statChanges: { bladder: 100 },
+        requirements: { statBelow: { stat: "bladder", value: 80 } },
+        startMessage: "Taking {name} out for a potty break 🌳",
+        completionMessage: "{name} did their business outside. Good dog!",
       },
-      vetVisit: {
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
         cost: 100,
         duration: 45 * 60,
         statChanges: { hygiene: 30, happiness: 10, energy: 20 },
+        ...vetCheckup,
       },
+      {
+        id: "grooming",
+        label: "Trim Nails",
+        activity: "Trimming Nails",
+        category: "grooming",
+        cost: 10,
+        duration: 30 * 60,
+        statChanges: { hygiene: 15, happiness: -3 },
+        requirements: { statBelow: { stat: "hygiene", value: 35 }, cooldownDays: 30 },
+        startMessage: "Trimming Nails {name} ✂️",
+        completionMessage: "{name}'s nails are trimmed!",
+      },
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      {
+        id: "earInfection",
+        name: "Ear infection",
+        symptoms: ["Shaking head", "Smelly ears"],
+        cause: { stat: "hygiene", below: 20 },
+        onsetChance: 0.03,
+        healthLossPerHour: 1,
+        treatment: { name: "ear cleaning and drops", cost: 70, health: 30 },
+      },
+      fleas,
+      intestinalWorms,
+      {
+        id: "parvovirus",
+        name: "Parvovirus",
+        symptoms: ["Vomiting", "Refusing food", "Very weak"],
+        preventedBy: "coreVaccines",
+        onsetChance: 0.0005,
+        healthLossPerHour: 5,
+        treatment: { name: "hospital stay with IV fluids", cost: 800, health: 60 },
+      },
+      {
+        id: "heartworm",
+        name: "Heartworm disease",
+        symptoms: ["Coughing", "Tires quickly on walks"],
+        preventedBy: "heartworm",
+        onsetChance: 0.0005,
+        healthLossPerHour: 1,
+        treatment: { name: "heartworm treatment and crate rest", cost: 1000, health: 50 },
+      },
+    ],
+    emergencies: [
+      {
+        id: "swallowedSock",
+        name: "Swallowed sock",
+        message: "{name} swallowed a sock and keeps retching 🧦",
+        cause: { stat: "happiness", below: 40 },
+        onsetChance: 0.003,
+        countdownHours: 6,
+        healthLossPerHour: 4,
+        treatment: { name: "surgery to remove the blockage", minCost: 1500, maxCost: 4000, health: 40 },
+        recoveryChance: 0.3,
+        consequences: { health: -50, happiness: -30 },
+      },
+      heatstroke,
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Puppy",
+        fromDays: 0,
+        adoptionAgeDays: 70, // 10 weeks
+        decayMultipliers: { hunger: 1.4, energy: 1.3, hygiene: 1.2 },
+        sleepHours: { start: 21, end: 7 }, // Puppies need more sleep
+        feedBelow: 55,
+        vetCheckupDays: 30, // Vaccination series
+        illnessRisk: 1.5,
+      },
+      { id: "adult", name: "Adult", fromDays: 365, adoptionAgeDays: 3 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 7 * 365,
+        decayMultipliers: { hunger: 0.85, energy: 1.3 },
+        sleepHours: { start: 21, end: 7 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.5,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 20, restingKcalPerDay: 610 },
+    elimination: {
+      outlet: "outdoors",
+      accidentMessage: "{name} couldn't hold it and had an accident indoors! -15 Hygiene, -10 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -10 },
     },
+    skills: [
+      {
+        id: "sit",
+        name: "Sit",
+        sessions: 4,
+        benefit: "Sits politely for treats (+3 Happiness per treat).",
+        effects: { actionBonus: { treat: { happiness: 3 } } },
+      },
+      {
+        id: "stay",
+        name: "Stay",
+        sessions: 6,
+        requires: ["sit"],
+        benefit: "Waits instead of charging into puddles and settles when left alone: half as many muddy walks and chewed things.",
+        effects: {
+          sideEventChance: { "exercise.mess": 0.5 },
+          incidentChance: { chewShoes: 0.5, chewFurniture: 0.5 },
+        },
+      },
+      {
+        id: "leash",
+        name: "Leash manners",
+        sessions: 8,
+        requires: ["sit"],
+        benefit: "Walks nicely on the leash: +5 Happiness per walk and calmer greetings with other dogs.",
+        effects: { actionBonus: { exercise: { happiness: 5 } }, sideEventChance: { "exercise.friend": 1.5 } },
+      },
+    ],
+    loneliness: { toleranceHours: 5, happinessPerHour: 3, separationAnxiety: true },
+    incidents: [
+      {
+        id: "chewShoes",
+        name: "Chewed shoes",
+        chance: 0.03,
+        drivers: { boredom: 1, restlessness: 0.5 },
+        message: "{name} chewed up a pair of shoes! Damage: $40 👟",
+        damageCost: 40,
+      },
+      {
+        id: "chewFurniture",
+        name: "Chewed furniture",
+        chance: 0.01,
+        drivers: { boredom: 0.5, restlessness: 1, stress: 0.5 },
+        message: "{name} gnawed a table leg to splinters! Damage: $120 🪑",
+        damageCost: 120,
+      },
+    ],
+    absenceCare: { boardingPerDay: 45, sitterPerVisit: 25, visitTasks: ["feed", "water", "potty", "exercise", "play", "bath"] }, // Kennels charge more for dogs; walks are part of a visit
+    breeds: [
+      { id: "mixed", name: "Mixed breed", description: "Medium-sized all-rounder.", overrides: {} },
+      {
+        id: "chihuahua",
+        name: "Chihuahua",
+        description: "Tiny, eats little and tires quickly; short walks and cheap food.",
+        overrides: {
+          decayRates: { energy: 8 },
+          sleepHours: { start: 21, end: 7 },
+          bodyCondition: { adultWeightKg: 2.5, restingKcalPerDay: 180 },
+          actions: {
+            feed: { restock: { freeUses: 120, cost: 10, extraDuration: 60, activity: "Getting food & Feeding" } },
+            exercise: { duration: 3, statChanges: { energy: -15, thirst: -20 } },
+            grooming: { cost: 8 },
+          },
+          preventiveCare: { heartworm: { cost: 10 }, fleaTick: { cost: 12 } },
+        },
+      },
+      {
+        id: "labrador",
+        name: "Labrador Retriever",
+        description: "Big appetite and prone to weight gain; food costs more.",
+        overrides: {
+          decayRates: { hunger: 6 },
+          bodyCondition: { adultWeightKg: 30, restingKcalPerDay: 850 },
+          actions: {
+            feed: { restock: { freeUses: 120, cost: 40, extraDuration: 60, activity: "Getting food & Feeding" } },
+            bath: { cost: 4 },
+            grooming: { cost: 12 },
+          },
+          preventiveCare: { heartworm: { cost: 20 }, fleaTick: { cost: 25 } },
+        },
+      },
+      {
+        id: "husky",
+        name: "Siberian Husky",
+        description: "Endless energy: needs walks twice as often, sheds heavily and needs weekly brushing.",
+        overrides: {
+          decayRates: { energy: 14, happiness: 35 },
+          bodyCondition: { adultWeightKg: 23, restingKcalPerDay: 700 },
+          actions: {
+            feed: { restock: { freeUses: 120, cost: 35, extraDuration: 60, activity: "Getting food & Feeding" } },
+            exercise: { requirements: { cooldownHours: 6 } },
+            grooming: {
+              label: "Brush Coat",
+              activity: "Brushing",
+              cost: 15,
+              requirements: { cooldownDays: 7 },
+              startMessage: "Brushing out {name}'s undercoat 🪮",
+              completionMessage: "{name}'s coat is brushed out!",
+            },
+          },
+          preventiveCare: { heartworm: { cost: 18 }, fleaTick: { cost: 22 } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "coreVaccines",
+        name: "DHPP booster",
+        cost: 45,
+        firstDueDays: 14,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Unprotected against parvovirus and distemper.",
+      },
+      {
+        id: "rabies",
+        name: "Rabies vaccine",
+        cost: 30,
+        firstDueDays: 30,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Rabies vaccination is a legal requirement in most places.",
+      },
+      fleaTick,
+      {
+        id: "heartworm",
+        name: "Heartworm prevention",
+        cost: 15,
+        firstDueDays: 0,
+        intervalDays: 30,
+        graceDays: 7,
+        overdueWarning: "Mosquito bites can now pass on heartworm.",
+      },
+      {
+        id: "deworming",
+        name: "Deworming",
+        cost: 12,
+        firstDueDays: 14,
+        intervalDays: 90,
+        graceDays: 14,
+        overdueWarning: "Intestinal worms can take hold.",
+      },
+    ],
+    essentials: [
+      { id: "collar", name: "Collar", cost: 15, description: "Essential for walks" },
+      { id: "harness", name: "Harness", cost: 25, description: "Safe walking gear" },
+      { id: "bed", name: "Dog Bed", cost: 50, description: "Comfy sleeping spot" },
+      { id: "bowls", name: "Food & Water Bowls", cost: 30, description: "For meals" },
+      { id: "toy", name: "Dog Toy", cost: 15, description: "For playtime fun" },
+    ],
   },
   cat: {
     type: "cat",
     name: "Cat",
     icon: Cat,
+    cardColor: "bg-gradient-to-br from-purple-100 to-pink-100",
     decayRates: {
       hunger: 8, // Cats eat less frequently than dogs
       happiness: 50, // Cats are more independent
       hygiene: 180, // Cats groom themselves more
       energy: 12, // Cats are less active
       thirst: 4, // Similar to dogs
+      bladder: 5, // Uses the litter box a few times a day
     },
+    statInteractions: commonStatInteractions,
     sleepHours: { start: 20, end: 6 }, // Cats sleep more
+    naps: [{ start: 13, end: 15.5 }], // Afternoon snooze in a sunny spot
+    sleepFlex: { shiftHours: 2, minHours: 9, maxHours: 12 },
     initialStats: {
       hunger: 75,
       happiness: 75,
       hygiene: 95, // Cats are cleaner
       energy: 70,
       thirst: 75,
+      health: 100,
+      bladder: 100,
     },
-    actions: {
-      feed: {
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
         cost: 2,
         duration: 5,
         statChanges: { hunger: 85, happiness: 3, energy: 10 },
-        triggerThreshold: 40,
+        kcal: 110,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 40 } },
       },
-      water: {
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
         cost: 0,
         duration: 5,
         statChanges: { thirst: 75, happiness: 2 },
-        triggerThreshold: 70,
+        requirements: { statBelow: { stat: "thirst", value: 70 } },
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 5, hunger: 3 },
+        kcal: 10,
+        completionMessage: "{name} nibbled a treat! 🐟",
       },
-      exercise: { // Play with cat
+      { // Play with cat
+        id: "exercise",
+        label: "Play",
+        activity: "Playing",
+        category: "exercise",
         cost: 0,
         duration: 5,
         statChanges: { energy: -15, happiness: 20, hygiene: -2, thirst: -30, hunger: -7 },
-        minEnergy: 15,
-        cooldownHours: 8,
+        kcal: -25,
+        requirements: { minEnergy: 15, cooldownHours: 8 },
+        startMessage: "{name} is going on a play session 🚶",
+        sideEvents: [
+          { id: "stick", chance: 0.1, message: "{name} caught a toy! +10 Happiness 🐾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "friend", chance: 0.08, message: "{name} is having fun! +15 Happiness 😸", statChanges: { happiness: 15 }, toast: { level: "success", text: "Having fun!" } },
+          { id: "mess", chance: 0.12, message: "{name} got a bit messy. -5 Hygiene", statChanges: { hygiene: -5 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back from play session",
       },
-      play: {
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
         cost: 0,
         duration: 5,
         statChanges: { happiness: 20, energy: -15, hygiene: -2, thirst: -25, hunger: -5 },
-        requiresToy: true,
-        minEnergy: 15,
+        kcal: -20,
+        requirements: { requiresToy: true, minEnergy: 15 },
+        startMessage: "{name} is playing! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          { id: "mess", chance: 0.08, message: "{name} got a bit messy. -2 Hygiene 🌪️", statChanges: { hygiene: -2 } },
+          toyBreaks,
+        ],
       },
-      bath: {
+      buyToyAction,
+      {
+        id: "bath",
+        label: "Bath",
+        activity: "Bath",
+        category: "bath",
         cost: 3,
         duration: 40 * 60, // Cats hate baths more
         statChanges: { hygiene: 100, happiness: -10 },
-        triggerThreshold: 30,
-        cooldownDays: 21, // Cats need fewer baths
+        requirements: { statBelow: { stat: "hygiene", value: 30 }, cooldownDays: 21 }, // Cats need fewer baths
+        startMessage: "{name} is getting a bath 🛁",
       },
-      grooming: { // Brush cat
-        cost: 5,
-        duration: 20 * 60,
-        statChanges: { hygiene: 20, happiness: 5 }, // Cats like being brushed
-        triggerThreshold: 40,
-        cooldownDays: 7,
+      {
+        id: "scoopLitter",
+        label: "Scoop Litter",
+        activity: "Scooping Litter",
+        cost: 1,
+        duration: 5 * 60,
+        statChanges: { happiness: 3 },
+        cleansEnclosure: true,
+        requirements: { minSoil: 20 },
+        startMessage: "Scooping {name}'s litter box 🧹",
+        completionMessage: "The litter box is fresh again",
       },
-      vetVisit: {
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
         cost: 120,
         duration: 45 * 60,
         statChanges: { hygiene: 25, happiness: 5, energy: 15 },
+        ...vetCheckup,
+      },
+      { // Brush cat
+        id: "grooming",
+        label: "Brush",
+        activity: "Brushing",
+        category: "grooming",
+        cost: 5,
+        duration: 20 * 60,
+        statChanges: { hygiene: 20, happiness: 5 }, // Cats like being brushed
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 7 },
+        startMessage: "Brushing {name} ✂️",
+        completionMessage: "{name} is brushed!",
+      },
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      {
+        id: "urinaryInfection",
+        name: "Urinary tract infection",
+        symptoms: ["Straining in the litter box", "Peeing outside the box"],
+        cause: { stat: "thirst", below: 25 },
+        onsetChance: 0.03,
+        healthLossPerHour: 2,
+        treatment: { name: "antibiotics and a urinary diet", cost: 110, health: 40 },
+      },
+      fleas,
+      intestinalWorms,
+      {
+        id: "panleukopenia",
+        name: "Feline panleukopenia",
+        symptoms: ["Vomiting", "Hiding", "Very weak"],
+        preventedBy: "coreVaccines",
+        onsetChance: 0.0005,
+        healthLossPerHour: 5,
+        treatment: { name: "hospital stay with IV fluids", cost: 700, health: 60 },
+      },
+    ],
+    emergencies: [
+      {
+        id: "urinaryBlockage",
+        name: "Urinary blockage",
+        message: "{name} keeps straining in the litter box and can't pee 🚨",
+        cause: { stat: "thirst", below: 30 },
+        onsetChance: 0.004,
+        countdownHours: 12,
+        healthLossPerHour: 4,
+        treatment: { name: "a catheter and a hospital stay", minCost: 1500, maxCost: 3500, health: 45 },
+        recoveryChance: 0.1,
+        consequences: { health: -60, happiness: -30 },
       },
+      {
+        id: "swallowedString",
+        name: "Swallowed string",
+        message: "{name} swallowed a length of string and won't eat 🧶",
+        cause: { stat: "happiness", below: 35 },
+        onsetChance: 0.003,
+        countdownHours: 8,
+        healthLossPerHour: 3,
+        treatment: { name: "surgery to remove the string", minCost: 1200, maxCost: 3000, health: 40 },
+        recoveryChance: 0.25,
+        consequences: { health: -50, happiness: -25 },
+      },
+      heatstroke,
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Kitten",
+        fromDays: 0,
+        adoptionAgeDays: 70,
+        decayMultipliers: { hunger: 1.5, energy: 1.2, happiness: 1.2 }, // Kittens want more play
+        feedBelow: 55,
+        vetCheckupDays: 30,
+        illnessRisk: 1.5,
+      },
+      { id: "adult", name: "Adult", fromDays: 365, adoptionAgeDays: 3 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 11 * 365,
+        decayMultipliers: { hunger: 0.85, energy: 1.25, thirst: 1.2 }, // Kidneys weaken with age
+        sleepHours: { start: 19, end: 7 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.5,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 4.5, restingKcalPerDay: 96 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "litter box",
+      usesBelow: 30,
+      soilPerUse: 20,
+      accidentMessage: "The litter box is too dirty, so {name} had an accident on the rug! -15 Hygiene, -15 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -15 },
     },
+    skills: [
+      {
+        id: "litter",
+        name: "Litter habits",
+        sessions: 4,
+        benefit: "Buries neatly, so the litter box stays clean longer.",
+        effects: { soilMultiplier: 0.75 },
+      },
+      {
+        id: "scratchingPost",
+        name: "Scratching post",
+        sessions: 6,
+        benefit: "Scratches the post, not the furniture: far less clawed furniture and +3 Happiness per play session.",
+        effects: { actionBonus: { play: { happiness: 3 } }, incidentChance: { scratchFurniture: 0.2 } },
+      },
+      {
+        id: "recall",
+        name: "Come when called",
+        sessions: 8,
+        requires: ["scratchingPost"],
+        benefit: "Comes when you call instead of exploring the counters: fewer messy play sessions and broken glasses.",
+        effects: { sideEventChance: { "exercise.mess": 0.5, "play.mess": 0.5 }, incidentChance: { knockOver: 0.5 } },
+      },
+    ],
+    loneliness: { toleranceHours: 10, happinessPerHour: 1 },
+    incidents: [
+      {
+        id: "scratchFurniture",
+        name: "Scratched furniture",
+        chance: 0.03,
+        drivers: { boredom: 1, restlessness: 0.5, stress: 0.5 },
+        message: "{name} shredded the side of the sofa! Damage: $80 🛋️",
+        damageCost: 80,
+      },
+      {
+        id: "knockOver",
+        name: "Knocked things over",
+        chance: 0.03,
+        drivers: { boredom: 0.5, restlessness: 1 },
+        message: "{name} knocked a glass off the counter! Damage: $15 🥛",
+        damageCost: 15,
+      },
+    ],
+    absenceCare: { boardingPerDay: 30, sitterPerVisit: 20, visitTasks: ["feed", "water", "scoopLitter", "play", "grooming"] },
+    breeds: [
+      { id: "domestic", name: "Domestic shorthair", description: "Low-maintenance and easygoing.", overrides: {} },
+      {
+        id: "siamese",
+        name: "Siamese",
+        description: "Vocal and social: gets lonely and restless faster.",
+        overrides: { decayRates: { happiness: 38, energy: 10 } },
+      },
+      {
+        id: "persian",
+        name: "Persian",
+        description: "Long coat that mats easily: brush every few days and bathe more often.",
+        overrides: {
+          decayRates: { hygiene: 110, energy: 15 },
+          actions: {
+            grooming: { cost: 6, requirements: { cooldownDays: 3, statBelow: { stat: "hygiene", value: 60 } } },
+            bath: { cost: 5 },
+          },
+        },
+      },
+      {
+        id: "maineCoon",
+        name: "Maine Coon",
+        description: "Gentle giant: eats and costs more, with a thick coat to brush.",
+        overrides: {
+          bodyCondition: { adultWeightKg: 7.5, restingKcalPerDay: 150 },
+          actions: { feed: { cost: 3 }, grooming: { cost: 8, requirements: { cooldownDays: 5 } }, scoopLitter: { cost: 2 } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "coreVaccines",
+        name: "FVRCP booster",
+        cost: 40,
+        firstDueDays: 14,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Unprotected against panleukopenia and cat flu.",
+      },
+      {
+        id: "rabies",
+        name: "Rabies vaccine",
+        cost: 30,
+        firstDueDays: 30,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Rabies vaccination is a legal requirement in most places.",
+      },
+      { ...fleaTick, cost: 18 },
+      {
+        id: "heartworm",
+        name: "Heartworm prevention",
+        cost: 15,
+        firstDueDays: 0,
+        intervalDays: 30,
+        graceDays: 7,
+        overdueWarning: "Heartworm has no treatment in cats, only prevention.",
+      },
+      {
+        id: "deworming",
+        name: "Deworming",
+        cost: 10,
+        firstDueDays: 14,
+        intervalDays: 90,
+        graceDays: 14,
+        overdueWarning: "Intestinal worms can take hold.",
+      },
+    ],
+    essentials: [
+      { id: "collar", name: "Collar", cost: 12, description: "ID tag holder" },
+      { id: "bed", name: "Cat Bed", cost: 40, description: "Comfy sleeping spot" },
+      { id: "bowls", name: "Food & Water Bowls", cost: 18, description: "For meals" },
+      { id: "toy", name: "Cat Toy", cost: 12, description: "For playtime fun" },
+      { id: "litter", name: "Litter Box", cost: 30, description: "Essential for cats" },
+    ],
   },
   parrot: {
     type: "parrot",
     name: "Parrot",
     icon: Bird,
+    cardColor: "bg-gradient-to-br from-green-100 to-teal-100",
     decayRates: {
       hunger: 5, // Parrots eat more frequently
       happiness: 30, // Parrots need more attention
       hygiene: 200, // Birds preen themselves
       energy: 8, // Very active
       thirst: 3, // Need water frequently
+      bladder: 1, // Droppings every 20 minutes or so
     },
+    statInteractions: [
+      ...commonStatInteractions,
+      // Unhappy birds pluck their feathers and stop preening
+      { when: { stat: "happiness", below: 30 }, target: "hygiene", decayMultiplier: 1.5 },
+    ],
     sleepHours: { start: 20, end: 7 }, // Parrots need more sleep
+    sleepFlex: { shiftHours: 1.5, minHours: 10, maxHours: 12 },
     initialStats: {
       hunger: 70,
       happiness: 70, // Need more social interaction
       hygiene: 85,
       energy: 75,
       thirst: 70,
+      health: 100,
+      bladder: 100,
     },
-    actions: {
-      feed: {
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
         cost: 4,
         duration: 5,
         statChanges: { hunger: 80, happiness: 8, energy: 15 },
-        triggerThreshold: 30,
+        kcal: 25,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 30 } },
       },
-      water: {
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
         cost: 0,
         duration: 5,
         statChanges: { thirst: 75, happiness: 2 },
-        triggerThreshold: 65,
+        requirements: { statBelow: { stat: "thirst", value: 65 } },
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 5, hunger: 3 },
+        kcal: 8,
+        completionMessage: "{name} cracked open a treat! 🌻",
       },
-      exercise: { // Fly/Exercise
+      { // Fly/Exercise
+        id: "exercise",
+        label: "Fly",
+        activity: "Flying",
+        category: "exercise",
         cost: 0,
         duration: 5,
         statChanges: { energy: -25, happiness: 25, hygiene: -5, thirst: -40, hunger: -10 },
-        minEnergy: 25,
-        cooldownHours: 6,
+        kcal: -8,
+        requirements: { minEnergy: 25, cooldownHours: 6 },
+        startMessage: "{name} is going on a flight 🚶",
+        sideEvents: [
+          { id: "stick", chance: 0.1, message: "{name} flew beautifully! +10 Happiness 🦜", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "friend", chance: 0.08, message: "{name} is exploring! +15 Happiness 🌿", statChanges: { happiness: 15 }, toast: { level: "success", text: "Having fun!" } },
+          { id: "mess", chance: 0.12, message: "{name} needs a quick preen. -5 Hygiene", statChanges: { hygiene: -5 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back from flight",
       },
-      play: {
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
         cost: 0,
         duration: 5,
         statChanges: { happiness: 25, energy: -20, hygiene: -3, thirst: -35, hunger: -8 },
-        requiresToy: true,
-        minEnergy: 20,
+        kcal: -5,
+        requirements: { requiresToy: true, minEnergy: 20 },
+        startMessage: "{name} is playing! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          { id: "mess", chance: 0.08, message: "{name} got a bit messy. -3 Hygiene 🌪️", statChanges: { hygiene: -3 } },
+          toyBreaks,
+        ],
       },
-      bath: { // Shower/Mist
+      buyToyAction,
+      { // Shower/Mist
+        id: "bath",
+        label: "Shower",
+        activity: "Shower",
+        category: "bath",
         cost: 1,
         duration: 15 * 60, // Quick misting
         statChanges: { hygiene: 100, happiness: 10 }, // Parrots love baths
-        triggerThreshold: 40,
-        cooldownDays: 3, // More frequent
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 3 }, // More frequent
+        startMessage: "{name} is getting a shower 🛁",
       },
-      grooming: { // Trim beak/claws
-        cost: 15,
-        duration: 25 * 60,
-        statChanges: { hygiene: 20, happiness: -5 },
-        triggerThreshold: 40,
-        cooldownDays: 60,
+      {
+        id: "cleanCage",
+        label: "Clean Cage",
+        activity: "Cleaning Cage",
+        cost: 2,
+        duration: 20 * 60,
+        statChanges: { happiness: 5, hygiene: 5 },
+        cleansEnclosure: true,
+        requirements: { minSoil: 25 },
+        startMessage: "Changing the cage liner and wiping {name}'s perches 🧹",
+        completionMessage: "{name}'s cage is clean again",
       },
-      vetVisit: {
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
         cost: 150,
         duration: 50 * 60,
         statChanges: { hygiene: 35, happiness: 15, energy: 25 },
+        ...vetCheckup,
       },
+      { // Trim beak/claws
+        id: "grooming",
+        label: "Trim Beak/Claws",
+        activity: "Trimming Beak/Claws",
+        category: "grooming",
+        cost: 15,
+        duration: 25 * 60,
+        statChanges: { hygiene: 20, happiness: -5 },
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 60 },
+        startMessage: "Trimming Beak/Claws {name} ✂️",
+        completionMessage: "{name}'s beak and claws are trimmed!",
+      },
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      {
+        id: "respiratoryInfection",
+        name: "Respiratory infection",
+        symptoms: ["Tail bobbing", "Wheezing", "Fluffed-up feathers"],
+        cause: { stat: "hygiene", below: 20 },
+        onsetChance: 0.03,
+        healthLossPerHour: 2.5,
+        treatment: { name: "nebulizer therapy and antibiotics", cost: 130, health: 45 },
+      },
+      { ...intestinalWorms, id: "parasites", name: "Intestinal parasites", symptoms: ["Weight loss", "Messy droppings"] },
+    ],
+    emergencies: [
+      { // Stressed birds thrash and crash into things
+        id: "brokenWing",
+        name: "Broken wing",
+        message: "{name} crashed into the window in a panic and a wing is hanging 🦜",
+        cause: { stat: "happiness", below: 40 },
+        onsetChance: 0.003,
+        countdownHours: 12,
+        healthLossPerHour: 2,
+        treatment: { name: "a wing splint and pain relief", minCost: 400, maxCost: 1200, health: 30 },
+        recoveryChance: 0.5,
+        consequences: { health: -25, happiness: -40 },
+      },
+      { ...heatstroke, treatment: { ...heatstroke.treatment, minCost: 300, maxCost: 900 } },
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Fledgling",
+        fromDays: 0,
+        adoptionAgeDays: 16 * 7,
+        decayMultipliers: { hunger: 1.3, happiness: 1.3 }, // Young parrots need lots of attention
+        sleepHours: { start: 19, end: 7 },
+        feedBelow: 45,
+        vetCheckupDays: 90,
+        illnessRisk: 1.3,
+      },
+      { id: "adult", name: "Adult", fromDays: 2 * 365, adoptionAgeDays: 5 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 30 * 365,
+        decayMultipliers: { energy: 1.3 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.4,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 0.45, restingKcalPerDay: 47 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "cage",
+      usesBelow: 80,
+      soilPerUse: 1,
+      accidentMessage: "{name}'s cage is caked in droppings and an accident got on the feathers! -10 Hygiene, -5 Happiness 💦",
+      accidentPenalty: { hygiene: -10, happiness: -5 },
     },
+    skills: [
+      {
+        id: "stepUp",
+        name: "Step up",
+        sessions: 5,
+        benefit: "Steps onto your hand calmly: fewer ruffled feathers out of the cage and less feather plucking.",
+        effects: { sideEventChance: { "exercise.mess": 0.5 }, incidentChance: { plucking: 0.7 } },
+      },
+      {
+        id: "talking",
+        name: "Talking",
+        sessions: 10,
+        requires: ["stepUp"],
+        benefit: "Talks instead of screaming: +5 Happiness per play session, more great moments and far less screaming.",
+        effects: {
+          actionBonus: { play: { happiness: 5 } },
+          sideEventChance: { "play.fun": 1.5 },
+          incidentChance: { screaming: 0.4 },
+        },
+      },
+    ],
+    loneliness: { toleranceHours: 4, happinessPerHour: 3, separationAnxiety: true },
+    incidents: [
+      {
+        id: "screaming",
+        name: "Screaming",
+        chance: 0.04,
+        drivers: { boredom: 1, restlessness: 0.5, stress: 0.5 },
+        message: "{name} screamed for an hour and flung seed everywhere. Damage: $10 in cleanup 📢",
+        damageCost: 10,
+      },
+      {
+        id: "plucking",
+        name: "Feather plucking",
+        chance: 0.02,
+        drivers: { boredom: 0.5, stress: 1 },
+        message: "{name} is plucking their own feathers! -10 Hygiene, -5 Health. Damage: $0 🪶",
+        damageCost: 0,
+        statChanges: { hygiene: -10, health: -5 },
+      },
+      {
+        id: "chewSill",
+        name: "Chewed window sill",
+        chance: 0.01,
+        drivers: { boredom: 1, restlessness: 1 },
+        message: "{name} chewed a chunk out of the window sill! Damage: $60 🪟",
+        damageCost: 60,
+      },
+    ],
+    absenceCare: { boardingPerDay: 35, sitterPerVisit: 22, visitTasks: ["feed", "water", "cleanCage", "play"] }, // Avian boarding is specialist
+    breeds: [
+      { id: "africanGrey", name: "African Grey", description: "Brilliant talker that needs lots of attention.", overrides: {} },
+      {
+        id: "budgie",
+        name: "Budgerigar",
+        description: "Small and cheap to keep, but tiny bodies hide illness well.",
+        overrides: {
+          decayRates: { happiness: 50 },
+          bodyCondition: { adultWeightKg: 0.035, restingKcalPerDay: 10 },
+          actions: { feed: { cost: 1 }, vetVisit: { cost: 80 }, grooming: { cost: 10 }, cleanCage: { cost: 1 } },
+        },
+      },
+      {
+        id: "cockatiel",
+        name: "Cockatiel",
+        description: "Affectionate and mid-sized; dusty feathers need regular baths.",
+        overrides: {
+          decayRates: { hygiene: 75 },
+          bodyCondition: { adultWeightKg: 0.09, restingKcalPerDay: 20 },
+          actions: { feed: { cost: 2 }, vetVisit: { cost: 100 } },
+        },
+      },
+      {
+        id: "macaw",
+        name: "Macaw",
+        description: "Large, loud and demanding: expensive food, vet visits and a big cage to clean.",
+        overrides: {
+          decayRates: { happiness: 30, energy: 14 },
+          bodyCondition: { adultWeightKg: 1.1, restingKcalPerDay: 100 },
+          actions: {
+            feed: { cost: 7 },
+            vetVisit: { cost: 200 },
+            grooming: { cost: 25 },
+            cleanCage: { cost: 5, duration: 40 * 60 },
+            buyToy: { cost: 30 },
+          },
+          preventiveCare: { wellnessExam: { cost: 150 } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "wellnessExam",
+        name: "Avian wellness exam",
+        cost: 90,
+        firstDueDays: 7, // New birds should be checked right away
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Birds hide illness well; problems can go unnoticed.",
+        overdueIllnessRisk: 1.3,
+      },
+      {
+        id: "deworming",
+        name: "Fecal parasite screen",
+        cost: 35,
+        firstDueDays: 14,
+        intervalDays: 180,
+        graceDays: 30,
+        overdueWarning: "Intestinal parasites can take hold.",
+      },
+    ],
+    essentials: [
+      { id: "cage", name: "Cage", cost: 80, description: "Safe home" },
+      { id: "perch", name: "Perch", cost: 25, description: "For resting" },
+      { id: "bowls", name: "Food & Water Bowls", cost: 15, description: "For meals" },
+      { id: "toy", name: "Bird Toy", cost: 18, description: "For enrichment" },
+      { id: "toys", name: "Extra Toys", cost: 20, description: "More enrichment" },
+    ],
   },
   rabbit: {
     type: "rabbit",
     name: "Rabbit",
     icon: Rabbit,
+    cardColor: "bg-gradient-to-br from-blue-100 to-indigo-100",
     decayRates: {
       hunger: 4, // Rabbits eat constantly (grazing)
       happiness: 40,
       hygiene: 150,
       energy: 9,
       thirst: 3.5,
+      bladder: 4,
     },
+    statInteractions: [
+      ...commonStatInteractions,
+      // Without enough hay the gut slows down (GI stasis)
+      { when: { stat: "hunger", below: 20 }, target: "health", perHour: -0.5 },
+    ],
     sleepHours: { start: 22, end: 6 },
+    naps: [{ start: 11, end: 14 }], // Crepuscular: rests through the middle of the day
+    sleepFlex: { shiftHours: 2, minHours: 7, maxHours: 10 },
     initialStats: {
       hunger: 85,
       happiness: 75,
       hygiene: 80,
       energy: 70,
       thirst: 80,
+      health: 100,
+      bladder: 100,
     },
-    actions: {
-      feed: {
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
         cost: 2,
         duration: 5,
         statChanges: { hunger: 75, happiness: 5, energy: 8 },
-        triggerThreshold: 50, // Rabbits need constant food
+        kcal: 30,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 50 } }, // Rabbits need constant food
       },
-      water: {
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
         cost: 0,
         duration: 5,
         statChanges: { thirst: 80, happiness: 2 },
-        triggerThreshold: 70,
+        requirements: { statBelow: { stat: "thirst", value: 70 } },
       },
-      exercise: { // Run/Exercise
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 5, hunger: 3 },
+        kcal: 10,
+        completionMessage: "{name} munched a treat! 🥕",
+      },
+      { // Run/Exercise
+        id: "exercise",
+        label: "Run",
+        activity: "Running",
+        category: "exercise",
         cost: 0,
         duration: 5,
         statChanges: { energy: -18, happiness: 18, hygiene: -8, thirst: -32, hunger: -9 },
-        minEnergy: 18,
-        cooldownHours: 10,
+        kcal: -15,
+        requirements: { minEnergy: 18, cooldownHours: 10 },
+        startMessage: "{name} is going on a run 🚶",
+        sideEvents: [
+          { id: "stick", chance: 0.1, message: "{name} hopped around happily! +10 Happiness 🐰", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "friend", chance: 0.08, message: "{name} is full of energy! +15 Happiness 🥕", statChanges: { happiness: 15 }, toast: { level: "success", text: "Having fun!" } },
+          { id: "mess", chance: 0.12, message: "{name} got a bit dirty. -8 Hygiene", statChanges: { hygiene: -8 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back from run",
       },
-      play: {
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
         cost: 0,
         duration: 5,
         statChanges: { happiness: 18, energy: -18, hygiene: -4, thirst: -28, hunger: -7 },
-        requiresToy: true,
-        minEnergy: 18,
+        kcal: -10,
+        requirements: { requiresToy: true, minEnergy: 18 },
+        startMessage: "{name} is playing! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          { id: "mess", chance: 0.08, message: "{name} got a bit messy. -4 Hygiene 🌪️", statChanges: { hygiene: -4 } },
+          toyBreaks,
+        ],
       },
-      bath: { // Spot clean (rabbits shouldn't be fully bathed)
+      buyToyAction,
+      { // Spot clean (rabbits shouldn't be fully bathed)
+        id: "bath",
+        label: "Spot Clean",
+        activity: "Spot Clean",
+        category: "bath",
         cost: 1,
         duration: 20 * 60,
         statChanges: { hygiene: 90, happiness: -8 }, // Rabbits don't like baths
-        triggerThreshold: 40,
-        cooldownDays: 30,
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 30 },
+        startMessage: "{name} is getting a spot clean 🛁",
+      },
+      {
+        id: "cleanHutch",
+        label: "Clean Hutch",
+        activity: "Cleaning Hutch",
+        cost: 3,
+        duration: 20 * 60,
+        statChanges: { happiness: 5, hygiene: 5 },
+        cleansEnclosure: true,
+        requirements: { minSoil: 25 },
+        startMessage: "Changing the bedding in {name}'s hutch 🧹",
+        completionMessage: "{name}'s hutch is clean again",
       },
-      grooming: { // Brush rabbit
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
+        cost: 110,
+        duration: 40 * 60,
+        statChanges: { hygiene: 30, happiness: 8, energy: 18 },
+        ...vetCheckup,
+      },
+      { // Brush rabbit
+        id: "grooming",
+        label: "Brush",
+        activity: "Brushing",
+        category: "grooming",
         cost: 8,
         duration: 25 * 60,
         statChanges: { hygiene: 25, happiness: 3 },
-        triggerThreshold: 40,
-        cooldownDays: 14,
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 14 },
+        startMessage: "Brushing {name} ✂️",
+        completionMessage: "{name} is brushed!",
       },
-      vetVisit: {
-        cost: 110,
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      { // Gut slows down when rabbits go without hay; urgent
+        id: "giStasis",
+        name: "GI stasis",
+        symptoms: ["Not eating", "Hunched posture", "Few or no droppings"],
+        cause: { stat: "hunger", below: 30 },
+        onsetChance: 0.04,
+        healthLossPerHour: 4,
+        treatment: { name: "gut motility meds and critical-care food", cost: 150, health: 50 },
+      },
+      {
+        id: "rhd",
+        name: "Rabbit hemorrhagic disease",
+        symptoms: ["Fever", "Very weak", "Not eating"],
+        preventedBy: "rhdVaccine",
+        onsetChance: 0.0005,
+        healthLossPerHour: 8,
+        treatment: { name: "intensive supportive care", cost: 600, health: 60 },
+      },
+      {
+        id: "dentalDisease",
+        name: "Dental disease",
+        symptoms: ["Drooling", "Dropping food"],
+        preventedBy: "dentalCheck",
+        onsetChance: 0.002,
+        healthLossPerHour: 1,
+        treatment: { name: "teeth burring under sedation", cost: 250, health: 35 },
+      },
+      {
+        id: "flystrike",
+        name: "Flystrike",
+        symptoms: ["Maggots around the tail", "Lethargic"],
+        cause: { stat: "hygiene", below: 20 },
+        preventedBy: "flystrike",
+        onsetChance: 0.01,
+        healthLossPerHour: 6,
+        treatment: { name: "maggot removal and antibiotics", cost: 200, health: 50 },
+      },
+    ],
+    emergencies: [
+      { // Past the GI stasis illness: the gut shuts down completely
+        id: "gutShutdown",
+        name: "Gut shutdown",
+        message: "{name} has stopped eating and pooping and sits hunched in pain 🐰",
+        cause: { stat: "hunger", below: 15 },
+        onsetChance: 0.008,
+        countdownHours: 6,
+        healthLossPerHour: 6,
+        treatment: { name: "emergency fluids, pain relief and syringe feeding", minCost: 500, maxCost: 1500, health: 45 },
+        recoveryChance: 0.2,
+        consequences: { health: -60, happiness: -20 },
+      },
+      smallHeatstroke,
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Kit",
+        fromDays: 0,
+        adoptionAgeDays: 70,
+        decayMultipliers: { hunger: 1.3, energy: 1.2 },
+        feedBelow: 60,
+        vetCheckupDays: 60,
+        illnessRisk: 1.4,
+      },
+      { id: "adult", name: "Adult", fromDays: 180, adoptionAgeDays: 2 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 6 * 365,
+        decayMultipliers: { hunger: 0.9, energy: 1.3, hygiene: 1.3 }, // Seniors struggle to groom themselves
+        sleepHours: { start: 21, end: 7 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.5,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 2, restingKcalPerDay: 72 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "hutch",
+      usesBelow: 40,
+      soilPerUse: 8,
+      accidentMessage: "{name} had an accident in a soiled hutch and is sitting in it! -15 Hygiene, -10 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -10 },
+    },
+    skills: [
+      {
+        id: "litter",
+        name: "Litter training",
+        sessions: 8,
+        benefit: "Uses a litter corner, so the hutch stays clean twice as long.",
+        effects: { soilMultiplier: 0.5 },
+      },
+      {
+        id: "handling",
+        name: "Gentle handling",
+        sessions: 6,
+        benefit: "Relaxed when picked up: +5 Happiness from grooming.",
+        effects: { actionBonus: { grooming: { happiness: 5 } } },
+      },
+      {
+        id: "leaveIt",
+        name: "Leave it",
+        sessions: 8,
+        requires: ["handling"],
+        benefit: "Drops what you tell it to: far fewer chewed cables and baseboards.",
+        effects: { incidentChance: { chewCables: 0.3, chewBaseboard: 0.5 } },
+      },
+    ],
+    loneliness: { toleranceHours: 8, happinessPerHour: 1.5 },
+    incidents: [
+      {
+        id: "chewCables",
+        name: "Chewed cables",
+        chance: 0.02,
+        drivers: { boredom: 1, restlessness: 1 },
+        message: "{name} bit through a phone charger cable! Damage: $25 🔌",
+        damageCost: 25,
+      },
+      {
+        id: "chewBaseboard",
+        name: "Chewed baseboard",
+        chance: 0.02,
+        drivers: { boredom: 1, stress: 0.5 },
+        message: "{name} gnawed the baseboard behind the sofa! Damage: $50 🪵",
+        damageCost: 50,
+      },
+    ],
+    absenceCare: { boardingPerDay: 25, sitterPerVisit: 18, visitTasks: ["feed", "water", "cleanHutch", "exercise"] },
+    breeds: [
+      { id: "mixed", name: "Mixed breed", description: "Medium-sized and hardy.", overrides: {} },
+      {
+        id: "hollandLop",
+        name: "Holland Lop",
+        description: "Small and playful; lop ears need checking at every groom.",
+        overrides: { bodyCondition: { adultWeightKg: 1.8, restingKcalPerDay: 66 } },
+      },
+      {
+        id: "angora",
+        name: "Angora",
+        description: "Fluffy wool coat: brush twice a week or it mats.",
+        overrides: {
+          decayRates: { hygiene: 100 },
+          actions: { grooming: { cost: 10, requirements: { cooldownDays: 3, statBelow: { stat: "hygiene", value: 60 } } } },
+        },
+      },
+      {
+        id: "flemishGiant",
+        name: "Flemish Giant",
+        description: "As big as a small dog: eats a lot and needs a huge hutch.",
+        overrides: {
+          bodyCondition: { adultWeightKg: 7, restingKcalPerDay: 200 },
+          actions: { feed: { cost: 4 }, cleanHutch: { cost: 6, duration: 30 * 60 }, vetVisit: { cost: 140 } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "rhdVaccine",
+        name: "RHDV2 vaccine",
+        cost: 50,
+        firstDueDays: 14,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Unprotected against rabbit hemorrhagic disease.",
+      },
+      {
+        id: "dentalCheck",
+        name: "Dental check",
+        cost: 45,
+        firstDueDays: 30,
+        intervalDays: 180,
+        graceDays: 30,
+        overdueWarning: "Overgrown teeth can go unnoticed until your rabbit stops eating.",
+      },
+      {
+        id: "flystrike",
+        name: "Flystrike prevention",
+        cost: 15,
+        firstDueDays: 0,
+        intervalDays: 60,
+        graceDays: 14,
+        overdueWarning: "Flies can lay eggs on a dirty rabbit.",
+      },
+    ],
+    essentials: [
+      { id: "hutch", name: "Hutch", cost: 60, description: "Safe home" },
+      { id: "bedding", name: "Bedding", cost: 20, description: "Comfy sleeping" },
+      { id: "bowls", name: "Food & Water Bowls", cost: 15, description: "For meals" },
+      { id: "toy", name: "Rabbit Toy", cost: 12, description: "For playtime fun" },
+      { id: "hay", name: "Hay Rack", cost: 10, description: "For feeding" },
+    ],
+  },
+  hamster: {
+    type: "hamster",
+    name: "Hamster",
+    icon: Rat,
+    cardColor: "bg-gradient-to-br from-yellow-100 to-amber-100",
+    decayRates: {
+      hunger: 8,
+      happiness: 40,
+      hygiene: 120,
+      energy: 8, // Busy all night on the wheel
+      thirst: 5,
+      bladder: 5,
+    },
+    statInteractions: commonStatInteractions,
+    sleepHours: { start: 6, end: 18 }, // Nocturnal: sleeps through the day
+    sleepFlex: { shiftHours: 2, minHours: 10, maxHours: 14 },
+    initialStats: {
+      hunger: 80,
+      happiness: 75,
+      hygiene: 90,
+      energy: 80,
+      thirst: 80,
+      health: 100,
+      bladder: 100,
+    },
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
+        cost: 1,
+        duration: 5,
+        statChanges: { hunger: 70, happiness: 5, energy: 5 },
+        kcal: 11,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 50 } },
+      },
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
+        cost: 0,
+        duration: 5,
+        statChanges: { thirst: 80, happiness: 2 },
+        requirements: { statBelow: { stat: "thirst", value: 70 } },
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 5, hunger: 3 },
+        kcal: 2,
+        completionMessage: "{name} stuffed a sunflower seed in their cheek! 🌻",
+      },
+      { // Playpen time outside the cage
+        id: "exercise",
+        label: "Playpen",
+        activity: "Playpen Time",
+        category: "exercise",
+        cost: 0,
+        duration: 5,
+        statChanges: { energy: -15, happiness: 18, hygiene: -3, thirst: -20, hunger: -8 },
+        kcal: -2,
+        requirements: { minEnergy: 15, cooldownHours: 12 },
+        startMessage: "{name} is off for a run in the playpen 🐹",
+        sideEvents: [
+          { id: "tunnel", chance: 0.12, message: "{name} found the tunnel and zoomed through it! +10 Happiness 🕳️", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "hoard", chance: 0.1, message: "{name} built a stash in the corner! +8 Happiness 🌰", statChanges: { happiness: 8 } },
+          { id: "mess", chance: 0.08, message: "{name} got dusty digging. -5 Hygiene", statChanges: { hygiene: -5 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back in the cage",
+      },
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
+        cost: 0,
+        duration: 5,
+        statChanges: { happiness: 15, energy: -12, thirst: -15, hunger: -5 },
+        kcal: -1,
+        requirements: { requiresToy: true, minEnergy: 15 },
+        startMessage: "{name} is playing with a chew toy! 🪵",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          toyBreaks,
+        ],
+      },
+      buyToyAction,
+      { // Hamsters clean themselves in sand; water baths chill them
+        id: "bath",
+        label: "Sand Bath",
+        activity: "Sand Bath",
+        category: "bath",
+        cost: 2,
+        duration: 15 * 60,
+        statChanges: { hygiene: 60, happiness: 8 },
+        requirements: { statBelow: { stat: "hygiene", value: 60 }, cooldownDays: 7 },
+        startMessage: "{name} is rolling in a sand bath 🏖️",
+      },
+      {
+        id: "cleanCage",
+        label: "Clean Cage",
+        activity: "Cleaning Cage",
+        cost: 2,
+        duration: 15 * 60,
+        statChanges: { happiness: 3 },
+        cleansEnclosure: true,
+        requirements: { minSoil: 25 },
+        startMessage: "Spot cleaning {name}'s pee corner and bedding 🧹",
+        completionMessage: "{name}'s cage is clean again",
+      },
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
+        cost: 70,
+        duration: 30 * 60,
+        statChanges: { hygiene: 10, happiness: -5, energy: 5 },
+        ...vetCheckup,
+      },
+      {
+        id: "grooming",
+        label: "Nail Trim",
+        activity: "Nail Trim",
+        category: "grooming",
+        cost: 5,
+        duration: 10 * 60,
+        statChanges: { hygiene: 10, happiness: -3 },
+        requirements: { cooldownDays: 60 },
+        startMessage: "Trimming {name}'s nails ✂️",
+        completionMessage: "{name}'s nails are trimmed!",
+      },
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      { // Stress diarrhea made worse by a dirty cage; often fatal in young hamsters
+        id: "wetTail",
+        name: "Wet tail",
+        symptoms: ["Wet, dirty tail", "Hunched and lethargic"],
+        cause: { stat: "hygiene", below: 20 },
+        onsetChance: 0.03,
+        healthLossPerHour: 5,
+        treatment: { name: "antibiotics and fluids", cost: 90, health: 50 },
+      },
+      {
+        id: "overgrownTeeth",
+        name: "Overgrown teeth",
+        symptoms: ["Dropping food", "Losing weight"],
+        preventedBy: "teethCheck",
+        onsetChance: 0.002,
+        healthLossPerHour: 1,
+        treatment: { name: "teeth trim", cost: 60, health: 35 },
+      },
+    ],
+    emergencies: [
+      {
+        id: "fallInjury",
+        name: "Fall injury",
+        message: "{name} fell from the top of the cage and is limping 🐹",
+        cause: { stat: "happiness", below: 35 },
+        onsetChance: 0.003,
+        countdownHours: 12,
+        healthLossPerHour: 2,
+        treatment: { name: "X-rays and a splinted leg", minCost: 150, maxCost: 400, health: 30 },
+        recoveryChance: 0.4,
+        consequences: { health: -40, energy: -30 },
+      },
+      smallHeatstroke,
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Pup",
+        fromDays: 0,
+        adoptionAgeDays: 35,
+        decayMultipliers: { hunger: 1.3, energy: 1.2 },
+        feedBelow: 60,
+        vetCheckupDays: 30,
+        illnessRisk: 1.5,
+      },
+      { id: "adult", name: "Adult", fromDays: 90, adoptionAgeDays: 180, vetCheckupDays: 180 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 540, // Hamsters only live two to three years
+        decayMultipliers: { energy: 1.3, hygiene: 1.3 },
+        sleepHours: { start: 5, end: 19 },
+        vetCheckupDays: 90,
+        illnessRisk: 1.6,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 0.15, restingKcalPerDay: 15 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "cage",
+      usesBelow: 40,
+      soilPerUse: 6,
+      accidentMessage: "{name} had an accident in a soiled cage and is sleeping in a wet nest! -15 Hygiene, -10 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -10 },
+    },
+    skills: [
+      {
+        id: "handTaming",
+        name: "Hand taming",
+        sessions: 8,
+        benefit: "Climbs onto your hand for treats: +5 Happiness from treats.",
+        effects: { actionBonus: { treat: { happiness: 5 } } },
+      },
+      {
+        id: "peeCorner",
+        name: "Pee corner",
+        sessions: 6,
+        benefit: "Uses a sand corner, so the bedding stays clean longer.",
+        effects: { soilMultiplier: 0.6 },
+      },
+      {
+        id: "playpenRecall",
+        name: "Playpen recall",
+        sessions: 10,
+        requires: ["handTaming"],
+        benefit: "Comes back to your hand instead of bolting: far fewer escapes.",
+        effects: { incidentChance: { escape: 0.3 } },
+      },
+    ],
+    incidents: [
+      {
+        id: "barChewing",
+        name: "Bar chewing",
+        chance: 0.03,
+        drivers: { boredom: 1, stress: 1 },
+        message: "{name} is gnawing the cage bars all night. -5 Happiness. Damage: $0 🔩",
+        damageCost: 0,
+        statChanges: { happiness: -5 },
+      },
+      {
+        id: "escape",
+        name: "Escape",
+        chance: 0.01,
+        drivers: { boredom: 1, restlessness: 1 },
+        message: "{name} squeezed out of the cage and chewed a cable behind the desk! Damage: $20 🔌",
+        damageCost: 20,
+      },
+    ],
+    absenceCare: { boardingPerDay: 15, sitterPerVisit: 15, visitTasks: ["feed", "water", "cleanCage"] },
+    breeds: [
+      { id: "syrian", name: "Syrian", description: "The classic golden hamster: solitary, calm and easy to handle.", overrides: {} },
+      {
+        id: "roborovski",
+        name: "Roborovski dwarf",
+        description: "Tiny and lightning fast; fun to watch, hard to hold.",
+        overrides: {
+          decayRates: { energy: 6, happiness: 35 },
+          bodyCondition: { adultWeightKg: 0.025, restingKcalPerDay: 4 },
+        },
+      },
+      {
+        id: "winterWhite",
+        name: "Winter White dwarf",
+        description: "Small and friendly; prone to diabetes, so go easy on fruit treats.",
+        overrides: { bodyCondition: { adultWeightKg: 0.04, restingKcalPerDay: 6 } },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "teethCheck",
+        name: "Teeth & health check",
+        cost: 40,
+        firstDueDays: 30,
+        intervalDays: 180,
+        graceDays: 30,
+        overdueWarning: "Overgrown teeth can stop a hamster eating within days.",
+      },
+    ],
+    essentials: [
+      { id: "cage", name: "Large Cage", cost: 70, description: "Room to run and burrow" },
+      { id: "bedding", name: "Deep Bedding", cost: 15, description: "For burrowing" },
+      { id: "wheel", name: "Exercise Wheel", cost: 25, description: "Solid, no rungs" },
+      { id: "bowls", name: "Bowl & Water Bottle", cost: 12, description: "For meals" },
+      { id: "toy", name: "Chew Toy", cost: 8, description: "Keeps teeth short" },
+    ],
+  },
+  guineaPig: {
+    type: "guineaPig",
+    name: "Guinea Pig",
+    icon: PawPrint,
+    cardColor: "bg-gradient-to-br from-orange-100 to-rose-100",
+    decayRates: {
+      hunger: 5, // Grazers: hay all day
+      happiness: 35, // Social; gets lonely quickly
+      hygiene: 140,
+      energy: 10,
+      thirst: 4,
+      bladder: 4,
+    },
+    statInteractions: [
+      ...commonStatInteractions,
+      // Same delicate gut as rabbits
+      { when: { stat: "hunger", below: 20 }, target: "health", perHour: -0.5 },
+    ],
+    sleepHours: { start: 23, end: 5 }, // Naps in short bursts; only a short stretch at night
+    sleepFlex: { shiftHours: 2, minHours: 5, maxHours: 8 },
+    initialStats: {
+      hunger: 85,
+      happiness: 75,
+      hygiene: 85,
+      energy: 75,
+      thirst: 80,
+      health: 100,
+      bladder: 100,
+    },
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
+        cost: 1,
+        duration: 5,
+        statChanges: { hunger: 75, happiness: 6, energy: 8 },
+        kcal: 25,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 50 } },
+        completionMessage: "{name} wheeked for fresh hay and veggies! 🥬",
+      },
+      {
+        id: "water",
+        label: "Water",
+        activity: "Giving Water",
+        cost: 0,
+        duration: 5,
+        statChanges: { thirst: 80, happiness: 2 },
+        requirements: { statBelow: { stat: "thirst", value: 70 } },
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 6, hunger: 3 },
+        kcal: 6,
+        completionMessage: "{name} popcorned over a slice of bell pepper! 🫑",
+      },
+      { // Floor time in a safe, cable-free area
+        id: "exercise",
+        label: "Floor Time",
+        activity: "Floor Time",
+        category: "exercise",
+        cost: 0,
+        duration: 5,
+        statChanges: { energy: -15, happiness: 20, hygiene: -2, thirst: -25, hunger: -8 },
+        kcal: -10,
+        requirements: { minEnergy: 15, cooldownHours: 10 },
+        startMessage: "{name} is out for a run around the room 🐾",
+        sideEvents: [
+          { id: "popcorn", chance: 0.12, message: "{name} is popcorning with joy! +10 Happiness 🍿", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "hideout", chance: 0.08, message: "{name} found a cosy hideout! +8 Happiness 🏠", statChanges: { happiness: 8 } },
+          { id: "mess", chance: 0.1, message: "{name} got hay stuck in their fur. -5 Hygiene", statChanges: { hygiene: -5 }, toast: { level: "info", text: "Got a bit messy!" } },
+        ],
+        completionMessage: "{name} is back in the cage",
+      },
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
+        cost: 0,
+        duration: 5,
+        statChanges: { happiness: 16, energy: -12, thirst: -20, hunger: -5 },
+        kcal: -6,
+        requirements: { requiresToy: true, minEnergy: 15 },
+        startMessage: "{name} is playing! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          toyBreaks,
+        ],
+      },
+      buyToyAction,
+      { // Spot clean; full baths only when really needed
+        id: "bath",
+        label: "Spot Clean",
+        activity: "Spot Clean",
+        category: "bath",
+        cost: 1,
+        duration: 15 * 60,
+        statChanges: { hygiene: 80, happiness: -6 },
+        requirements: { statBelow: { stat: "hygiene", value: 40 }, cooldownDays: 14 },
+        startMessage: "{name} is getting a spot clean 🛁",
+      },
+      {
+        id: "cleanCage",
+        label: "Clean Cage",
+        activity: "Cleaning Cage",
+        cost: 3,
+        duration: 20 * 60,
+        statChanges: { happiness: 5, hygiene: 5 },
+        cleansEnclosure: true,
+        requirements: { minSoil: 25 },
+        startMessage: "Changing the fleece and bedding in {name}'s cage 🧹",
+        completionMessage: "{name}'s cage is clean again",
+      },
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
+        cost: 90,
         duration: 40 * 60,
-        statChanges: { hygiene: 30, happiness: 8, energy: 18 },
+        statChanges: { hygiene: 20, happiness: 3, energy: 10 },
+        ...vetCheckup,
+      },
+      {
+        id: "grooming",
+        label: "Nail Trim",
+        activity: "Nail Trim",
+        category: "grooming",
+        cost: 5,
+        duration: 15 * 60,
+        statChanges: { hygiene: 15, happiness: -2 },
+        requirements: { cooldownDays: 30 },
+        startMessage: "Trimming {name}'s nails ✂️",
+        completionMessage: "{name}'s nails are trimmed!",
+      },
+    ],
+    illnesses: [
+      ...commonIllnesses,
+      { // Guinea pigs can't make their own vitamin C
+        id: "scurvy",
+        name: "Scurvy",
+        symptoms: ["Reluctant to move", "Swollen joints", "Rough coat"],
+        preventedBy: "vitaminC",
+        onsetChance: 0.004,
+        healthLossPerHour: 1.5,
+        treatment: { name: "vitamin C injections", cost: 70, health: 40 },
+      },
+      {
+        id: "bumblefoot",
+        name: "Bumblefoot",
+        symptoms: ["Swollen, red feet", "Limping"],
+        cause: { stat: "hygiene", below: 20 },
+        onsetChance: 0.02,
+        healthLossPerHour: 1,
+        treatment: { name: "foot soaks and antibiotics", cost: 80, health: 35 },
+      },
+    ],
+    emergencies: [
+      {
+        id: "bloat",
+        name: "Bloat",
+        message: "{name}'s belly is swollen tight and they won't eat 🐹",
+        cause: { stat: "hunger", below: 20 },
+        onsetChance: 0.005,
+        countdownHours: 6,
+        healthLossPerHour: 5,
+        treatment: { name: "gas relief, fluids and gut meds", minCost: 250, maxCost: 700, health: 40 },
+        recoveryChance: 0.25,
+        consequences: { health: -55, happiness: -20 },
+      },
+      smallHeatstroke,
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Pup",
+        fromDays: 0,
+        adoptionAgeDays: 56,
+        decayMultipliers: { hunger: 1.3, energy: 1.2 },
+        feedBelow: 60,
+        vetCheckupDays: 60,
+        illnessRisk: 1.4,
+      },
+      { id: "adult", name: "Adult", fromDays: 180, adoptionAgeDays: 2 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 5 * 365,
+        decayMultipliers: { energy: 1.3, hygiene: 1.3 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.5,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 1, restingKcalPerDay: 70 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "cage",
+      usesBelow: 40,
+      soilPerUse: 10, // Messy: they go wherever they are
+      accidentMessage: "{name} had an accident in a soiled cage and is sitting in wet bedding! -15 Hygiene, -10 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -10 },
+    },
+    skills: [
+      {
+        id: "comeToCall",
+        name: "Come to call",
+        sessions: 6,
+        benefit: "Runs over when you rustle the veggie bag: +5 Happiness from feeding.",
+        effects: { actionBonus: { feed: { happiness: 5 } } },
+      },
+      {
+        id: "handling",
+        name: "Calm handling",
+        sessions: 8,
+        benefit: "Sits still for nail trims: +5 Happiness from grooming.",
+        effects: { actionBonus: { grooming: { happiness: 5 } } },
+      },
+      {
+        id: "floorManners",
+        name: "Floor-time manners",
+        sessions: 8,
+        requires: ["comeToCall"],
+        benefit: "Stays in the safe area during floor time: far fewer chewed cables.",
+        effects: { incidentChance: { chewCables: 0.3 } },
+      },
+    ],
+    loneliness: { toleranceHours: 8, happinessPerHour: 1.5 },
+    incidents: [
+      {
+        id: "chewCables",
+        name: "Chewed cables",
+        chance: 0.015,
+        drivers: { boredom: 1, restlessness: 1 },
+        message: "{name} chewed through a lamp cable during floor time! Damage: $15 🔌",
+        damageCost: 15,
+      },
+      {
+        id: "barBiting",
+        name: "Bar biting",
+        chance: 0.03,
+        drivers: { boredom: 1, stress: 1 },
+        message: "{name} is biting the cage bars and wheeking nonstop. -5 Happiness. Damage: $0 📢",
+        damageCost: 0,
+        statChanges: { happiness: -5 },
+      },
+    ],
+    absenceCare: { boardingPerDay: 20, sitterPerVisit: 15, visitTasks: ["feed", "water", "cleanCage", "exercise"] },
+    breeds: [
+      { id: "american", name: "American", description: "Short, smooth coat; the easiest to keep tidy.", overrides: {} },
+      {
+        id: "abyssinian",
+        name: "Abyssinian",
+        description: "Rosette coat and a lively, nosy personality.",
+        overrides: { decayRates: { happiness: 30, hygiene: 120 } },
+      },
+      {
+        id: "peruvian",
+        name: "Peruvian",
+        description: "Floor-length hair: brush every few days and trim the back end.",
+        overrides: {
+          decayRates: { hygiene: 80 },
+          actions: {
+            grooming: {
+              label: "Brush & Trim",
+              activity: "Brushing",
+              cost: 8,
+              requirements: { cooldownDays: 3 },
+              startMessage: "Brushing out {name}'s long coat ✂️",
+              completionMessage: "{name} is brushed!",
+            },
+          },
+        },
+      },
+      {
+        id: "skinny",
+        name: "Skinny pig",
+        description: "Hairless: burns extra calories to stay warm and needs skin care.",
+        overrides: {
+          bodyCondition: { adultWeightKg: 1, restingKcalPerDay: 90 },
+          actions: { feed: { cost: 2 } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "vitaminC",
+        name: "Vitamin C supplement",
+        cost: 10,
+        firstDueDays: 0,
+        intervalDays: 30,
+        graceDays: 7,
+        overdueWarning: "Without vitamin C, scurvy sets in within weeks.",
+      },
+      {
+        id: "wellnessExam",
+        name: "Wellness exam",
+        cost: 60,
+        firstDueDays: 14,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Teeth and weight problems can go unnoticed.",
+        overdueIllnessRisk: 1.2,
+      },
+    ],
+    essentials: [
+      { id: "cage", name: "Large Cage", cost: 90, description: "At least 7.5 sq ft" },
+      { id: "bedding", name: "Fleece Liners", cost: 30, description: "Washable bedding" },
+      { id: "hideout", name: "Hideout", cost: 15, description: "Somewhere to feel safe" },
+      { id: "bowls", name: "Bowl & Water Bottle", cost: 15, description: "For meals" },
+      { id: "hay", name: "Hay Rack", cost: 12, description: "Unlimited hay" },
+      { id: "toy", name: "Chew Toy", cost: 8, description: "For playtime fun" },
+    ],
+  },
+  fish: {
+    type: "fish",
+    name: "Fish",
+    icon: Fish,
+    cardColor: "bg-gradient-to-br from-sky-100 to-cyan-100",
+    decayRates: {
+      hunger: 10,
+      happiness: 60,
+      hygiene: 120, // Untracked
+      energy: 15,
+      thirst: 5, // Untracked
+      bladder: 5, // Untracked; waste goes into the tank instead (see elimination)
+    },
+    statInteractions: commonStatInteractions,
+    sleepHours: { start: 22, end: 8 }, // Rests while the tank light is off
+    sleepFlex: { shiftHours: 2, minHours: 8, maxHours: 12 },
+    initialStats: {
+      hunger: 80,
+      happiness: 75,
+      hygiene: 100,
+      energy: 80,
+      thirst: 100,
+      health: 100,
+      bladder: 100,
+    },
+    untrackedStats: ["thirst", "hygiene", "bladder"],
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
+        cost: 1,
+        duration: 5,
+        statChanges: { hunger: 60, happiness: 5, energy: 5 },
+        kcal: 1.3,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 50 } },
+        completionMessage: "{name} gobbled up a pinch of flakes 🐟",
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 6, hunger: 3 },
+        kcal: 0.3,
+        completionMessage: "{name} snapped up a bloodworm! 🪱",
+      },
+      { // New layout to explore instead of toys
+        id: "play",
+        label: "Rearrange Decor",
+        activity: "Rearranging Decor",
+        category: "play",
+        cost: 0,
+        duration: 20 * 60,
+        statChanges: { happiness: 15, energy: -5 },
+        requirements: { cooldownHours: 48 },
+        startMessage: "Moving the rocks and plants around in {name}'s tank 🪸",
+        sideEvents: [
+          { id: "explore", chance: 0.15, message: "{name} is exploring every new cave! +10 Happiness 🐠", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great enrichment!" } },
+        ],
+        completionMessage: "{name} is checking out the new layout",
+      },
+      waterChangeAction,
+      trainAction,
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
+        cost: 80,
+        duration: 60 * 60, // House call from an aquatic vet
+        statChanges: { happiness: -5 },
+        ...vetCheckup,
+      },
+    ],
+    illnesses: [
+      malnutrition,
+      {
+        id: "finRot",
+        name: "Fin rot",
+        symptoms: ["Ragged, fraying fins", "Clamped fins"],
+        soilAbove: 60,
+        onsetChance: 0.03,
+        healthLossPerHour: 1.5,
+        treatment: { name: "antibacterial tank treatment", cost: 25, health: 40 },
+      },
+      {
+        id: "ich",
+        name: "White spot (ich)",
+        symptoms: ["White spots on body and fins", "Rubbing against decor"],
+        soilAbove: 40,
+        preventedBy: "filterMedia",
+        onsetChance: 0.02,
+        healthLossPerHour: 2,
+        treatment: { name: "raised temperature and ich treatment", cost: 20, health: 45 },
+      },
+      { // Waste builds up faster than the filter can break it down
+        id: "ammoniaPoisoning",
+        name: "Ammonia poisoning",
+        symptoms: ["Gasping at the surface", "Red, inflamed gills"],
+        soilAbove: 85,
+        onsetChance: 0.08,
+        healthLossPerHour: 5,
+        treatment: { name: "emergency water changes and ammonia binder", cost: 30, health: 50 },
+      },
+    ],
+    emergencies: [
+      { // Warm, dirty tanks hold little oxygen
+        id: "oxygenCrash",
+        name: "Oxygen crash",
+        message: "{name} is gasping at the surface: the tank has lost its oxygen 🐟",
+        heatWave: true,
+        soilAbove: 50,
+        onsetChance: 0.03,
+        countdownHours: 3,
+        healthLossPerHour: 12,
+        treatment: { name: "an aquatic vet call-out, aeration and tank rescue", minCost: 80, maxCost: 250, health: 40 },
+        recoveryChance: 0.3,
+        consequences: { health: -70 },
       },
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Juvenile",
+        fromDays: 0,
+        adoptionAgeDays: 90,
+        decayMultipliers: { hunger: 1.3 },
+        feedBelow: 60,
+        vetCheckupDays: 365,
+        illnessRisk: 1.3,
+      },
+      { id: "adult", name: "Adult", fromDays: 365, adoptionAgeDays: 2 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 8 * 365,
+        decayMultipliers: { energy: 1.3 },
+        vetCheckupDays: 365,
+        illnessRisk: 1.4,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 0.1, restingKcalPerDay: 2 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "tank",
+      meterLabel: "Water quality",
+      soilPerDay: 8,
     },
+    skills: [
+      {
+        id: "targetFeeding",
+        name: "Target feeding",
+        sessions: 10,
+        benefit: "Swims to your finger at feeding time: +5 Happiness from feeding.",
+        effects: { actionBonus: { feed: { happiness: 5 } } },
+      },
+    ],
+    incidents: [
+      { // Stressed fish in bad water try to leave it
+        id: "jumpedOut",
+        name: "Jumped out of the tank",
+        chance: 0.005,
+        drivers: { stress: 1 },
+        message: "{name} jumped out of the tank and you found them on the floor just in time! -15 Health. Damage: $0 🐟",
+        damageCost: 0,
+        statChanges: { health: -15 },
+      },
+    ],
+    absenceCare: { boardingPerDay: 15, sitterPerVisit: 12, visitTasks: ["feed", "waterChange", "play"] }, // A tank can go a few days between visits
+    breeds: [
+      { id: "fancyGoldfish", name: "Fancy goldfish", description: "Hardy and long-lived, but a messy eater that needs a big filter.", overrides: {} },
+      {
+        id: "betta",
+        name: "Betta",
+        description: "Showy and curious; lives alone in a small heated tank.",
+        overrides: {
+          decayRates: { happiness: 45 },
+          bodyCondition: { adultWeightKg: 0.004, restingKcalPerDay: 0.08 },
+          actions: { waterChange: { cost: 1, duration: 15 * 60 } },
+        },
+      },
+      {
+        id: "guppy",
+        name: "Guppy",
+        description: "Small, colourful and easy; happiest in a group.",
+        overrides: {
+          decayRates: { happiness: 50 },
+          bodyCondition: { adultWeightKg: 0.002, restingKcalPerDay: 0.04 },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "filterMedia",
+        name: "Filter media change",
+        cost: 8,
+        firstDueDays: 30,
+        intervalDays: 30,
+        graceDays: 7,
+        overdueWarning: "A clogged filter lets waste and parasites build up.",
+        overdueIllnessRisk: 1.5,
+      },
+    ],
+    essentials: [
+      { id: "tank", name: "Aquarium", cost: 90, description: "With lid and light" },
+      { id: "filter", name: "Filter", cost: 35, description: "Keeps the water clean" },
+      { id: "heater", name: "Heater & Thermometer", cost: 25, description: "Steady temperature" },
+      { id: "conditioner", name: "Water Conditioner", cost: 10, description: "Removes chlorine" },
+      { id: "toy", name: "Plants & Decor", cost: 20, description: "Places to hide and explore" },
+    ],
+  },
+  turtle: {
+    type: "turtle",
+    name: "Turtle",
+    icon: Turtle,
+    cardColor: "bg-gradient-to-br from-emerald-100 to-lime-100",
+    decayRates: {
+      hunger: 25, // Adults eat every day or two
+      happiness: 90, // Content as long as the tank is right
+      hygiene: 240, // Shell and skin
+      energy: 20,
+      thirst: 5, // Untracked; drinks from the tank
+      bladder: 8,
+    },
+    statInteractions: commonStatInteractions,
+    sleepHours: { start: 21, end: 7 },
+    sleepFlex: { shiftHours: 2, minHours: 9, maxHours: 12 },
+    initialStats: {
+      hunger: 75,
+      happiness: 75,
+      hygiene: 85,
+      energy: 70,
+      thirst: 100,
+      health: 100,
+      bladder: 100,
+    },
+    untrackedStats: ["thirst"],
+    actions: [
+      {
+        id: "feed",
+        label: "Feed",
+        activity: "Feeding",
+        category: "meal",
+        cost: 2,
+        duration: 5,
+        statChanges: { hunger: 60, happiness: 6, energy: 8 },
+        kcal: 25,
+        eatsUntilFull: true,
+        requirements: { statBelow: { stat: "hunger", value: 50 } },
+        completionMessage: "{name} snapped up pellets and greens 🥬",
+      },
+      { // Easy to overdo: treats add calories without filling the pet up
+        id: "treat",
+        label: "Treat",
+        activity: "Giving a Treat",
+        category: "treat",
+        cost: 1,
+        duration: 5,
+        statChanges: { happiness: 6, hunger: 3 },
+        kcal: 4,
+        completionMessage: "{name} chased down a dried shrimp! 🦐",
+      },
+      { // Supervised time out of the tank
+        id: "exercise",
+        label: "Floor Roam",
+        activity: "Roaming",
+        category: "exercise",
+        cost: 0,
+        duration: 5,
+        statChanges: { energy: -12, happiness: 15, hygiene: -2, hunger: -5 },
+        kcal: -3,
+        requirements: { minEnergy: 20, cooldownHours: 24 },
+        startMessage: "{name} is out for a supervised walk around the room 🐢",
+        sideEvents: [
+          { id: "sunbeam", chance: 0.12, message: "{name} found a warm sunbeam! +10 Happiness ☀️", statChanges: { happiness: 10 }, toast: { level: "success", text: "Great exercise!" } },
+          { id: "dust", chance: 0.1, message: "{name} dragged their shell through the dust. -5 Hygiene", statChanges: { hygiene: -5 } },
+        ],
+        completionMessage: "{name} is back in the tank",
+      },
+      {
+        id: "play",
+        label: "Play",
+        activity: "Playing",
+        category: "play",
+        cost: 0,
+        duration: 5,
+        statChanges: { happiness: 12, energy: -8, hunger: -3 },
+        kcal: -1,
+        requirements: { requiresToy: true, minEnergy: 15 },
+        startMessage: "{name} is playing with a floating ball! 🎾",
+        sideEvents: [
+          { id: "fun", chance: 0.1, message: "{name} is having great fun! +10 Happiness 🎾", statChanges: { happiness: 10 }, toast: { level: "success", text: "Perfect playtime!" } },
+          toyBreaks,
+        ],
+      },
+      buyToyAction,
+      { // Soft brush to clear algae off the shell
+        id: "bath",
+        label: "Shell Scrub",
+        activity: "Shell Scrub",
+        category: "bath",
+        cost: 0,
+        duration: 15 * 60,
+        statChanges: { hygiene: 70, happiness: -3 },
+        requirements: { statBelow: { stat: "hygiene", value: 50 }, cooldownDays: 7 },
+        startMessage: "Scrubbing algae off {name}'s shell 🪥",
+        completionMessage: "{name}'s shell is clean and shiny",
+      },
+      { ...waterChangeAction, cost: 3, duration: 45 * 60 },
+      {
+        id: "vetVisit",
+        label: "Vet Visit",
+        activity: "Vet Visit",
+        cost: 100,
+        duration: 60 * 60, // Reptile vets are few and far between
+        statChanges: { hygiene: 15, happiness: -5 },
+        ...vetCheckup,
+      },
+      {
+        id: "grooming",
+        label: "Beak & Nail Trim",
+        activity: "Beak & Nail Trim",
+        category: "grooming",
+        cost: 25,
+        duration: 20 * 60,
+        statChanges: { hygiene: 10, happiness: -5 },
+        requirements: { cooldownDays: 180 },
+        startMessage: "Trimming {name}'s beak and nails ✂️",
+        completionMessage: "{name}'s beak and nails are trimmed!",
+      },
+    ],
+    illnesses: [
+      malnutrition,
+      {
+        id: "shellRot",
+        name: "Shell rot",
+        symptoms: ["Soft, pitted patches on the shell", "Foul smell"],
+        cause: { stat: "hygiene", below: 20 },
+        onsetChance: 0.02,
+        healthLossPerHour: 1,
+        treatment: { name: "shell debridement and antiseptic soaks", cost: 120, health: 40 },
+      },
+      {
+        id: "respiratoryInfection",
+        name: "Respiratory infection",
+        symptoms: ["Swimming lopsided", "Bubbles from the nose", "Basking all day"],
+        soilAbove: 70,
+        onsetChance: 0.03,
+        healthLossPerHour: 2,
+        treatment: { name: "antibiotic injections", cost: 150, health: 45 },
+      },
+      { // Without UVB turtles can't use calcium
+        id: "metabolicBoneDisease",
+        name: "Metabolic bone disease",
+        symptoms: ["Soft shell", "Weak legs"],
+        preventedBy: "uvbBulb",
+        onsetChance: 0.003,
+        healthLossPerHour: 1,
+        treatment: { name: "calcium and vitamin D3 therapy", cost: 180, health: 35 },
+      },
+    ],
+    emergencies: [
+      {
+        id: "swallowedGravel",
+        name: "Swallowed gravel",
+        message: "{name} swallowed gravel from the tank bottom and is straining 🪨",
+        cause: { stat: "hunger", below: 25 },
+        onsetChance: 0.004,
+        countdownHours: 12,
+        healthLossPerHour: 2,
+        treatment: { name: "an enema and X-rays, or surgery", minCost: 300, maxCost: 900, health: 35 },
+        recoveryChance: 0.35,
+        consequences: { health: -50, happiness: -20 },
+      },
+      {
+        id: "crackedShell",
+        name: "Cracked shell",
+        message: "{name} fell off the basking rock and cracked their shell 🐢",
+        cause: { stat: "happiness", below: 35 },
+        onsetChance: 0.002,
+        countdownHours: 12,
+        healthLossPerHour: 2,
+        treatment: { name: "shell repair and antibiotics", minCost: 250, maxCost: 800, health: 30 },
+        recoveryChance: 0.4,
+        consequences: { health: -40, happiness: -20 },
+      },
+    ],
+    lifeStages: [
+      {
+        id: "young",
+        name: "Hatchling",
+        fromDays: 0,
+        adoptionAgeDays: 60,
+        decayMultipliers: { hunger: 1.5 }, // Hatchlings eat every day
+        feedBelow: 60,
+        vetCheckupDays: 180,
+        illnessRisk: 1.4,
+      },
+      { id: "adult", name: "Adult", fromDays: 3 * 365, adoptionAgeDays: 5 * 365, vetCheckupDays: 365 },
+      {
+        id: "senior",
+        name: "Senior",
+        fromDays: 25 * 365,
+        decayMultipliers: { energy: 1.2 },
+        vetCheckupDays: 180,
+        illnessRisk: 1.3,
+      },
+    ],
+    bodyCondition: { adultWeightKg: 1.2, restingKcalPerDay: 25 },
+    elimination: {
+      outlet: "enclosure",
+      enclosureName: "tank",
+      meterLabel: "Water quality",
+      usesBelow: 50,
+      soilPerUse: 4,
+      soilPerDay: 3, // Messy eaters
+      accidentMessage: "{name} had an accident in a fouled tank and the water has gone cloudy! -15 Hygiene, -10 Happiness 💦",
+      accidentPenalty: { hygiene: -15, happiness: -10 },
+    },
+    skills: [],
+    incidents: [
+      {
+        id: "splash",
+        name: "Splashed the floor",
+        chance: 0.02,
+        drivers: { boredom: 1, restlessness: 1 },
+        message: "{name} splashed half the tank onto the floor! Damage: $20 💦",
+        damageCost: 20,
+      },
+      {
+        id: "glassDancing",
+        name: "Glass dancing",
+        chance: 0.03,
+        drivers: { stress: 1, boredom: 0.5 },
+        message: "{name} keeps scratching at the glass trying to get out. -5 Happiness. Damage: $0 🪟",
+        damageCost: 0,
+        statChanges: { happiness: -5 },
+      },
+    ],
+    absenceCare: { boardingPerDay: 20, sitterPerVisit: 15, visitTasks: ["feed", "waterChange", "play", "bath"] },
+    breeds: [
+      { id: "redEared", name: "Red-eared slider", description: "The classic pet turtle: outgoing, long-lived and needs a big tank.", overrides: {} },
+      {
+        id: "painted",
+        name: "Painted turtle",
+        description: "Smaller and colourful; loves a long bask.",
+        overrides: { bodyCondition: { adultWeightKg: 0.5, restingKcalPerDay: 12 } },
+      },
+      {
+        id: "musk",
+        name: "Musk turtle",
+        description: "Tiny bottom-walker; a cheaper tank, but it bites when handled.",
+        overrides: {
+          bodyCondition: { adultWeightKg: 0.25, restingKcalPerDay: 7 },
+          actions: { waterChange: { cost: 2, duration: 30 * 60 }, exercise: { statChanges: { happiness: 8 } } },
+        },
+      },
+    ],
+    preventiveCare: [
+      {
+        id: "uvbBulb",
+        name: "UVB bulb replacement",
+        cost: 35,
+        firstDueDays: 180,
+        intervalDays: 180,
+        graceDays: 30,
+        overdueWarning: "Old bulbs stop giving off UVB long before they burn out.",
+      },
+      {
+        id: "wellnessExam",
+        name: "Reptile wellness exam",
+        cost: 90,
+        firstDueDays: 30,
+        intervalDays: 365,
+        graceDays: 30,
+        overdueWarning: "Turtles hide illness until it's advanced.",
+        overdueIllnessRisk: 1.3,
+      },
+    ],
+    essentials: [
+      { id: "tank", name: "Tank", cost: 120, description: "40+ gallons for an adult" },
+      { id: "filter", name: "Canister Filter", cost: 60, description: "Turtles are messy" },
+      { id: "heater", name: "Heater", cost: 25, description: "Warm water" },
+      { id: "lamp", name: "UVB & Basking Lamp", cost: 50, description: "Essential for shell health" },
+      { id: "dock", name: "Basking Dock", cost: 20, description: "Somewhere to dry off" },
+    ],
   },
 };
 
@@ -0,0 +1,85 @@
+/**
+ * Preventive care schedule: when each vaccine, parasite treatment or checkup in PetConfig falls due, counted
+ * from the adoption date and then from the last time it was done. The engine uses it for due/overdue events
+ * and preventable illnesses; Dashboard and Report list the items.
+ */
+import type { PetConfig, PreventiveCareItem } from "./petConfig";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Due within this many days counts as coming up soon. */
+const DUE_SOON_DAYS = 7;
+
+export type CareStatus = "upcoming" | "dueSoon" | "due" | "overdue";
+
+export interface CareScheduleEntry {
+  item: PreventiveCareItem;
+  /** Sim time it was last done, or null if never. */
+  lastDoneAt: number | null;
+  dueAt: number;
+  /** Past this it counts as overdue. */
+  overdueAt: number;
+  status: CareStatus;
+}
+
+export const careStatusLabels: Record<CareStatus, string> = {
+  upcoming: "Upcoming",
+  dueSoon: "Due soon",
+  due: "Due",
+  overdue: "Overdue",
+};
+
+/** Due date for one item: `firstDueDays` after adoption, then `intervalDays` after it was last done. */
+export function getCareDueAt(item: PreventiveCareItem, adoptedAt: number, careDone: Record<string, number>): number {
+  const lastDoneAt = careDone[item.id];
+  return lastDoneAt ? lastDoneAt + item.intervalDays * DAY_MS : adoptedAt + item.firstDueDays * DAY_MS;
+}
+
+export function getCareEntry(
+  item: PreventiveCareItem,
+  adoptedAt: number,
+  careDone: Record<string, number>,
+  now: number
+): CareScheduleEntry {
+  const dueAt = getCareDueAt(item, adoptedAt, careDone);
+  const overdueAt = dueAt + item.graceDays * DAY_MS;
+  let status: CareStatus = "upcoming";
+  if (now >= overdueAt) status = "overdue";
+  else if (now >= dueAt) status = "due";
+  else if (dueAt - now <= DUE_SOON_DAYS * DAY_MS) status = "dueSoon";
+  return { item, lastDoneAt: careDone[item.id] ?? null, dueAt, overdueAt, status };
+}
+
+/** Every item for the species, soonest first. */
+export function getCareSchedule(
+  config: PetConfig,
+  adoptedAt: number,
+  careDone: Record<string, number>,
+  now: number
+): CareScheduleEntry[] {
+  return config.preventiveCare
+    .map((item) => getCareEntry(item, adoptedAt, careDone, now))
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/** Ids of items past their grace period. */
+export function getOverdueCareIds(
+  config: PetConfig,
+  adoptedAt: number,
+  careDone: Record<string, number>,
+  now: number
+): Set<string> {
+  return new Set(
+    getCareSchedule(config, adoptedAt, careDone, now)
+      .filter((entry) => entry.status === "overdue")
+      .map((entry) => entry.item.id)
+  );
+}
+
+/** "in 3 days", "today", "5 days ago". */
+export function formatDueIn(dueAt: number, now: number): string {
+  const days = Math.round((dueAt - now) / DAY_MS);
+  if (days === 0) return "today";
+  if (days > 0) return `in ${days} day${days === 1 ? "" : "s"}`;
+  return `${-days} day${days === -1 ? "" : "s"} ago`;
+}
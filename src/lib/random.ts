@@ -0,0 +1,22 @@
+/**
+ * Seeded PRNG (mulberry32) with a serialisable 32-bit state, so a save can reproduce every random roll.
+ */
+
+export interface RandomDraw {
+  value: number; // 0 ≤ value < 1
+  state: number;
+}
+
+/** Advance the generator once; returns the value and the state to store for the next draw. */
+export function nextRandom(state: number): RandomDraw {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+/** Fresh seed for a new pet. */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) | 0;
+}
@@ -1,58 +1,62 @@
 /**
  * Report grading and feedback: derives action counts from events, computes grade, and builds tips/feedback.
- * Supports time-range filtering (1d, 7d, 30d, since adoption) and stat history for averages/graphs.
+ * Supports time-range filtering (1d, 7d, 30d, since adoption) and stat history for averages/graphs, notes
+ * the weather days that bent a stat's curve, and sums up emergencies.
  */
+import type { MoodEntry, PetEmotion, PetStats } from "./simulation";
+import { getDayStart, type AloneDay } from "./ownerSchedule";
+import { isColdSnap, isHeatWave, isMuddy, type Weather } from "./weather";
+import type { EmergencyRecord } from "./emergency";
+
+export type { MoodEntry, PetStats };
 
 export interface EventEntry {
   message: string;
   timestamp: Date;
 }
 
-export interface PetStats {
-  hunger: number;
-  happiness: number;
-  hygiene: number;
-  energy: number;
-  thirst: number;
-}
-
 export type ReportTimeRange = "1" | "7" | "30" | "all";
 
 export interface StatHistoryEntry {
   t: number;
   stats: PetStats;
+  /** Body weight in kg; missing on entries saved before weight was tracked. */
+  weight?: number;
+  /** Owner–pet bond; missing on entries saved before bond was tracked. */
+  bond?: number;
 }
 
-/** Millisecond cutoff for range: 1 day, 7 days, 30 days, or 0 (all). */
-export function getRangeStartMs(range: ReportTimeRange): number {
-  const now = Date.now();
+/** Millisecond cutoff for range: 1 day, 7 days, 30 days, or 0 (all). `now` is the simulated clock when sped up. */
+export function getRangeStartMs(range: ReportTimeRange, now: number = Date.now()): number {
   if (range === "all") return 0;
   const days = parseInt(range, 10);
   return now - days * 24 * 60 * 60 * 1000;
 }
 
 /** Filter events to those within the selected time range. */
-export function filterEventsByRange(events: EventEntry[], range: ReportTimeRange): EventEntry[] {
-  const start = getRangeStartMs(range);
+export function filterEventsByRange(events: EventEntry[], range: ReportTimeRange, now?: number): EventEntry[] {
+  const start = getRangeStartMs(range, now);
   return events.filter((e) => new Date(e.timestamp).getTime() >= start);
 }
 
 /** Filter stat history to entries within the selected time range. */
-export function filterStatHistoryByRange(history: StatHistoryEntry[], range: ReportTimeRange): StatHistoryEntry[] {
-  const start = getRangeStartMs(range);
+export function filterStatHistoryByRange(history: StatHistoryEntry[], range: ReportTimeRange, now?: number): StatHistoryEntry[] {
+  const start = getRangeStartMs(range, now);
   return history.filter((h) => h.t >= start);
 }
 
 /** Average value of one stat over filtered history; falls back to current if no history. */
 export function getAverageStat(history: StatHistoryEntry[], statKey: keyof PetStats, currentValue: number): number {
-  if (!history.length) return currentValue;
-  const sum = history.reduce((s, h) => s + h.stats[statKey], 0);
-  return Math.round(sum / history.length);
+  // Entries saved before a stat existed (e.g. health) don't count toward it
+  const recorded = history.filter((h) => h.stats[statKey] !== undefined);
+  if (!recorded.length) return currentValue;
+  const sum = recorded.reduce((s, h) => s + h.stats[statKey], 0);
+  return Math.round(sum / recorded.length);
 }
 
 /** Count care actions from event messages. One action can produce 1–2 events; counts are approximate. */
 export function getActionCounts(events: EventEntry[]) {
-  const counts = { feed: 0, water: 0, walk: 0, play: 0, bath: 0, vet: 0, groom: 0 };
+  const counts = { feed: 0, water: 0, walk: 0, play: 0, bath: 0, vet: 0, groom: 0, accident: 0, incident: 0 };
   const lower = (s: string) => s.toLowerCase();
   for (const e of events) {
     const m = lower(e.message);
@@ -62,6 +66,8 @@ export function getActionCounts(events: EventEntry[]) {
     if (m.includes("play") || m.includes("playing")) counts.play++;
     if (m.includes("bath") || m.includes("shower") || m.includes("spot clean")) counts.bath++;
     if (m.includes("vet") || m.includes("checkup")) counts.vet++;
+    if (m.includes("accident")) counts.accident++;
+    if (m.includes("damage:")) counts.incident++;
     if (m.includes("trim") || m.includes("brush") || m.includes("groom") || m.includes("nail") || m.includes("beak")) counts.groom++;
   }
   return counts;
@@ -88,7 +94,7 @@ export function getGrade(score: number): string {
  * Overall score 0–100: average of stat levels, plus small bonus for variety of care (feeding, water, play, walks).
  */
 export function getOverallScore(stats: PetStats, counts: ReturnType<typeof getActionCounts>): number {
-  const avgStat = (stats.hunger + stats.thirst + stats.happiness + stats.hygiene + stats.energy) / 5;
+  const avgStat = (stats.hunger + stats.thirst + stats.happiness + stats.hygiene + stats.energy + stats.health) / 6;
   const variety = [counts.feed, counts.water, counts.walk, counts.play, counts.bath, counts.groom].filter((c) => c > 0).length;
   const varietyBonus = Math.min(10, variety * 2);
   return Math.round(Math.min(100, avgStat + varietyBonus));
@@ -109,6 +115,7 @@ export function getStatFeedback(
     happiness: good ? "Pet is happy." : low ? "Pet is unhappy. More play and attention needed." : "A bit more playtime would help.",
     hygiene: good ? "Clean and groomed." : low ? "Hygiene is low. Bath/groom soon." : "Consider a bath or groom soon.",
     energy: good ? "Good energy levels." : low ? "Pet is tired. Rest and then gentle activity." : "Balance activity with rest.",
+    health: good ? "Healthy." : low ? "Seriously unwell. See a vet now." : "Not at full health. Watch for symptoms.",
   };
   const tips: Record<string, string> = {
     hunger: "Feed when hunger drops below ~35%. Dogs need meals ~twice a day.",
@@ -116,6 +123,7 @@ export function getStatFeedback(
     happiness: "Play, walks, and attention raise happiness. Neglect and low hunger/hygiene lower it.",
     hygiene: "Bath when hygiene is low; trim nails or brush per pet type on a schedule.",
     energy: "Sleep restores energy. Daytime activity drains it; don’t over-exercise when low.",
+    health: "Neglect (dirty, starving, dehydrated) causes illness. Treat early: the vet bill grows the longer it waits.",
   };
   return {
     assessment: assessments[statName] ?? "Keep an eye on this.",
@@ -173,6 +181,24 @@ export function getImprovements(
       better: "Give a bath when hygiene drops and groom (brush/trim) on a regular schedule.",
     });
   }
+  if (counts.accident > 0) {
+    out.push({
+      wrong: `Your pet had ${counts.accident} potty accident(s).`,
+      better: "Take dogs out every few hours; scoop the litter box daily and clean hutches and cages every couple of days.",
+    });
+  }
+  if (counts.incident > 0) {
+    out.push({
+      wrong: `Your pet got into mischief ${counts.incident} time(s), and you paid for the damage.`,
+      better: "Bored, restless pets chew and scratch. Exercise and play daily, keep a toy around, and train good habits.",
+    });
+  }
+  if (stats.health < 60 && counts.vet === 0) {
+    out.push({
+      wrong: "Health has dropped and your pet hasn’t seen a vet.",
+      better: "Book a vet visit as soon as symptoms show; untreated illness gets worse and costs more.",
+    });
+  }
   if (stats.energy < 30) {
     out.push({
       wrong: "Energy has been very low.",
@@ -192,3 +218,99 @@ export function getImprovements(
 export function getMoodRatingFromHappiness(avgHappiness: number): string {
   return getGrade(avgHappiness);
 }
+
+/** Bond tab: how the relationship moved over the period; steady gains come from care that's on time every day. */
+export function getBondFeedback(bond: number, change: number): string {
+  if (change >= 5) return "Your bond grew steadily. Meeting needs on time, day after day, is paying off.";
+  if (change <= -5) return "Your bond slipped. Neglected days, time away and care your pet hates all cost trust.";
+  if (bond >= 75) return "Your pet is devoted to you. Keep the daily routine going.";
+  return "Your bond is holding steady. A streak of well-kept days builds it faster than last-minute fixes.";
+}
+
+/** Share of the period (0–1) spent in each emotion, most common first; the entry before the start covers its beginning. */
+export function getEmotionShares(log: MoodEntry[], range: ReportTimeRange, now: number = Date.now()): { emotion: PetEmotion; share: number }[] {
+  const start = Math.max(getRangeStartMs(range, now), log.length ? log[0].t : now);
+  if (now <= start) return [];
+  const totals: Partial<Record<PetEmotion, number>> = {};
+  log.forEach((entry, i) => {
+    const from = Math.max(entry.t, start);
+    const to = i + 1 < log.length ? Math.min(log[i + 1].t, now) : now;
+    if (to > from) totals[entry.emotion] = (totals[entry.emotion] ?? 0) + to - from;
+  });
+  return (Object.entries(totals) as [PetEmotion, number][])
+    .map(([emotion, ms]) => ({ emotion, share: ms / (now - start) }))
+    .sort((a, b) => b.share - a.share);
+}
+
+/** Hours home alone on each day that overlaps the range, ending with today's running total. */
+export function getAloneDays(
+  history: AloneDay[],
+  minutesToday: number,
+  range: ReportTimeRange,
+  timeZone: string,
+  now: number = Date.now()
+): { day: number; hours: number }[] {
+  const start = getRangeStartMs(range, now);
+  return [...history, { day: getDayStart(now, timeZone), minutes: minutesToday }]
+    .filter((entry) => entry.day + 24 * 60 * 60 * 1000 > start)
+    .map((entry) => ({ day: entry.day, hours: Math.round((entry.minutes / 60) * 10) / 10 }));
+}
+
+/** Alone section: how long the pet is left on a typical day in the period. */
+export function getAloneFeedback(averageHours: number): string {
+  if (averageHours >= 9) return "Your pet spends most of the day alone. A midday visit, a pet sitter or daycare would help a lot.";
+  if (averageHours >= 5) return "Long stretches alone on work days. Extra attention before you leave and when you get back makes up for some of it.";
+  if (averageHours > 0) return "Your pet is alone for a few hours at a time, which most pets handle well.";
+  return "Your pet wasn't left alone in this period.";
+}
+
+/** "Tue 14 Jul" for a weather day (local day number). */
+const formatWeatherDay = (weather: Weather) =>
+  new Date(weather.day * 24 * 60 * 60 * 1000).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+
+/** Which days' weather explains unusual movement in a stat during the range, or null if none did. */
+export function getWeatherNote(
+  history: Weather[],
+  stat: keyof PetStats,
+  range: ReportTimeRange,
+  now: number = Date.now()
+): string | null {
+  const start = getRangeStartMs(range, now);
+  const inRange = history.filter((weather) => (weather.day + 1) * 24 * 60 * 60 * 1000 > start);
+  const notes: { days: Weather[]; effect: string }[] = [];
+  const hot = inRange.filter(isHeatWave);
+  const cold = inRange.filter(isColdSnap);
+  if (stat === "thirst" || stat === "energy") notes.push({ days: hot, effect: `heat wave sped up ${stat} loss` });
+  if (stat === "energy" || stat === "hunger") notes.push({ days: cold, effect: `cold snap sped up ${stat} loss` });
+  if (stat === "hygiene") notes.push({ days: inRange.filter(isMuddy), effect: "outings on wet days brought home mud" });
+  const lines = notes
+    .filter(({ days }) => days.length > 0)
+    .map(({ days, effect }) => {
+      const shown = days.slice(-3).map((weather) => `${formatWeatherDay(weather)} (${weather.temperature}°C)`);
+      const more = days.length > 3 ? ` and ${days.length - 3} more` : "";
+      return `${shown.join(", ")}${more}: ${effect}.`;
+    });
+  return lines.length ? lines.join(" ") : null;
+}
+
+/** Emergencies that struck in the range, newest first, with the vet bills and the health untreated ones cost. */
+export function getEmergencySummary(
+  records: EmergencyRecord[],
+  range: ReportTimeRange,
+  now: number = Date.now()
+): { records: EmergencyRecord[]; spent: number; untreatedHealthLost: number; feedback: string } {
+  const start = getRangeStartMs(range, now);
+  const inRange = records.filter((record) => record.onsetAt >= start).reverse();
+  const spent = inRange.reduce((sum, record) => sum + record.cost, 0);
+  const untreated = inRange.filter((record) => record.outcome !== "treated");
+  const untreatedHealthLost = untreated.reduce((sum, record) => sum + record.healthLost, 0);
+  const feedback = untreated.length
+    ? "Emergencies left untreated cost your pet a lot of health. Set money aside so you can always afford the emergency vet."
+    : "Every emergency got treated in time. Emergencies are rare but expensive, so keep an emergency fund.";
+  return { records: inRange, spent, untreatedHealthLost, feedback };
+}
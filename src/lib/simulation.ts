@@ -0,0 +1,1582 @@
+/**
+ * Headless pet simulation: owns pet state, emotion, the 30s decay tick, nights and naps, cooldowns and action resolution
+ * (driven by the ActionDefinitions in PetConfig), plus health, illness onset, emergencies and their countdown, aging
+ * through life stages, weight, the preventive care schedule, potty needs, training, behavior incidents, the owner–pet
+ * bond, the mood log, time home alone while the owner is out, and the neglect tracker that ends in surrender.
+ * Pure functions only (no React, no timers) so Dashboard, offline catch-up and tools can share the same rules.
+ */
+import {
+  getActionDefinition,
+  type ActionDefinition,
+  type EmergencyDefinition,
+  type PetConfig,
+  type StatInteraction,
+  type StatKey,
+} from "./petConfig";
+import { createSeed, nextRandom } from "./random";
+import {
+  HEALTH_RECOVERY_MIN_STAT,
+  HEALTH_RECOVERY_PER_HOUR,
+  getHealthLoss,
+  getIllnessDefinition,
+  getIllnessSeverity,
+  getTreatmentCost,
+  type ActiveIllness,
+} from "./health";
+import {
+  canStrike,
+  getEmergencyCost,
+  getEmergencyDefinition,
+  type ActiveEmergency,
+  type EmergencyRecord,
+} from "./emergency";
+import { getCareEntry, getOverdueCareIds } from "./preventiveCare";
+import { applyTraits, generateTraits, type TraitId } from "./personality";
+import { getBehaviorDrivers, getEnrichmentMultiplier, getIncidentChance } from "./behavior";
+import {
+  LEGACY_BOND,
+  ROUGH_HANDLING_REPEAT_DAYS,
+  applyBondToChanges,
+  bondLevelLabels,
+  getBondLevel,
+  getDailyBondChange,
+  getRoughHandlingLoss,
+  isNeglected,
+} from "./bond";
+import { getEmotion } from "./emotion";
+import { formatHour, getDayStart, getLonelyHours, isOwnerAway, type AloneDay, type OwnerSchedule } from "./ownerSchedule";
+import {
+  BOARDING_STRESS_PER_HOUR,
+  FRIEND_RELIABILITY,
+  absenceCareLabels,
+  formatTripTime,
+  getAbsencePlanProblem,
+  getAbsenceQuote,
+  getActiveAbsence,
+  getBoardingDays,
+  getQuoteTotal,
+  getVisitsBetween,
+  getVisitsPerDay,
+  type Absence,
+  type AbsencePlan,
+} from "./absence";
+import {
+  applySleepAdjustment,
+  getAwakeMinutes,
+  getDeviceTimeZone,
+  getLocalDay,
+  getNextSleepChange,
+  getSleepAdjustmentProblem,
+  getSleepMinutes,
+  getSleepPhase,
+  type SleepAdjustment,
+} from "./sleepSchedule";
+import {
+  MUD_HYGIENE_LOSS,
+  RAIN_OUTDOOR_SCALE,
+  applyWeather,
+  getOutdoorImpact,
+  getWeather,
+  getWeatherEvent,
+  isHeatWave,
+  isMuddy,
+} from "./weather";
+import { INITIAL_WELFARE, getWelfareEvent, trackWelfare, type Welfare } from "./welfare";
+import { getActionBonus, getIncidentMultiplier, getSideEventMultiplier, getSkillDefinition, getSoilMultiplier, getTrainingTarget } from "./training";
+import { getAgeDays, getLifeStage, getStageConfig, getAdoptionBirthDate } from "./lifeStages";
+import {
+  IDEAL_BODY_CONDITION,
+  applyBodyCondition,
+  bodyConditionLabels,
+  clampCondition,
+  getBodyConditionClass,
+  getConditionChange,
+  getRestingBurn,
+  getSizeFraction,
+  type BodyConditionClass,
+} from "./bodyCondition";
+
+export interface PetStats {
+  hunger: number;
+  happiness: number;
+  hygiene: number;
+  energy: number;
+  thirst: number;
+  health: number;
+  /** 100 = just relieved; the pet has an accident if it reaches 0. */
+  bladder: number;
+}
+
+export type PetEmotion =
+  | "happy"
+  | "sad"
+  | "okay"
+  | "grumpy"
+  | "neutral"
+  | "sleeping"
+  | "hungry"
+  | "thirsty"
+  | "dirty"
+  | "tired"
+  | "bored"
+  | "excited"
+  | "anxious";
+
+export interface Pet {
+  type: string;
+  name: string;
+  stats: PetStats;
+  emotion: PetEmotion;
+  /** Why the pet feels that way, e.g. "Max is thirsty — water is at 22%". */
+  emotionReason?: string;
+  /** Sim time the pet was born; age picks the life stage. */
+  birthDate: number;
+  /** Body condition score, 1–9 (5 = ideal); weight is derived from it. */
+  bodyCondition: number;
+  /** Under/ideal/overweight, kept with the score so the class only changes once clearly past a boundary. */
+  weightClass?: BodyConditionClass;
+  /** Owner's change to bedtime and night length; none keeps the species' hours. */
+  sleepAdjustment?: SleepAdjustment;
+  /** Personality rolled from the session seed at adoption; pets from before traits have none. */
+  traits?: TraitId[];
+  /** Breed id within the species (PetConfig.breeds); unset means the species default. */
+  breed?: string;
+  /** Owner–pet bond, 0–100; pets saved before bond existed count as LEGACY_BOND. */
+  bond?: number;
+}
+
+/** Time multiplier for demos: 1x real time, 60x (a minute per second), 1440x (a day per minute). */
+export type SimSpeed = 1 | 60 | 1440;
+
+export const SIM_SPEEDS: SimSpeed[] = [1, 60, 1440];
+
+/** Id of an ActionDefinition in the species' PetConfig (e.g. "feed", "exercise"). */
+export type ActionId = string;
+
+/** One random outcome, keyed by what it decided (e.g. "play.toyBreak"). */
+export interface RollRecord {
+  t: number;
+  key: string;
+  value: number;
+}
+
+/** Owner input recorded for replay; together with the seed it reproduces the whole session. */
+export type SimInput =
+  | { t: number; type: "start" | "complete"; actionId: ActionId }
+  | { t: number; type: "cancel" }
+  | { t: number; type: "essentials"; cost: number }
+  | { t: number; type: "care"; itemId: string }
+  | { t: number; type: "focus"; skillId: string }
+  | { t: number; type: "schedule"; schedule: OwnerSchedule | null }
+  | { t: number; type: "sleep"; adjustment: SleepAdjustment | null }
+  | { t: number; type: "absence"; plan: AbsencePlan }
+  | { t: number; type: "cancelAbsence"; id: string }
+  | { t: number; type: "emergency"; goToVet: boolean };
+
+/** What the owner is busy with; cost is kept so a cancel can refund it. */
+export interface ActiveAction {
+  id: ActionId;
+  activity: string;
+  cost: number;
+  duration: number; // seconds
+  startedAt: number;
+}
+
+export interface SimState {
+  pet: Pet;
+  /** Simulated clock (ms since epoch); simulate() advances it. */
+  time: number;
+  /** IANA zone of the pet's home; sleep hours and midnight are read on its wall clock. */
+  timeZone: string;
+  /** Asleep for the night or a nap; isNapping tells them apart. */
+  isSleeping: boolean;
+  isNapping: boolean;
+  activeAction: ActiveAction | null;
+  totalSpent: number;
+  hasToy: boolean;
+  /** When the toy broke; 0 once replaced or the no-toy penalty was applied. */
+  toyBrokenAt: number;
+  /** How soiled the litter box / hutch / cage is, 0–100; unused for species that go outdoors. */
+  enclosureSoil: number;
+  /** Current illness, undiagnosed until a vet visit treats it. */
+  illness: ActiveIllness | null;
+  /** Emergency counting down to the emergency vet, and how earlier ones ended (oldest first, capped). */
+  emergency: ActiveEmergency | null;
+  emergencies: EmergencyRecord[];
+  /** Sim time each action last finished, for cooldowns. */
+  lastDone: Record<ActionId, number>;
+  /** How many times each action finished, for restocks. */
+  actionCounts: Record<ActionId, number>;
+  /** Sim time each preventive care item was last done. */
+  careDone: Record<string, number>;
+  /** Training sessions done per skill id. */
+  skills: Record<string, number>;
+  /** Skill the owner picked to train next; null trains the first open one. */
+  trainingFocus: string | null;
+  /** Awake minutes today with an urgent need, settled into the bond at midnight. */
+  neglectMinutes: number;
+  /** Days in a row the pet was kept well, which speeds up bonding. */
+  careStreak: number;
+  /** Every change of emotion with its reason, oldest first (capped). */
+  moodLog: MoodEntry[];
+  /** Owner's work or school hours; null = always home. */
+  ownerSchedule: OwnerSchedule | null;
+  /** When the owner left, while they're out; null while they're home. */
+  aloneSince: number | null;
+  /** Minutes home alone today, and on each earlier day (oldest first, capped). */
+  aloneMinutes: number;
+  aloneHistory: AloneDay[];
+  /** Trips the owner booked, with who minds the pet and how it went (oldest first, capped). */
+  absences: Absence[];
+  /** Neglect tracker; warnings as it climbs, surrender at the top. */
+  welfare: Welfare;
+  /** When the pet was taken back to the shelter; the simulation stops there. */
+  surrenderedAt: number | null;
+  speed: SimSpeed;
+  /** Fastest speed ever used; anything above 1 marks the save as an accelerated session. */
+  peakSpeed: SimSpeed;
+  /** Seed the session started from, and the generator state for the next draw. */
+  seed: number;
+  rngState: number;
+  /** Most recent random outcomes (capped); older ones can be regenerated with replaySession. */
+  rolls: RollRecord[];
+  /** Pet and clock the recorded inputs start from. */
+  origin: { pet: Pet; time: number };
+  inputs: SimInput[];
+}
+
+export interface MoodEntry {
+  t: number;
+  emotion: PetEmotion;
+  reason: string;
+}
+
+/** Something worth logging; alert marks events that should also raise a toast. */
+export interface SimEvent {
+  message: string;
+  timestamp: number;
+  alert?: { level: "success" | "info" | "error"; text: string };
+  /**
+   * Set on fall-asleep / wake-up / nap / idle / owner leaving or coming home / daily weather / sitter visit
+   * events so catch-up can summarise or drop them.
+   */
+  kind?: "sleep" | "wake" | "nap" | "idle" | "owner" | "weather" | "visit";
+}
+
+export interface SimResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+/** Length of one live decay tick. */
+export const TICK_MS = 30 * 1000;
+
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+const NO_TOY_PENALTY_DELAY_MS = HOUR_MS;
+const NO_TOY_HAPPINESS_PENALTY = 30;
+
+/** Idle flavour events are rolled every 2 simulated minutes while awake and not busy. */
+const IDLE_CHECK_MS = 2 * MINUTE_MS;
+const IDLE_EVENT_CHANCE = 0.02;
+
+/** Illness onset is rolled every 30 simulated minutes for each illness whose cause holds. */
+const ILLNESS_CHECK_MS = 30 * MINUTE_MS;
+
+/** Behavior incidents are rolled every 30 simulated minutes while the pet is awake and left to itself. */
+const INCIDENT_CHECK_MS = 30 * MINUTE_MS;
+
+const MAX_ROLLS = 1000;
+const MAX_MOOD_ENTRIES = 500;
+const MAX_ALONE_DAYS = 400;
+const MAX_ABSENCES = 50;
+const MAX_EMERGENCIES = 100;
+
+const clampStat = (value: number) => Math.max(0, Math.min(100, value));
+
+/** Add deltas to stats, clamped to 0–100. */
+function applyStatDeltas(stats: PetStats, deltas: Partial<PetStats>): PetStats {
+  const next = { ...stats };
+  for (const key of Object.keys(deltas) as (keyof PetStats)[]) {
+    next[key] = clampStat(next[key] + (deltas[key] ?? 0));
+  }
+  return next;
+}
+
+export function createSimState(
+  pet: Pet,
+  now: number,
+  seed: number = createSeed(),
+  timeZone: string = getDeviceTimeZone()
+): SimState {
+  // A new pet's personality comes from the session's generator, so a replay from the origin rolls the same one
+  const random: RandomSource = { state: seed, rolls: [] };
+  const adopted = pet.traits ? pet : { ...pet, traits: generateTraits(() => draw(random, "adoption.trait", now)) };
+  return {
+    pet: adopted,
+    time: now,
+    timeZone,
+    isSleeping: false,
+    isNapping: false,
+    activeAction: null,
+    totalSpent: 0,
+    hasToy: false,
+    toyBrokenAt: 0,
+    enclosureSoil: 0,
+    illness: null,
+    emergency: null,
+    emergencies: [],
+    lastDone: {},
+    actionCounts: {},
+    careDone: {},
+    skills: {},
+    trainingFocus: null,
+    neglectMinutes: 0,
+    careStreak: 0,
+    moodLog: [],
+    ownerSchedule: null,
+    aloneSince: null,
+    aloneMinutes: 0,
+    aloneHistory: [],
+    absences: [],
+    welfare: INITIAL_WELFARE,
+    surrenderedAt: null,
+    speed: 1,
+    peakSpeed: 1,
+    seed,
+    rngState: random.state,
+    rolls: random.rolls,
+    origin: { pet, time: now },
+    inputs: [],
+  };
+}
+
+/** Per-action fields of saves made before actions were defined in PetConfig. */
+interface LegacyActionFields {
+  feedCount?: number;
+  lastWalkTime?: number;
+  lastBathTime?: number;
+  lastTrimNailsTime?: number;
+}
+
+/**
+ * Rebuild engine state from a vpet_pet_data save. Missing fields fall back to defaults so older saves
+ * still load; `savedAt` is used as the clock when the save predates simTime. An action still running when
+ * the save was made is cancelled and refunded, and the cancel recorded so a replay ends it too.
+ */
+export function restoreSimState(
+  saved: Partial<SimState> & LegacyActionFields & { pet: Pet; simTime?: number },
+  savedAt: number,
+  config: PetConfig
+): SimState {
+  const time = saved.simTime || savedAt;
+  const stats = {
+    ...saved.pet.stats,
+    thirst: saved.pet.stats.thirst ?? 80,
+    health: saved.pet.stats.health ?? 100,
+    bladder: saved.pet.stats.bladder ?? 100,
+  };
+  // Pets from before aging count as adults adopted when the session started
+  const birthDate = saved.pet.birthDate ?? getAdoptionBirthDate(config, "adult", saved.origin?.time ?? time);
+  const pet = {
+    ...saved.pet,
+    stats,
+    birthDate,
+    bodyCondition: saved.pet.bodyCondition ?? IDEAL_BODY_CONDITION,
+    traits: saved.pet.traits ?? [],
+  };
+  const restored = createSimState(pet, time);
+  for (const key of Object.keys(restored) as (keyof SimState)[]) {
+    if (saved[key] !== undefined && saved[key] !== null) Object.assign(restored, { [key]: saved[key] });
+  }
+  const legacyLastDone = { exercise: saved.lastWalkTime, bath: saved.lastBathTime, grooming: saved.lastTrimNailsTime };
+  for (const [id, t] of Object.entries(legacyLastDone)) {
+    if (t && restored.lastDone[id] === undefined) restored.lastDone = { ...restored.lastDone, [id]: t };
+  }
+  if (saved.feedCount && restored.actionCounts.feed === undefined) {
+    restored.actionCounts = { ...restored.actionCounts, feed: saved.feedCount };
+  }
+  const phase = getSleepPhase(getEffectiveConfig(config, pet, time), time, restored.timeZone);
+  const state: SimState = {
+    ...restored,
+    pet,
+    time,
+    activeAction: null,
+    isSleeping: saved.isSleeping ?? phase !== null,
+    isNapping: saved.isNapping ?? phase === "nap",
+  };
+  // The in-flight action isn't saved; its plan (and so the charge) is the same as when it started
+  const lastAction = [...state.inputs].reverse().find((input) => ["start", "complete", "cancel"].includes(input.type));
+  if (lastAction?.type !== "start" || !getActionDefinition(config, lastAction.actionId)) return state;
+  const activeAction = { ...getActionPlan(state, lastAction.actionId, config), startedAt: lastAction.t };
+  return cancelAction({ ...state, activeAction }).state;
+}
+
+/** Draws from the state's seeded RNG during one engine call, collecting every outcome for the roll log. */
+interface RandomSource {
+  state: number;
+  rolls: RollRecord[];
+}
+
+const openRandom = (state: SimState): RandomSource => ({ state: state.rngState, rolls: [] });
+
+function draw(source: RandomSource, key: string, t: number): number {
+  const { value, state } = nextRandom(source.state);
+  source.state = state;
+  source.rolls.push({ t, key, value });
+  return value;
+}
+
+/** Write the generator state and new rolls back into the sim state. */
+function closeRandom(state: SimState, source: RandomSource): SimState {
+  if (!source.rolls.length) return state;
+  return { ...state, rngState: source.state, rolls: [...state.rolls, ...source.rolls].slice(-MAX_ROLLS) };
+}
+
+const recordInput = (state: SimState, input: SimInput): SimState => ({ ...state, inputs: [...state.inputs, input] });
+
+/** Owner bought the starter kit (includes a toy). */
+export function purchaseEssentials(state: SimState, cost: number): SimResult {
+  const next = { ...state, hasToy: true, totalSpent: state.totalSpent + cost };
+  return {
+    state: recordInput(next, { t: state.time, type: "essentials", cost }),
+    events: [{ message: `Purchased all essentials for $${cost}`, timestamp: state.time }],
+  };
+}
+
+/** Owner took care of a preventive care item (instant); it's next due one interval from now. */
+export function completeCare(state: SimState, itemId: string, config: PetConfig): SimResult {
+  const item = config.preventiveCare.find((entry) => entry.id === itemId);
+  if (!item) throw new Error(`Unknown preventive care item "${itemId}" for ${config.type}`);
+  const next = {
+    ...state,
+    totalSpent: state.totalSpent + item.cost,
+    careDone: { ...state.careDone, [itemId]: state.time },
+  };
+  return {
+    state: recordInput(next, { t: state.time, type: "care", itemId }),
+    events: [
+      {
+        message: `${item.name} done for ${state.pet.name}. Spent $${item.cost} 💉`,
+        timestamp: state.time,
+        alert: { level: "success", text: `${item.name} done for ${state.pet.name}` },
+      },
+    ],
+  };
+}
+
+/** Owner picked which skill the next training sessions work on. */
+export function setTrainingFocus(state: SimState, skillId: string, config: PetConfig): SimResult {
+  const skill = getSkillDefinition(config, skillId);
+  if (!skill || state.trainingFocus === skillId) return { state, events: [] };
+  return {
+    state: recordInput({ ...state, trainingFocus: skillId }, { t: state.time, type: "focus", skillId }),
+    events: [{ message: `Now practicing ${skill.name.toLowerCase()} with ${state.pet.name} 🎯`, timestamp: state.time }],
+  };
+}
+
+/** Owner entered their work or school hours (null: always home); care actions wait while they're out. */
+export function setOwnerSchedule(state: SimState, schedule: OwnerSchedule | null): SimResult {
+  return {
+    state: recordInput({ ...state, ownerSchedule: schedule }, { t: state.time, type: "schedule", schedule }),
+    events: [
+      {
+        message: schedule ? "Updated your weekly schedule 📅" : `You're home all day with ${state.pet.name} now 📅`,
+        timestamp: state.time,
+      },
+    ],
+  };
+}
+
+/** Book a trip with boarding, a sitter or a friend; throws if the plan doesn't fit (see getAbsencePlanProblem). */
+export function planAbsence(state: SimState, plan: AbsencePlan, config: PetConfig): SimResult {
+  const problem = getAbsencePlanProblem(plan, config.absenceCare, state.absences, state.time);
+  if (problem) throw new Error(`Can't plan trip: ${problem}`);
+  const total = getQuoteTotal(getAbsenceQuote(plan, config.absenceCare, state.timeZone));
+  const absences = [...state.absences, { plan, visits: 0, missedVisits: 0, spent: 0, vetSpent: 0 }].slice(-MAX_ABSENCES);
+  return {
+    state: recordInput({ ...state, absences }, { t: state.time, type: "absence", plan }),
+    events: [
+      {
+        message: `Trip planned: ${formatTripTime(plan.start)} to ${formatTripTime(plan.end)}, ${absenceCareLabels[plan.care].toLowerCase()} (est. $${total}) 🧳`,
+        timestamp: state.time,
+      },
+    ],
+  };
+}
+
+/** Call off a planned trip, or cut one short by coming home now. */
+export function cancelAbsence(state: SimState, id: string): SimResult {
+  const absence = state.absences.find((entry) => entry.plan.id === id);
+  if (!absence || absence.plan.end <= state.time) return { state, events: [] };
+  const t = state.time;
+  const events: SimEvent[] = [];
+  let absences: Absence[];
+  if (absence.plan.start > t) {
+    absences = state.absences.filter((entry) => entry !== absence);
+    events.push({ message: `Trip on ${formatTripTime(absence.plan.start)} called off`, timestamp: t });
+  } else {
+    const ended = { ...absence, plan: { ...absence.plan, end: t } };
+    absences = state.absences.map((entry) => (entry === absence ? ended : entry));
+    events.push(getTripSummary(ended, state.pet.name, t));
+  }
+  return { state: recordInput({ ...state, absences }, { t, type: "cancelAbsence", id }), events };
+}
+
+/** End-of-trip line with the itemised cost. */
+function getTripSummary({ plan, visits, missedVisits, spent, vetSpent = 0 }: Absence, name: string, t: number): SimEvent {
+  const vet = vetSpent > 0 ? ` + $${vetSpent} at the vet` : "";
+  const details =
+    plan.care === "boarding"
+      ? `${name} boarded ${getBoardingDays(plan)} day${getBoardingDays(plan) === 1 ? "" : "s"} for $${spent - vetSpent}${vet}`
+      : plan.care === "sitter"
+        ? `${visits} sitter visit${visits === 1 ? "" : "s"} for $${spent - vetSpent}${vet}`
+        : `your friend came ${visits} of ${visits + missedVisits} times`;
+  return {
+    message: `Back from your trip: ${details} 🧳`,
+    timestamp: t,
+    alert: { level: missedVisits > 0 ? "error" : "info", text: `You're back! ${name} missed you.` },
+  };
+}
+
+/** Owner's answer to an emergency: pay the emergency vet now, or wait it out and let the outcome be rolled. */
+export function respondToEmergency(state: SimState, goToVet: boolean, config: PetConfig): SimResult {
+  const { emergency } = state;
+  const definition = emergency && getEmergencyDefinition(config, emergency.id);
+  if (!definition) return { state, events: [] };
+  const t = state.time;
+  const { name } = state.pet;
+  const events: SimEvent[] = [];
+  let next: SimState;
+  if (goToVet) {
+    const record: EmergencyRecord = {
+      id: definition.id,
+      name: definition.name,
+      onsetAt: emergency.onsetAt,
+      resolvedAt: t,
+      outcome: "treated",
+      cost: emergency.cost,
+      healthLost: Math.max(0, Math.round(emergency.health - state.pet.stats.health)),
+    };
+    events.push({
+      message: `Rushed ${name} to the emergency vet for ${definition.treatment.name}. Spent $${emergency.cost} 🚑`,
+      timestamp: t,
+      alert: { level: "success", text: `${definition.name}: ${name} is going to be okay.` },
+    });
+    next = {
+      ...state,
+      totalSpent: state.totalSpent + emergency.cost,
+      emergencies: [...state.emergencies, record].slice(-MAX_EMERGENCIES),
+      pet: { ...state.pet, stats: applyStatDeltas(state.pet.stats, { health: definition.treatment.health }) },
+    };
+  } else {
+    const source = openRandom(state);
+    events.push({ message: `You decided to wait it out with ${name}`, timestamp: t });
+    const { stats, emergencies } = settleUntreated(state, state.pet.stats, emergency, definition, t, source, events);
+    next = closeRandom({ ...state, emergencies, pet: { ...state.pet, stats } }, source);
+  }
+  next = recordInput({ ...next, emergency: null }, { t, type: "emergency", goToVet });
+  return { state: refreshEmotion(next, config), events };
+}
+
+/** Owner moved the pet's bedtime or changed how long it sleeps (null: back to the species' hours). */
+export function setSleepAdjustment(state: SimState, adjustment: SleepAdjustment | null, config: PetConfig): SimResult {
+  const current = getEffectiveConfig(config, { ...state.pet, sleepAdjustment: undefined }, state.time);
+  const problem = adjustment && getSleepAdjustmentProblem(current.sleepHours, current.sleepFlex, adjustment);
+  if (problem) throw new Error(`Unhealthy sleep schedule for ${config.type}: ${problem}`);
+  const pet = { ...state.pet, sleepAdjustment: adjustment ?? undefined };
+  const { start, end } = getEffectiveConfig(config, pet, state.time).sleepHours;
+  return {
+    state: recordInput({ ...state, pet }, { t: state.time, type: "sleep", adjustment }),
+    events: [
+      {
+        message: `${pet.name}'s bedtime is now ${formatHour(start)}, waking at ${formatHour(end)} 🌙`,
+        timestamp: state.time,
+      },
+    ],
+  };
+}
+
+/** Change the simulation speed; the session stays marked as accelerated once sped up. */
+export function setSpeed(state: SimState, speed: SimSpeed): SimResult {
+  if (speed === state.speed) return { state, events: [] };
+  return {
+    state: { ...state, speed, peakSpeed: speed > state.peakSpeed ? speed : state.peakSpeed },
+    events: [
+      {
+        message: speed === 1 ? "Back to real time ⏱️" : `Time sped up to ${speed}x ⏩`,
+        timestamp: state.time,
+      },
+    ],
+  };
+}
+
+/** Fall asleep or wake up if the clock crossed into or out of the night or a nap. */
+function syncSleep(state: SimState, config: PetConfig, events: SimEvent[]): SimState {
+  const phase = getSleepPhase(config, state.time, state.timeZone);
+  const isNapping = phase === "nap";
+  if ((phase !== null) === state.isSleeping && isNapping === state.isNapping) return state;
+  const { name } = state.pet;
+  const t = state.time;
+  if (state.isSleeping) {
+    // A nap running into the night (or the reverse) doesn't wake the pet in between
+    events.push(
+      state.isNapping
+        ? { message: `${name} woke up from a nap`, timestamp: t, kind: "nap" }
+        : {
+            message: `${name} woke up! ☀️`,
+            timestamp: t,
+            alert: { level: "success", text: `${name} is awake and ready for the day!` },
+            kind: "wake",
+          }
+    );
+  }
+  if (phase === "nap") {
+    events.push({ message: `${name} curled up for a nap 💤`, timestamp: t, kind: "nap" });
+  } else if (phase === "night") {
+    events.push({
+      message: `${name} fell asleep 😴`,
+      timestamp: t,
+      alert: { level: "info", text: `${name} is sleeping. See you in the morning!` },
+      kind: "sleep",
+    });
+  }
+  return refreshEmotion({ ...state, isSleeping: phase !== null, isNapping }, config);
+}
+
+/** Decay multipliers and hourly changes from the stat interactions that hold for these stats. */
+function getInteractionEffects(
+  stats: PetStats,
+  interactions: StatInteraction[]
+): { multipliers: Partial<Record<StatKey, number>>; perHour: Partial<PetStats> } {
+  const multipliers: Partial<Record<StatKey, number>> = {};
+  const perHour: Partial<PetStats> = {};
+  for (const { when, target, decayMultiplier, perHour: change } of interactions) {
+    const value = stats[when.stat];
+    if ((when.below !== undefined && value >= when.below) || (when.above !== undefined && value <= when.above)) continue;
+    if (decayMultiplier) multipliers[target] = (multipliers[target] ?? 1) * decayMultiplier;
+    if (change) perHour[target] = (perHour[target] ?? 0) + change;
+  }
+  return { multipliers, perHour };
+}
+
+/** Awake decay, sped up or offset by the species' stat interactions; mood sinks faster when ill. Paused during actions. */
+function decayAwake(stats: PetStats, minutes: number, config: PetConfig, isDaytime: boolean, isIll: boolean): PetStats {
+  const decay = config.decayRates;
+  const { multipliers, perHour } = getInteractionEffects(stats, config.statInteractions);
+  const rate = (key: StatKey) => multipliers[key] ?? 1;
+  const illnessMultiplier = isIll ? 1.5 : 1;
+  // Energy drains during the day; slight regen when idle outside it
+  const energyChange = isDaytime ? -(minutes / decay.energy) * rate("energy") : Math.min(2, minutes / 10);
+  const decayed = {
+    ...stats,
+    hunger: Math.max(0, stats.hunger - (minutes / decay.hunger) * rate("hunger")),
+    happiness: Math.max(0, stats.happiness - (minutes / decay.happiness) * rate("happiness") * illnessMultiplier),
+    hygiene: Math.max(0, stats.hygiene - (minutes / (decay.hygiene * 2)) * rate("hygiene")), // Convert hours to minutes
+    energy: clampStat(stats.energy + energyChange),
+    bladder: Math.max(0, stats.bladder - (minutes / decay.bladder) * rate("bladder")),
+    thirst: Math.max(0, stats.thirst - (minutes / decay.thirst) * rate("thirst")),
+  };
+  const deltas: Partial<PetStats> = {};
+  for (const key of Object.keys(perHour) as StatKey[]) deltas[key] = (perHour[key] * minutes) / 60;
+  return applyStatDeltas(decayed, deltas);
+}
+
+/** Sleep: hunger eases toward 20% and thirst toward 15% by morning, energy regenerates strongly. */
+function decayAsleep(stats: PetStats, minutes: number, config: PetConfig): PetStats {
+  const totalSleepMinutes = getSleepMinutes(config.sleepHours);
+  const decay = config.decayRates;
+  const hungerDecayRate = Math.max(0, (stats.hunger - 20) / totalSleepMinutes);
+  return {
+    ...stats,
+    hunger: Math.min(stats.hunger, Math.max(20, stats.hunger - hungerDecayRate * minutes)),
+    happiness: Math.max(0, stats.happiness - (minutes / decay.happiness) * 0.3), // Very slow happiness decay
+    hygiene: Math.max(0, stats.hygiene - (minutes / (decay.hygiene * 2)) * 0.5), // Half rate
+    energy: Math.min(100, stats.energy + 1.6 * minutes),
+    thirst: Math.min(stats.thirst, Math.max(15, stats.thirst - ((stats.thirst - 15) / totalSleepMinutes) * minutes)),
+    bladder: Math.max(0, stats.bladder - minutes / (decay.bladder * 3)), // Holds it overnight
+  };
+}
+
+const idleEvents = (name: string) => [
+  `${name} is napping peacefully 😴`,
+  `${name} barked at a sound 🐕`,
+  `${name} is watching you curiously 👀`,
+];
+
+/** Advance the clock by one tick (≤ TICK_MS) and apply decay, timed penalties and idle events. */
+function tick(state: SimState, stepMs: number, config: PetConfig, events: SimEvent[], random: RandomSource): SimState {
+  const minutes = stepMs / MINUTE_MS;
+  const time = state.time + stepMs;
+  let stats = state.pet.stats;
+  if (state.isSleeping) {
+    stats = decayAsleep(stats, minutes, config);
+  } else if (!state.activeAction) {
+    const isDaytime = getSleepPhase(config, state.time, state.timeZone) === null;
+    stats = decayAwake(stats, minutes, config, isDaytime, !!state.illness);
+  }
+  for (const stat of config.untrackedStats ?? []) stats = { ...stats, [stat]: 100 };
+
+  let illness = state.illness;
+  const illnessDefinition = illness && getIllnessDefinition(config, illness.id);
+  if (illnessDefinition) {
+    const severity = getIllnessSeverity(illness, state.time);
+    stats = applyStatDeltas(stats, { health: -getHealthLoss(illnessDefinition, severity, minutes / 60) });
+    if (getIllnessSeverity(illness, time) !== severity) {
+      events.push({
+        message: `${state.pet.name} is getting worse: ${illnessDefinition.symptoms.join(", ").toLowerCase()} 🤒`,
+        timestamp: time,
+        alert: { level: "error", text: `${state.pet.name} needs a checkup soon!` },
+      });
+    }
+  } else if (!state.emergency && stats.hunger >= HEALTH_RECOVERY_MIN_STAT && stats.thirst >= HEALTH_RECOVERY_MIN_STAT) {
+    stats = applyStatDeltas(stats, { health: HEALTH_RECOVERY_PER_HOUR * (minutes / 60) });
+  }
+
+  let { emergency, emergencies } = state;
+  const emergencyDefinition = emergency && getEmergencyDefinition(config, emergency.id);
+  if (emergencyDefinition) {
+    stats = applyStatDeltas(stats, { health: -(emergencyDefinition.healthLossPerHour * minutes) / 60 });
+    if (time >= emergency.deadline) {
+      events.push({ message: `The emergency countdown ran out for ${state.pet.name} ⏰`, timestamp: time });
+      ({ stats, emergencies } = settleUntreated(state, stats, emergency, emergencyDefinition, time, random, events));
+      emergency = null;
+    }
+  }
+
+  const crossedIllnessCheck = Math.floor(time / ILLNESS_CHECK_MS) > Math.floor(state.time / ILLNESS_CHECK_MS);
+  if (crossedIllnessCheck && !illness) {
+    // Preventable illnesses only while their care is overdue; a missed wellness exam raises every risk
+    const overdue = getOverdueCareIds(config, state.origin.time, state.careDone, time);
+    const careOnCooldown = getCareOnCooldown(state, config, time);
+    const careRisk = config.preventiveCare
+      .filter((item) => overdue.has(item.id))
+      .reduce((risk, item) => risk * (item.overdueIllnessRisk ?? 1), 1);
+    for (const candidate of config.illnesses) {
+      if (candidate.cause && stats[candidate.cause.stat] >= candidate.cause.below) continue;
+      // A need the owner can't see to yet (its care is on cooldown) isn't neglect
+      if (candidate.cause && careOnCooldown.includes(candidate.cause.stat)) continue;
+      if (candidate.soilAbove !== undefined && state.enclosureSoil < candidate.soilAbove) continue;
+      if (candidate.preventedBy && !overdue.has(candidate.preventedBy)) continue;
+      if (draw(random, `illness.${candidate.id}`, time) >= Math.min(1, candidate.onsetChance * careRisk)) continue;
+      illness = { id: candidate.id, onsetAt: time };
+      events.push({
+        message: `${state.pet.name} seems unwell: ${candidate.symptoms.join(", ").toLowerCase()} 🤒`,
+        timestamp: time,
+        alert: { level: "error", text: `${state.pet.name} doesn't look well. A checkup would help.` },
+      });
+      break;
+    }
+  }
+
+  if (crossedIllnessCheck && !emergency && !state.isSleeping) {
+    const heatWave = isHeatWave(getWeather(state.seed, time, state.timeZone));
+    for (const candidate of config.emergencies) {
+      if (!canStrike(candidate, stats, state.enclosureSoil, heatWave)) continue;
+      if (draw(random, `emergency.${candidate.id}`, time) >= candidate.onsetChance) continue;
+      const cost = getEmergencyCost(candidate, draw(random, `emergency.${candidate.id}.cost`, time));
+      emergency = { id: candidate.id, onsetAt: time, deadline: time + candidate.countdownHours * HOUR_MS, cost, health: stats.health };
+      events.push({
+        message: fillName(candidate.message, state.pet.name),
+        timestamp: time,
+        alert: {
+          level: "error",
+          text: `Emergency! ${state.pet.name} needs the emergency vet within ${candidate.countdownHours} hours ($${cost}).`,
+        },
+      });
+      break;
+    }
+  }
+
+  // Enclosure species go on their own while there's room; anyone who runs out of bladder has an accident
+  const elimination = config.elimination;
+  const soilMultiplier = getSoilMultiplier(config, state.skills);
+  let enclosureSoil = Math.min(100, state.enclosureSoil + ((elimination.soilPerDay ?? 0) * soilMultiplier * minutes) / (24 * 60));
+  if (elimination.outlet === "enclosure" && stats.bladder < (elimination.usesBelow ?? 0) && enclosureSoil < 100) {
+    stats = { ...stats, bladder: 100 };
+    enclosureSoil = Math.min(100, enclosureSoil + (elimination.soilPerUse ?? 0) * soilMultiplier);
+  } else if (stats.bladder <= 0 && elimination.accidentMessage) {
+    stats = applyStatDeltas({ ...stats, bladder: 100 }, elimination.accidentPenalty);
+    events.push({
+      message: fillName(elimination.accidentMessage, state.pet.name),
+      timestamp: time,
+      alert: {
+        level: "error",
+        text: elimination.enclosureName
+          ? `Clean the ${elimination.enclosureName} more often!`
+          : `${state.pet.name} needs to go out more often!`,
+      },
+    });
+  }
+
+  const alone = trackAlone(state, time, stats, minutes, config, events);
+  stats = alone.stats;
+
+  let totalSpent = state.totalSpent;
+  const crossedIncidentCheck = Math.floor(time / INCIDENT_CHECK_MS) > Math.floor(state.time / INCIDENT_CHECK_MS);
+  // A boarded pet can't get into mischief at home
+  const trip = getActiveAbsence(state.absences, state.time);
+  const boarded = trip?.plan.care === "boarding";
+  if (crossedIncidentCheck && !state.isSleeping && !state.activeAction && !boarded) {
+    const drivers = getBehaviorDrivers(stats, !!illness, enclosureSoil, alone.anxious);
+    const lastActiveAt = getLastActivity(state, config)?.t ?? 0;
+    const enrichment = getEnrichmentMultiplier(state.hasToy, lastActiveAt, time);
+    for (const incident of config.incidents) {
+      const chance = getIncidentChance(incident, drivers, enrichment * getIncidentMultiplier(config, state.skills, incident.id));
+      if (chance <= 0 || draw(random, `incident.${incident.id}`, time) >= chance) continue;
+      if (incident.statChanges) stats = applyStatDeltas(stats, incident.statChanges);
+      totalSpent += incident.damageCost;
+      events.push({
+        message: fillName(incident.message, state.pet.name),
+        timestamp: time,
+        alert: { level: "error", text: `${incident.name}! ${state.pet.name} needs more attention and activity.` },
+      });
+      break;
+    }
+  }
+
+  let toyBrokenAt = state.toyBrokenAt;
+  if (!state.hasToy && toyBrokenAt > 0 && time - toyBrokenAt >= NO_TOY_PENALTY_DELAY_MS) {
+    toyBrokenAt = 0;
+    stats = applyStatDeltas(stats, { happiness: -NO_TOY_HAPPINESS_PENALTY });
+    events.push({
+      message: `${state.pet.name} is sad without a toy. -${NO_TOY_HAPPINESS_PENALTY} Happiness 😢`,
+      timestamp: time,
+      alert: { level: "error", text: "Your pet is very sad without toys!" },
+    });
+  }
+
+  const crossedIdleCheck = Math.floor(time / IDLE_CHECK_MS) > Math.floor(state.time / IDLE_CHECK_MS);
+  if (crossedIdleCheck && !state.isSleeping && !state.activeAction && draw(random, "idle.chance", time) < IDLE_EVENT_CHANCE) {
+    const { name } = state.pet;
+    const options = idleEvents(name);
+    const message =
+      stats.happiness < 50
+        ? `${name} is waiting for attention 🥺`
+        : options[Math.floor(draw(random, "idle.pick", time) * options.length)];
+    events.push({ message, timestamp: time, kind: "idle" });
+  }
+
+  // Needs whose care is on cooldown aren't held against the owner
+  const careOnCooldown = getCareOnCooldown(state, config, time);
+  const { bond, neglectMinutes, careStreak } = trackBond(state, time, stats, minutes, careOnCooldown, events);
+  // A booked kennel or sitter answers for the pet's care; a friend doing a favour doesn't
+  const unwatched = [...(config.untrackedStats ?? []), ...careOnCooldown];
+  const welfare = trackWelfare(state.welfare, stats, minutes, unwatched, !!trip && trip.plan.care !== "friend");
+  if (welfare.level !== state.welfare.level) events.push(getWelfareEvent(state.welfare.level, welfare.level, state.pet.name, time));
+  if (getLocalDay(time, state.timeZone) !== getLocalDay(state.time, state.timeZone)) {
+    events.push(getWeatherEvent(getWeather(state.seed, time, state.timeZone), time));
+  }
+
+  return refreshEmotion(
+    {
+      ...state,
+      time,
+      totalSpent,
+      toyBrokenAt,
+      enclosureSoil,
+      illness,
+      emergency,
+      emergencies,
+      neglectMinutes,
+      careStreak,
+      welfare,
+      surrenderedAt: state.surrenderedAt ?? (welfare.level === "surrendered" ? time : null),
+      aloneSince: alone.aloneSince,
+      aloneMinutes: alone.aloneMinutes,
+      aloneHistory: alone.aloneHistory,
+      pet: { ...state.pet, stats, bond },
+    },
+    config
+  );
+}
+
+/**
+ * Follow the owner's schedule and trips: note when they leave and come home, tally today's alone time (filed per
+ * day at local midnight), and past the species' tolerance drain happiness while the pet is awake.
+ */
+function trackAlone(
+  state: SimState,
+  time: number,
+  stats: PetStats,
+  minutes: number,
+  config: PetConfig,
+  events: SimEvent[]
+): { stats: PetStats; aloneSince: number | null; aloneMinutes: number; aloneHistory: AloneDay[]; anxious: boolean } {
+  const { name } = state.pet;
+  // On a trip the pet is home alone between visits, unless it's boarding with company
+  const trip = getActiveAbsence(state.absences, state.time);
+  const away = trip ? trip.plan.care !== "boarding" : isOwnerAway(state.ownerSchedule, state.time, state.timeZone);
+  let { aloneSince, aloneMinutes, aloneHistory } = state;
+  if (away && aloneSince === null) {
+    aloneSince = state.time;
+    if (!trip) events.push({ message: `You left for the day. ${name} is home alone 🏠`, timestamp: state.time, kind: "owner" });
+  } else if (!away && aloneSince !== null) {
+    events.push({
+      message: `You're home! ${name} was alone for ${formatCountdown(state.time - aloneSince)} 🏡`,
+      timestamp: state.time,
+      kind: "owner",
+    });
+    aloneSince = null;
+  }
+  if (away) aloneMinutes += minutes;
+  if (getLocalDay(time, state.timeZone) !== getLocalDay(state.time, state.timeZone)) {
+    const day = getDayStart(state.time, state.timeZone);
+    aloneHistory = [...aloneHistory, { day, minutes: aloneMinutes }].slice(-MAX_ALONE_DAYS);
+    aloneMinutes = 0;
+  }
+  const lonely = !state.isSleeping && getLonelyHours(config.loneliness, aloneSince, time) > 0;
+  if (lonely) stats = applyStatDeltas(stats, { happiness: -(config.loneliness.happinessPerHour * minutes) / 60 });
+  return { stats, aloneSince, aloneMinutes, aloneHistory, anxious: lonely && !!config.loneliness.separationAnxiety };
+}
+
+/** Roll how an untreated emergency ends: the pet pulls through, or suffers the species' consequences. */
+function settleUntreated(
+  state: SimState,
+  stats: PetStats,
+  emergency: ActiveEmergency,
+  definition: EmergencyDefinition,
+  t: number,
+  random: RandomSource,
+  events: SimEvent[]
+): { stats: PetStats; emergencies: EmergencyRecord[] } {
+  const { name } = state.pet;
+  const recovered = draw(random, `emergency.${definition.id}.outcome`, t) < definition.recoveryChance;
+  const after = recovered ? stats : applyStatDeltas(stats, definition.consequences);
+  events.push(
+    recovered
+      ? {
+          message: `${name} pulled through without treatment (${definition.name.toLowerCase()}). That was lucky 🍀`,
+          timestamp: t,
+          alert: { level: "info", text: `${name} made it, this time.` },
+        }
+      : {
+          message: `${name} wasn't treated for ${definition.name.toLowerCase()} and is badly hurt. -${Math.round(stats.health - after.health)} Health 💔`,
+          timestamp: t,
+          alert: { level: "error", text: `${name} is badly hurt. Keep a close eye on their health.` },
+        }
+  );
+  const record: EmergencyRecord = {
+    id: definition.id,
+    name: definition.name,
+    onsetAt: emergency.onsetAt,
+    resolvedAt: t,
+    outcome: recovered ? "recovered" : "worsened",
+    cost: 0,
+    healthLost: Math.max(0, Math.round(emergency.health - after.health)),
+  };
+  return { stats: after, emergencies: [...state.emergencies, record].slice(-MAX_EMERGENCIES) };
+}
+
+/**
+ * Carry out booked trips between two states: the send-off (a kennel is paid up front), each visit's tasks (a
+ * sitter is paid per visit, a friend may not show) and vet trips for a sick pet, the kennel's stress, and the
+ * summary when the owner is back.
+ */
+function runAbsenceCare(
+  prev: SimState,
+  next: SimState,
+  config: PetConfig,
+  baseConfig: PetConfig,
+  events: SimEvent[],
+  random: RandomSource
+): SimState {
+  const { name } = next.pet;
+  let state = next;
+  for (const absence of next.absences) {
+    const { plan } = absence;
+    if (plan.end <= prev.time || plan.start > next.time) continue;
+    let { visits, missedVisits, spent, vetSpent = 0 } = absence;
+    let { totalSpent } = state;
+    if (prev.time < plan.start) {
+      const { boardingPerDay } = config.absenceCare;
+      if (plan.care === "boarding") {
+        spent += getBoardingDays(plan) * boardingPerDay;
+        totalSpent += getBoardingDays(plan) * boardingPerDay;
+      }
+      const care =
+        plan.care === "boarding"
+          ? `${name} is staying at a boarding kennel ($${spent})`
+          : plan.care === "sitter"
+            ? `A pet sitter will drop in ${plan.visitsPerDay}× a day`
+            : `A friend promised to drop in ${plan.visitsPerDay}× a day`;
+      events.push({ message: `You're off on your trip. ${care} 🧳`, timestamp: plan.start });
+    }
+    for (const t of getVisitsBetween(plan, prev.time, next.time, state.timeZone)) {
+      // Kennel staff let a sleeping pet be; their rounds pick it up once it wakes
+      if (plan.care === "boarding" && getSleepPhase(config, t, state.timeZone)) continue;
+      if (plan.care === "friend" && draw(random, "absence.friend", t) >= FRIEND_RELIABILITY) {
+        missedVisits++;
+        events.push({ message: `Your friend didn't make it over to see ${name}`, timestamp: t, kind: "visit" });
+        continue;
+      }
+      visits++;
+      if (plan.care === "sitter") {
+        spent += config.absenceCare.sitterPerVisit;
+        totalSpent += config.absenceCare.sitterPerVisit;
+      }
+      const tasks = plan.care === "boarding" ? config.absenceCare.visitTasks : plan.tasks;
+      const done: string[] = [];
+      for (const task of tasks) {
+        const visited = doVisitTask({ ...state, totalSpent }, task, config, baseConfig, events);
+        if (visited !== null) {
+          state = visited;
+          done.push(getActionDefinition(config, task)?.label ?? task);
+        }
+      }
+      // Company resets the time alone
+      if (state.aloneSince !== null) state = { ...state, aloneSince: t };
+      const who = plan.care === "boarding" ? "Kennel staff" : plan.care === "sitter" ? "The pet sitter" : "Your friend";
+      events.push({
+        message: `${who} looked after ${name}${done.length ? ` (${done.join(", ")})` : ""}`,
+        timestamp: t,
+        kind: "visit",
+      });
+      // Paid carers take a sick pet to the vet; checkup and treatment go on the trip's bill
+      const treated = plan.care !== "friend" ? treatIllness(state, state.pet.stats, config, t, events) : null;
+      if (treated) {
+        const bill = (config.actions.find((action) => action.diagnoses)?.cost ?? 0) + treated.cost;
+        spent += bill;
+        vetSpent += bill;
+        totalSpent += bill;
+        state = { ...state, illness: null, pet: { ...state.pet, stats: treated.stats } };
+        events.push({
+          message: `${who} took ${name} to the vet: $${bill} added to your trip 🏥`,
+          timestamp: t,
+          alert: { level: "info", text: `${name} fell ill while you were away and has been treated.` },
+        });
+      }
+    }
+    let stats = state.pet.stats;
+    if (plan.care === "boarding" && !state.isSleeping) {
+      stats = applyStatDeltas(stats, { happiness: (-BOARDING_STRESS_PER_HOUR * (next.time - prev.time)) / HOUR_MS });
+    }
+    const updated = { ...absence, visits, missedVisits, spent, vetSpent };
+    state = {
+      ...state,
+      totalSpent,
+      pet: { ...state.pet, stats },
+      absences: state.absences.map((entry) => (entry === absence ? updated : entry)),
+    };
+    if (plan.end <= next.time) events.push(getTripSummary(updated, name, plan.end));
+  }
+  return state;
+}
+
+/** Stats whose care actions (the ones only needed while the stat is low) are all on cooldown right now. */
+function getCareOnCooldown(state: SimState, config: PetConfig, time: number): StatKey[] {
+  const onCooldown = new Map<StatKey, boolean>();
+  for (const action of config.actions) {
+    const stat = action.requirements?.statBelow?.stat;
+    if (!stat) continue;
+    const waiting = time - (state.lastDone[action.id] ?? 0) < getCooldownMs(action);
+    onCooldown.set(stat, (onCooldown.get(stat) ?? true) && waiting);
+  }
+  return [...onCooldown].filter(([, waiting]) => waiting).map(([stat]) => stat);
+}
+
+const getCooldownMs = ({ requirements: rules = {} }: ActionDefinition) =>
+  (rules.cooldownHours ?? 0) * HOUR_MS + (rules.cooldownDays ?? 0) * DAY_MS;
+
+/**
+ * One task on a sitter or kennel visit: the action's stat changes and calories without the owner's bond or
+ * training, skipped (null) while it isn't needed yet, is on cooldown, the pet is too tired, or the weather keeps
+ * it in.
+ */
+function doVisitTask(state: SimState, actionId: ActionId, config: PetConfig, baseConfig: PetConfig, events: SimEvent[]): SimState | null {
+  const definition = getActionDefinition(config, actionId);
+  if (!definition) return null;
+  const rules = definition.requirements ?? {};
+  const { stats } = state.pet;
+  const t = state.time;
+  if (rules.statBelow && stats[rules.statBelow.stat] >= rules.statBelow.value) return null;
+  if (t - (state.lastDone[actionId] ?? 0) < getCooldownMs(definition)) return null;
+  if (definition.outdoors && getOutdoorImpact(getWeather(state.seed, t, state.timeZone))) return null;
+  if (rules.requiresToy && !state.hasToy) return null;
+  if (rules.minEnergy !== undefined && stats.energy < rules.minEnergy) return null;
+  const after = applyStatDeltas(stats, definition.statChanges);
+  let next: SimState = {
+    ...state,
+    lastDone: { ...state.lastDone, [actionId]: t },
+    enclosureSoil: definition.cleansEnclosure ? 0 : state.enclosureSoil,
+    pet: { ...state.pet, stats: after },
+  };
+  if (definition.kcal) {
+    const planned = definition.statChanges.hunger ?? 0;
+    const eaten = definition.eatsUntilFull && planned > 0 ? (after.hunger - stats.hunger) / planned : 1;
+    next = addCalories(next, definition.kcal * getSizeFraction(baseConfig, getAgeDays(state.pet.birthDate, t)) * eaten, baseConfig, events);
+  }
+  return next;
+}
+
+/** The exercise or play session the pet had most recently, and when it finished; null if it never had one. */
+function getLastActivity(state: SimState, config: PetConfig): { activity: string; t: number } | null {
+  let latest: { activity: string; t: number } | null = null;
+  for (const action of config.actions) {
+    const t = state.lastDone[action.id];
+    if ((action.category !== "exercise" && action.category !== "play") || t === undefined) continue;
+    if (!latest || t > latest.t) latest = { activity: action.activity, t };
+  }
+  return latest;
+}
+
+/** Re-derive the pet's emotion from its stats and situation, logging it when it changes. */
+function refreshEmotion(state: SimState, config: PetConfig): SimState {
+  const { pet, time } = state;
+  const lastActivity = getLastActivity(state, config);
+  const { emotion, reason } = getEmotion({
+    name: pet.name,
+    stats: pet.stats,
+    isSleeping: state.isSleeping,
+    isNapping: state.isNapping,
+    symptoms: (state.illness && getIllnessDefinition(config, state.illness.id)?.symptoms) || null,
+    emergency: (state.emergency && getEmergencyDefinition(config, state.emergency.id)?.name) || null,
+    bond: getBond(pet),
+    hasToy: state.hasToy,
+    minutesAlone: getAwakeMinutes(config, getLastInputAt(state), time, state.timeZone),
+    ownerAway: state.aloneSince !== null,
+    lonely:
+      state.aloneSince !== null && getLonelyHours(config.loneliness, state.aloneSince, time) > 0
+        ? { hours: (time - state.aloneSince) / HOUR_MS, anxious: !!config.loneliness.separationAnxiety }
+        : null,
+    lastActivity: lastActivity && { activity: lastActivity.activity, minutesAgo: (time - lastActivity.t) / MINUTE_MS },
+  });
+  if (emotion === pet.emotion && reason === pet.emotionReason) return state;
+  // Several actions finished at once log only where the pet ended up
+  const last = state.moodLog[state.moodLog.length - 1];
+  let moodLog = state.moodLog;
+  if (last && last.t === time) moodLog = [...moodLog.slice(0, -1), { t: time, emotion, reason }];
+  else if (!last || last.emotion !== emotion) moodLog = [...moodLog, { t: time, emotion, reason }].slice(-MAX_MOOD_ENTRIES);
+  return { ...state, moodLog, pet: { ...pet, emotion, emotionReason: reason } };
+}
+
+/** Sim time of the owner's latest input, or the session start if there is none. */
+function getLastInputAt(state: SimState): number {
+  return state.inputs.length ? state.inputs[state.inputs.length - 1].t : state.origin.time;
+}
+
+/** Count awake minutes with an urgent need (other than `excused` ones) and settle the day's bond change at local midnight. */
+function trackBond(
+  state: SimState,
+  time: number,
+  stats: PetStats,
+  minutes: number,
+  excused: StatKey[],
+  events: SimEvent[]
+): { bond: number; neglectMinutes: number; careStreak: number } {
+  const before = getBond(state.pet);
+  const neglectMinutes = state.neglectMinutes + (!state.isSleeping && isNeglected(stats, excused) ? minutes : 0);
+  if (getLocalDay(time, state.timeZone) === getLocalDay(state.time, state.timeZone)) {
+    return { bond: before, neglectMinutes, careStreak: state.careStreak };
+  }
+  const change = getDailyBondChange(neglectMinutes, state.careStreak, time - getLastInputAt(state) > DAY_MS);
+  const bond = clampStat(before + change);
+  const level = getBondLevel(bond);
+  if (level !== getBondLevel(before)) {
+    const { name } = state.pet;
+    events.push(
+      bond > before
+        ? {
+            message: `${name}'s bond with you grew: ${bondLevelLabels[level].toLowerCase()} 💞`,
+            timestamp: time,
+            alert: { level: "success", text: `${name} trusts you more!` },
+          }
+        : {
+            message: `${name} trusts you less: bond is now ${bondLevelLabels[level].toLowerCase()} 💔`,
+            timestamp: time,
+            alert: { level: "error", text: `${name}'s bond is slipping. Keep up with care every day.` },
+          }
+    );
+  }
+  return { bond, neglectMinutes: 0, careStreak: change > 0 ? state.careStreak + 1 : 0 };
+}
+
+/** The pet's bond; pets saved before bond existed start from LEGACY_BOND. */
+export const getBond = (pet: Pet): number => pet.bond ?? LEGACY_BOND;
+
+/** The pet's weight class; pets saved before classes were stored are classified from the score. */
+export const getWeightClass = (pet: Pet): BodyConditionClass => pet.weightClass ?? getBodyConditionClass(pet.bodyCondition);
+
+/** Species config as it applies to this pet now: life-stage overrides, under/overweight penalties, then personality. */
+export function getEffectiveConfig(config: PetConfig, pet: Pet, time: number): PetConfig {
+  const effective = applyTraits(applyBodyCondition(getStageConfig(config, pet.birthDate, time), getWeightClass(pet)), pet.traits);
+  if (!pet.sleepAdjustment) return effective;
+  return { ...effective, sleepHours: applySleepAdjustment(effective.sleepHours, effective.sleepFlex, pet.sleepAdjustment) };
+}
+
+/** Move the body condition score by a calorie surplus or deficit; logs when the pet changes weight class. */
+function addCalories(state: SimState, kcal: number, config: PetConfig, events: SimEvent[]): SimState {
+  const { pet } = state;
+  const ageDays = getAgeDays(pet.birthDate, state.time);
+  const bodyCondition = clampCondition(pet.bodyCondition + getConditionChange(config, ageDays, kcal));
+  const before = getWeightClass(pet);
+  const after = getBodyConditionClass(bodyCondition, before);
+  if (after !== before) {
+    events.push({
+      message: `${pet.name} is now ${bodyConditionLabels[after].toLowerCase()} ⚖️`,
+      timestamp: state.time,
+      alert:
+        after === "ideal"
+          ? { level: "success", text: `${pet.name} is back to a healthy weight!` }
+          : { level: "error", text: `${pet.name} is ${after}. Adjust food and exercise.` },
+    });
+  }
+  return { ...state, pet: { ...pet, bodyCondition, weightClass: after } };
+}
+
+/** Vet interval as a phrase: "year", "6 months", "month". */
+function formatCheckupInterval(days: number): string {
+  if (days % 365 === 0) return days === 365 ? "year" : `${days / 365} years`;
+  const months = Math.round(days / 30);
+  return months === 1 ? "month" : `${months} months`;
+}
+
+/** Birthday milestones between two states: a new life stage, or a routine checkup falling due. */
+function checkAging(prev: SimState, next: SimState, config: PetConfig, events: SimEvent[]): void {
+  const { name, birthDate } = next.pet;
+  const stage = getLifeStage(config, birthDate, next.time);
+  if (stage.id !== getLifeStage(config, birthDate, prev.time).id) {
+    events.push({
+      message: `${name} is now a${/^[aeiou]/i.test(stage.name) ? "n" : ""} ${stage.name.toLowerCase()}! 🎂`,
+      timestamp: next.time,
+      alert: { level: "info", text: `${name} grew up: care needs have changed.` },
+    });
+  }
+  const checkup = config.actions.find((action) => action.diagnoses);
+  const lastCheckup = (checkup && next.lastDone[checkup.id]) || next.origin.time;
+  const due = lastCheckup + stage.vetCheckupDays * DAY_MS;
+  if (prev.time < due && due <= next.time) {
+    events.push({
+      message: `Time for ${name}'s routine health exam (recommended every ${formatCheckupInterval(stage.vetCheckupDays)}) 🗓️`,
+      timestamp: due,
+    });
+  }
+}
+
+/** Preventive care falling due, or passing its grace period, between two states. */
+function checkCareDue(prev: SimState, next: SimState, config: PetConfig, events: SimEvent[]): void {
+  const { name } = next.pet;
+  for (const item of config.preventiveCare) {
+    const { dueAt, overdueAt } = getCareEntry(item, next.origin.time, next.careDone, next.time);
+    if (prev.time < dueAt && dueAt <= next.time) {
+      events.push({
+        message: `${item.name} is due for ${name} ($${item.cost}) 💉`,
+        timestamp: dueAt,
+        alert: { level: "info", text: `${item.name} is due for ${name}.` },
+      });
+    }
+    if (prev.time < overdueAt && overdueAt <= next.time) {
+      events.push({
+        message: `${item.name} for ${name} is overdue. ${item.overdueWarning} ⚠️`,
+        timestamp: overdueAt,
+        alert: { level: "error", text: `${item.name} is overdue for ${name}!` },
+      });
+    }
+  }
+}
+
+/**
+ * Run the simulation forward by elapsedMs. Steps follow a fixed TICK_MS grid on the sim clock and never
+ * cross a sleep-window boundary, so every day/night segment is replayed with the same rules as the live
+ * tick. A call that ends between grid points takes a short last step, so how often time was advanced can
+ * nudge the stats slightly (each step works from the stats it starts with).
+ */
+export function simulate(state: SimState, elapsedMs: number, config: PetConfig): SimResult {
+  // A surrendered pet has left; its clock stops
+  if (state.surrenderedAt !== null) return { state, events: [] };
+  const events: SimEvent[] = [];
+  const random = openRandom(state);
+  let current = state;
+  let remaining = Math.max(0, elapsedMs);
+  do {
+    // Stage, weight and weather overrides (decay, sleep hours, illness risk) follow the pet at the start of each step
+    const weather = getWeather(current.seed, current.time, current.timeZone);
+    const stageConfig = applyWeather(getEffectiveConfig(config, current.pet, current.time), weather);
+    current = syncSleep(current, stageConfig, events);
+    const untilBoundary = getNextSleepChange(stageConfig, current.time, current.timeZone) - current.time;
+    const untilGrid = (Math.floor(current.time / TICK_MS) + 1) * TICK_MS - current.time;
+    const step = Math.min(untilGrid, remaining, untilBoundary);
+    if (step > 0) {
+      const before = current;
+      current = tick(current, step, stageConfig, events, random);
+      const stage = getLifeStage(config, before.pet.birthDate, before.time);
+      const ageDays = getAgeDays(before.pet.birthDate, before.time);
+      const burned = getRestingBurn(config, ageDays, step / MINUTE_MS, stage.decayMultipliers?.hunger ?? 1);
+      current = addCalories(current, -burned, config, events);
+      current = runAbsenceCare(before, current, stageConfig, config, events, random);
+      checkAging(before, current, config, events);
+      checkCareDue(before, current, config, events);
+    }
+    remaining -= step;
+  } while (remaining > 0 && current.surrenderedAt === null);
+  const finalConfig = getEffectiveConfig(config, current.pet, current.time);
+  return { state: closeRandom(syncSleep(current, finalConfig, events), random), events };
+}
+
+/**
+ * Replay the real time spent away since the last save (always 1x). Nightly sleep/wake events and sitter or
+ * kennel visits are folded into summary lines and lose their toasts so returning after a week doesn't flood the log.
+ */
+export function catchUp(state: SimState, elapsedMs: number, config: PetConfig): SimResult {
+  const result = simulate(state, elapsedMs, config);
+  const nights = result.events.filter((e) => e.kind === "sleep").length;
+  const countVisits = ({ absences }: SimState) => absences.reduce((sum, absence) => sum + absence.visits, 0);
+  const visits = countVisits(result.state) - countVisits(state);
+  const events = result.events
+    .filter((e) => !e.kind)
+    .map((e): SimEvent => ({ message: e.message, timestamp: e.timestamp }));
+  if (nights > 0) {
+    events.push({
+      message: `${state.pet.name} slept ${nights} night${nights === 1 ? "" : "s"} while you were away`,
+      timestamp: result.state.time,
+    });
+  }
+  if (visits > 0) {
+    events.push({
+      message: `${state.pet.name} had ${visits} visit${visits === 1 ? "" : "s"} from the people minding them`,
+      timestamp: result.state.time,
+    });
+  }
+  return { state: result.state, events };
+}
+
+/**
+ * Re-run a session from its origin, seed and recorded inputs up to the state's current clock.
+ * Reproduces the rolls, so a reported save can be replayed and compared against its roll log; stats and
+ * welfare can differ from the live session in the last decimals, since it was advanced in other chunks.
+ */
+export function replaySession(state: SimState, config: PetConfig): SimResult {
+  const events: SimEvent[] = [];
+  let current = createSimState(state.origin.pet, state.origin.time, state.seed, state.timeZone);
+  const advanceTo = (t: number) => {
+    const result = simulate(current, t - current.time, config);
+    events.push(...result.events);
+    current = result.state;
+  };
+  for (const input of state.inputs) {
+    advanceTo(input.t);
+    let result: SimResult;
+    if (input.type === "essentials") result = purchaseEssentials(current, input.cost);
+    else if (input.type === "cancel") result = cancelAction(current);
+    else if (input.type === "care") result = completeCare(current, input.itemId, config);
+    else if (input.type === "focus") result = setTrainingFocus(current, input.skillId, config);
+    else if (input.type === "schedule") result = setOwnerSchedule(current, input.schedule);
+    else if (input.type === "sleep") result = setSleepAdjustment(current, input.adjustment, config);
+    else if (input.type === "absence") result = planAbsence(current, input.plan, config);
+    else if (input.type === "cancelAbsence") result = cancelAbsence(current, input.id);
+    else if (input.type === "emergency") result = respondToEmergency(current, input.goToVet, config);
+    else if (input.type === "start") result = startAction(current, input.actionId, config);
+    else result = applyAction(current, input.actionId, config);
+    events.push(...result.events);
+    current = result.state;
+  }
+  advanceTo(state.time);
+  return { state: current, events };
+}
+
+/** Button label for an action, per species. */
+export function getActionLabel(actionId: ActionId, config: PetConfig): string {
+  return getActionDefinition(config, actionId)?.label ?? actionId;
+}
+
+/** The species' definition for an action; throws for ids the config doesn't have. */
+function requireAction(config: PetConfig, actionId: ActionId): ActionDefinition {
+  const definition = getActionDefinition(config, actionId);
+  if (!definition) throw new Error(`Unknown action "${actionId}" for ${config.type}`);
+  return definition;
+}
+
+/** Stat changes scaled by `factor`, leaving the stats in `keep` as they are. */
+function scaleChanges(changes: Partial<PetStats>, factor: number, keep: StatKey[]): Partial<PetStats> {
+  const scaled: Partial<PetStats> = {};
+  for (const key of Object.keys(changes) as StatKey[]) scaled[key] = keep.includes(key) ? changes[key] : changes[key] * factor;
+  return scaled;
+}
+
+/** Replace {name} in config messages. */
+const fillName = (template: string, name: string) => template.split("{name}").join(name);
+
+/** Overlay title, cost and duration (seconds) for starting an action now, including any restock. */
+export function getActionPlan(state: SimState, actionId: ActionId, config: PetConfig): ActiveAction {
+  const definition = requireAction(config, actionId);
+  const { restock } = definition;
+  const needsRestock = !!restock && (state.actionCounts[actionId] ?? 0) >= restock.freeUses;
+  const rained = definition.outdoors && getOutdoorImpact(getWeather(state.seed, state.time, state.timeZone)) === "shortened";
+  const duration = definition.duration + (needsRestock ? restock.extraDuration : 0);
+  return {
+    id: actionId,
+    activity: needsRestock ? restock.activity : definition.activity,
+    cost: needsRestock ? restock.cost : definition.cost,
+    duration: rained ? Math.max(1, Math.round(duration * RAIN_OUTDOOR_SCALE)) : duration,
+    startedAt: state.time,
+  };
+}
+
+/** Begin an action: charge its cost and mark the owner busy until applyAction or cancelAction. */
+export function startAction(state: SimState, actionId: ActionId, config: PetConfig): SimResult {
+  const definition = requireAction(config, actionId);
+  const plan = getActionPlan(state, actionId, config);
+  const { name } = state.pet;
+  const t = state.time;
+  const events: SimEvent[] = [];
+  if (definition.startMessage) {
+    events.push({ message: fillName(definition.startMessage, name), timestamp: t, alert: definition.startToast });
+  }
+  if (plan.cost > 0) {
+    events.push({ message: `Spent $${plan.cost} on ${plan.activity.toLowerCase()}`, timestamp: t });
+  }
+  const next = { ...state, activeAction: plan, totalSpent: state.totalSpent + plan.cost };
+  return { state: recordInput(next, { t, type: "start", actionId }), events };
+}
+
+/** Stop the current action early: no stat changes, cost refunded. */
+export function cancelAction(state: SimState): SimResult {
+  const active = state.activeAction;
+  if (!active) return { state, events: [] };
+  const next = { ...state, activeAction: null, totalSpent: Math.max(0, state.totalSpent - active.cost) };
+  return {
+    state: recordInput(next, { t: state.time, type: "cancel" }),
+    events: [{ message: `${active.activity} stopped early`, timestamp: state.time }],
+  };
+}
+
+/** Finish an action: apply its stat effects, roll side events (seeded), update cooldowns and inventory. */
+export function applyAction(state: SimState, actionId: ActionId, config: PetConfig): SimResult {
+  // Effects follow the pet's personality (e.g. an anxious pet minds baths more)
+  const definition = requireAction(getEffectiveConfig(config, state.pet, state.time), actionId);
+  const plan = state.activeAction?.id === actionId ? state.activeAction : getActionPlan(state, actionId, config);
+  const { name } = state.pet;
+  const t = state.time;
+  const events: SimEvent[] = [];
+  const source = openRandom(state);
+  // Outings follow the weather they started in: rain halves the benefits (the pet still relieves itself)
+  const weather = getWeather(state.seed, plan.startedAt, state.timeZone);
+  const rained = definition.outdoors && getOutdoorImpact(weather) === "shortened";
+  const statChanges = rained ? scaleChanges(definition.statChanges, RAIN_OUTDOOR_SCALE, ["bladder"]) : definition.statChanges;
+  const kcal = (definition.kcal ?? 0) * (rained ? RAIN_OUTDOOR_SCALE : 1);
+  let next: SimState = {
+    ...state,
+    activeAction: null,
+    lastDone: { ...state.lastDone, [actionId]: t },
+    actionCounts: { ...state.actionCounts, [actionId]: (state.actionCounts[actionId] ?? 0) + 1 },
+  };
+  // A bonded pet enjoys care more and minds what it hates less; repeating something it hates strains the bond
+  let bond = getBond(state.pet);
+  let stats = applyStatDeltas(state.pet.stats, applyBondToChanges(statChanges, bond));
+  stats = applyStatDeltas(stats, getActionBonus(config, state.skills, actionId));
+  const lastDoneAt = state.lastDone[actionId];
+  const repeated = lastDoneAt !== undefined && t - lastDoneAt < ROUGH_HANDLING_REPEAT_DAYS * DAY_MS;
+  const bondLoss = getRoughHandlingLoss(statChanges, repeated);
+  bond = clampStat(bond - bondLoss);
+  if (repeated && bondLoss > 0) {
+    events.push({
+      message: `${name} is losing trust in you: too much of something they hate. -${bondLoss} Bond 💔`,
+      timestamp: t,
+      alert: { level: "error", text: `${name} needs a break from that.` },
+    });
+  }
+  if (kcal) {
+    // Portions are sized to the pet; a meal only counts for the hunger it actually filled
+    const planned = statChanges.hunger ?? 0;
+    const eaten = definition.eatsUntilFull && planned > 0 ? (stats.hunger - state.pet.stats.hunger) / planned : 1;
+    const ageDays = getAgeDays(state.pet.birthDate, t);
+    next = addCalories(next, kcal * getSizeFraction(config, ageDays) * eaten, config, events);
+  }
+  if (definition.outdoors && isMuddy(weather)) {
+    stats = applyStatDeltas(stats, { hygiene: -MUD_HYGIENE_LOSS });
+    events.push({
+      message: `${name} came home muddy from the ${weather.condition}. -${MUD_HYGIENE_LOSS} Hygiene 🌧️`,
+      timestamp: t,
+      alert: { level: "info", text: `${name} could use a clean-up.` },
+    });
+  }
+
+  // Every side event is rolled, in config order, so the roll log lines up however many hit
+  for (const side of definition.sideEvents ?? []) {
+    const chance = side.chance * getSideEventMultiplier(config, state.skills, `${actionId}.${side.id}`);
+    if (draw(source, `${actionId}.${side.id}`, t) >= chance) continue;
+    if (side.statChanges) stats = applyStatDeltas(stats, side.statChanges);
+    if (side.breaksToy) {
+      next.hasToy = false;
+      next.toyBrokenAt = t;
+    }
+    events.push({ message: fillName(side.message, name), timestamp: t, alert: side.toast });
+  }
+
+  if (definition.grantsToy) {
+    next.hasToy = true;
+    next.toyBrokenAt = 0;
+  }
+  if (definition.cleansEnclosure) next.enclosureSoil = 0;
+  const skill = definition.trains && getTrainingTarget(config, state.skills, state.trainingFocus);
+  if (skill) {
+    const sessions = (state.skills[skill.id] ?? 0) + 1;
+    next.skills = { ...state.skills, [skill.id]: sessions };
+    events.push(
+      sessions >= skill.sessions
+        ? {
+            message: `${name} learned ${skill.name.toLowerCase()}! 🎓`,
+            timestamp: t,
+            alert: { level: "success", text: `New skill: ${skill.name}` },
+          }
+        : { message: `${name} practiced ${skill.name.toLowerCase()} (${sessions}/${skill.sessions})`, timestamp: t }
+    );
+  }
+  const treated = definition.diagnoses ? treatIllness(state, stats, config, t, events) : null;
+  if (treated) {
+    stats = treated.stats;
+    next.illness = null;
+    next.totalSpent += treated.cost;
+  } else if (definition.completionMessage) {
+    events.push({ message: fillName(definition.completionMessage, name), timestamp: t, alert: definition.completionToast });
+  }
+
+  next = { ...next, pet: { ...next.pet, stats, bond } };
+  next = refreshEmotion(recordInput(closeRandom(next, source), { t, type: "complete", actionId }), config);
+  events.push({
+    message: `Finished ${plan.activity.toLowerCase()}`,
+    timestamp: t,
+    alert: { level: "success", text: `${plan.activity} complete!` },
+  });
+  return { state: next, events };
+}
+
+/** Vet treatment of the current illness: logs the diagnosis and returns the stats after treatment and its cost. */
+function treatIllness(
+  state: SimState,
+  stats: PetStats,
+  config: PetConfig,
+  t: number,
+  events: SimEvent[]
+): { stats: PetStats; cost: number } | null {
+  const definition = state.illness && getIllnessDefinition(config, state.illness.id);
+  if (!definition) return null;
+  const severity = getIllnessSeverity(state.illness, t);
+  const cost = getTreatmentCost(definition, severity);
+  events.push(
+    { message: `Vet diagnosis for ${state.pet.name}: ${definition.name} (${severity}) 🩺`, timestamp: t },
+    {
+      message: `Spent $${cost} on ${definition.treatment.name}`,
+      timestamp: t,
+      alert: { level: "info", text: `${definition.name}: treated with ${definition.treatment.name}` },
+    }
+  );
+  return { stats: applyStatDeltas(stats, { health: definition.treatment.health }), cost };
+}
+
+/** Compact countdown: "2d 3h" for a day or more, otherwise "1h 5m" / "5m", or "45s" under a minute. */
+export function formatCountdown(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  // Round once on the total so no unit can roll over to "60m" or "24h"
+  const totalMinutes = Math.ceil(ms / MINUTE_MS);
+  if (totalMinutes >= DAY_MS / MINUTE_MS) {
+    const totalHours = Math.ceil(totalMinutes / 60);
+    return `${Math.floor(totalHours / 24)}d ${totalHours % 24}h`;
+  }
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
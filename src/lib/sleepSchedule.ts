@@ -0,0 +1,184 @@
+/**
+ * Sleep schedule: when the pet sleeps at night and naps during the day, read on the wall clock of the pet's home
+ * time zone. Clock times come from Intl for that zone, so DST changes and opening a save in another time zone
+ * don't move bedtime. Owners can shift bedtime and lengthen or shorten the night within the species' bounds.
+ */
+import type { PetConfig } from "./petConfig";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Offsets are looked up per quarter hour; every real zone changes offset on a quarter-hour boundary. */
+const OFFSET_BUCKET_MS = 15 * MINUTE_MS;
+const MAX_CACHED_OFFSETS = 5000;
+
+/** Wall-clock hours, e.g. 22.5–6 (22:30 to 06:00); a start after the end crosses midnight. */
+export interface SleepWindow {
+  start: number;
+  end: number;
+}
+
+/** How far owners may move the species' night: bedtime up to `shiftHours` either way, night length within bounds. */
+export interface SleepFlex {
+  shiftHours: number;
+  minHours: number;
+  maxHours: number;
+}
+
+/** The owner's changes to the default night; stays relative so life-stage changes still apply. */
+export interface SleepAdjustment {
+  /** Hours bedtime and wake-up move (negative = earlier). */
+  shiftHours: number;
+  /** Hours added to the night (negative = shorter). */
+  extraHours: number;
+}
+
+export type SleepPhase = "night" | "nap";
+
+/** Time zone of this device; new pets take it as their home. */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, number>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    const options: Intl.DateTimeFormatOptions = {
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    };
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone });
+    } catch {
+      // Unknown zone (e.g. saved by a newer browser): fall back to UTC rather than fail to load
+      formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" });
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Offset of `timeZone` from UTC at `time`, in ms (positive east of Greenwich). */
+export function getZoneOffset(time: number, timeZone: string): number {
+  const bucket = Math.floor(time / OFFSET_BUCKET_MS) * OFFSET_BUCKET_MS;
+  const key = `${timeZone}|${bucket}`;
+  const cached = offsetCache.get(key);
+  if (cached !== undefined) return cached;
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(bucket)) parts[part.type] = Number(part.value);
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = wall - bucket;
+  if (offsetCache.size >= MAX_CACHED_OFFSETS) offsetCache.clear();
+  offsetCache.set(key, offset);
+  return offset;
+}
+
+/** Wall-clock minutes since local midnight in `timeZone`. */
+export function getWallMinutes(time: number, timeZone: string): number {
+  const wall = time + getZoneOffset(time, timeZone);
+  return (((wall % DAY_MS) + DAY_MS) % DAY_MS) / MINUTE_MS;
+}
+
+/** Local calendar day number in `timeZone`; changes at local midnight, whatever the DST offset. */
+export function getLocalDay(time: number, timeZone: string): number {
+  return Math.floor((time + getZoneOffset(time, timeZone)) / DAY_MS);
+}
+
+/**
+ * Moment the wall clock in `timeZone` reads `wallMs` (a local date and time written as if it were UTC). The second
+ * lookup settles on the offset in force at that moment; a time skipped by DST comes out an hour early.
+ */
+export function getWallTime(wallMs: number, timeZone: string): number {
+  const guess = wallMs - getZoneOffset(wallMs, timeZone);
+  return wallMs - getZoneOffset(guess, timeZone);
+}
+
+/** Moment local midnight starts on local day `day` (see getLocalDay) in `timeZone`. */
+export const getLocalMidnight = (day: number, timeZone: string) => getWallTime(day * DAY_MS, timeZone);
+
+/** True when `minutes` past midnight falls inside the window (handles windows that cross midnight). */
+function isInWindow(window: SleepWindow, minutes: number): boolean {
+  const start = window.start * 60;
+  const end = window.end * 60;
+  return start > end ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+}
+
+/** Night, nap or awake at `time` on the pet's home clock. */
+export function getSleepPhase(config: PetConfig, time: number, timeZone: string): SleepPhase | null {
+  const minutes = getWallMinutes(time, timeZone);
+  if (isInWindow(config.sleepHours, minutes)) return "night";
+  return (config.naps ?? []).some((nap) => isInWindow(nap, minutes)) ? "nap" : null;
+}
+
+/**
+ * Next time after `time` at which the night or a nap starts or ends. Measured on the wall clock, then corrected
+ * for any DST change in between so 22:00 stays 22:00.
+ */
+export function getNextSleepChange(config: PetConfig, time: number, timeZone: string): number {
+  const offset = getZoneOffset(time, timeZone);
+  const wallMs = (((time + offset) % DAY_MS) + DAY_MS) % DAY_MS;
+  let next = Infinity;
+  for (const window of [config.sleepHours, ...(config.naps ?? [])]) {
+    for (const hour of [window.start, window.end]) {
+      const ahead = (((hour * HOUR_MS - wallMs) % DAY_MS) + DAY_MS) % DAY_MS || DAY_MS;
+      const candidate = time + ahead;
+      const corrected = candidate - (getZoneOffset(candidate, timeZone) - offset);
+      next = Math.min(next, corrected > time ? corrected : candidate);
+    }
+  }
+  return next;
+}
+
+/** Minutes between `from` and `to` the pet spends awake (outside the night and naps). */
+export function getAwakeMinutes(config: PetConfig, from: number, to: number, timeZone: string): number {
+  let awake = 0;
+  for (let t = from; t < to; ) {
+    const next = Math.min(getNextSleepChange(config, t, timeZone), to);
+    if (!getSleepPhase(config, t, timeZone)) awake += next - t;
+    t = next;
+  }
+  return awake / MINUTE_MS;
+}
+
+/** Length of a sleep window in minutes. */
+export function getSleepMinutes(window: SleepWindow): number {
+  const { start, end } = window;
+  return (start > end ? 24 - start + end : end - start) * 60;
+}
+
+/** Minutes asleep in a day: the night plus naps. */
+export function getDailySleepMinutes(config: PetConfig): number {
+  return (config.naps ?? []).reduce((sum, nap) => sum + getSleepMinutes(nap), getSleepMinutes(config.sleepHours));
+}
+
+const wrapHour = (hour: number) => ((hour % 24) + 24) % 24;
+
+/** The night after the owner's adjustment; its length is kept within the species' bounds. */
+export function applySleepAdjustment(night: SleepWindow, flex: SleepFlex, adjustment?: SleepAdjustment): SleepWindow {
+  if (!adjustment) return night;
+  const shift = Math.max(-flex.shiftHours, Math.min(flex.shiftHours, adjustment.shiftHours));
+  const hours = getSleepMinutes(night) / 60;
+  const length = Math.max(Math.min(flex.minHours, hours), Math.min(Math.max(flex.maxHours, hours), hours + adjustment.extraHours));
+  return { start: wrapHour(night.start + shift), end: wrapHour(night.start + shift + length) };
+}
+
+/** Why an adjustment isn't healthy for this night, or null if it's fine. */
+export function getSleepAdjustmentProblem(night: SleepWindow, flex: SleepFlex, adjustment: SleepAdjustment): string | null {
+  if (Math.abs(adjustment.shiftHours) > flex.shiftHours) {
+    return `Bedtime can move at most ${flex.shiftHours} hours either way.`;
+  }
+  const length = getSleepMinutes(night) / 60 + adjustment.extraHours;
+  if (length < flex.minHours || length > flex.maxHours) {
+    return `Nights need to be ${flex.minHours}–${flex.maxHours} hours long.`;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Training: which skills in a species' tree are learned or open to train, and the combined effects of learned
+ * skills (side event chances, action bonuses, enclosure soiling, incident odds). The engine applies them; Dashboard
+ * lists skills.
+ */
+import type { PetConfig, SkillDefinition } from "./petConfig";
+import type { PetStats } from "./simulation";
+
+export type SkillStatus = "learned" | "trainable" | "locked";
+
+export function getSkillDefinition(config: PetConfig, skillId: string): SkillDefinition | undefined {
+  return config.skills.find((skill) => skill.id === skillId);
+}
+
+/** Sessions done per skill id. */
+export type SkillProgress = Record<string, number>;
+
+export function isSkillLearned(skill: SkillDefinition, progress: SkillProgress): boolean {
+  return (progress[skill.id] ?? 0) >= skill.sessions;
+}
+
+/** Learned, open to train (every prerequisite learned), or locked. */
+export function getSkillStatus(config: PetConfig, skill: SkillDefinition, progress: SkillProgress): SkillStatus {
+  if (isSkillLearned(skill, progress)) return "learned";
+  const prerequisites = (skill.requires ?? []).map((id) => getSkillDefinition(config, id));
+  return prerequisites.every((required) => !required || isSkillLearned(required, progress)) ? "trainable" : "locked";
+}
+
+/** Skill the next session goes to: the owner's focus if it can be trained, otherwise the first open one. */
+export function getTrainingTarget(config: PetConfig, progress: SkillProgress, focus: string | null): SkillDefinition | undefined {
+  const trainable = config.skills.filter((skill) => getSkillStatus(config, skill, progress) === "trainable");
+  return trainable.find((skill) => skill.id === focus) ?? trainable[0];
+}
+
+const learnedSkills = (config: PetConfig, progress: SkillProgress) =>
+  config.skills.filter((skill) => isSkillLearned(skill, progress));
+
+/** Combined multiplier on one side event ("actionId.sideId"). */
+export function getSideEventMultiplier(config: PetConfig, progress: SkillProgress, key: string): number {
+  return learnedSkills(config, progress).reduce((m, skill) => m * (skill.effects.sideEventChance?.[key] ?? 1), 1);
+}
+
+/** Extra stat changes learned skills add when an action finishes. */
+export function getActionBonus(config: PetConfig, progress: SkillProgress, actionId: string): Partial<PetStats> {
+  const bonus: Partial<PetStats> = {};
+  for (const skill of learnedSkills(config, progress)) {
+    for (const [stat, delta] of Object.entries(skill.effects.actionBonus?.[actionId] ?? {}) as [keyof PetStats, number][]) {
+      bonus[stat] = (bonus[stat] ?? 0) + delta;
+    }
+  }
+  return bonus;
+}
+
+/** Combined multiplier on enclosure soiling. */
+export function getSoilMultiplier(config: PetConfig, progress: SkillProgress): number {
+  return learnedSkills(config, progress).reduce((m, skill) => m * (skill.effects.soilMultiplier ?? 1), 1);
+}
+
+/** Combined multiplier on one behavior incident. */
+export function getIncidentMultiplier(config: PetConfig, progress: SkillProgress, incidentId: string): number {
+  return learnedSkills(config, progress).reduce((m, skill) => m * (skill.effects.incidentChance?.[incidentId] ?? 1), 1);
+}
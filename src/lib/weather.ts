@@ -0,0 +1,188 @@
+/**
+ * Weather and seasons: one weather per local day at the pet's home, generated from the session seed so a save
+ * always sees the same forecast (no RNG draws, so the roll log is unaffected). The season sets the climate;
+ * heat waves speed up thirst, cold snaps raise energy and food needs, and rain or storms cut outdoor walks short.
+ */
+import { applyModifiers, type ConfigModifiers } from "./lifeStages";
+import type { PetConfig } from "./petConfig";
+import { nextRandom } from "./random";
+import type { SimEvent } from "./simulation";
+import { getLocalDay } from "./sleepSchedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** From this temperature (°C) a day counts as a heat wave. */
+export const HEAT_WAVE_C = 30;
+/** At or below this temperature (°C) a day counts as a cold snap; wet days fall as snow. */
+export const COLD_SNAP_C = 0;
+
+/** How much of an outdoor action a rainy day leaves (duration and benefits). */
+export const RAIN_OUTDOOR_SCALE = 0.5;
+/** Hygiene lost to mud on a rainy or snowy outing. */
+export const MUD_HYGIENE_LOSS = 15;
+
+export type Season = "spring" | "summer" | "autumn" | "winter";
+export type WeatherCondition = "sunny" | "cloudy" | "rain" | "storm" | "snow" | "blizzard";
+
+export interface Weather {
+  /** Local day number at the pet's home (see getLocalDay). */
+  day: number;
+  season: Season;
+  condition: WeatherCondition;
+  /** Daytime high in °C. */
+  temperature: number;
+}
+
+/** Effect of the day's weather on outdoor actions: cut short, or not possible at all. */
+export type OutdoorImpact = "shortened" | "blocked";
+
+export const seasonLabels: Record<Season, string> = {
+  spring: "Spring",
+  summer: "Summer",
+  autumn: "Autumn",
+  winter: "Winter",
+};
+
+export const weatherLabels: Record<WeatherCondition, string> = {
+  sunny: "Sunny",
+  cloudy: "Cloudy",
+  rain: "Rain",
+  storm: "Thunderstorm",
+  snow: "Snow",
+  blizzard: "Blizzard",
+};
+
+const weatherEmoji: Record<WeatherCondition, string> = {
+  sunny: "☀️",
+  cloudy: "☁️",
+  rain: "🌧️",
+  storm: "⛈️",
+  snow: "🌨️",
+  blizzard: "❄️",
+};
+
+/** Typical daytime high, how far a spell can push it, and the chance of a wet or stormy day. */
+const climate: Record<Season, { temperature: number; swing: number; wetChance: number; stormChance: number }> = {
+  spring: { temperature: 15, swing: 10, wetChance: 0.35, stormChance: 0.06 },
+  summer: { temperature: 25, swing: 11, wetChance: 0.2, stormChance: 0.08 },
+  autumn: { temperature: 13, swing: 10, wetChance: 0.4, stormChance: 0.07 },
+  winter: { temperature: 3, swing: 10, wetChance: 0.3, stormChance: 0.05 },
+};
+
+/** Zones south of the equator, where the seasons are flipped. */
+const SOUTHERN_ZONES = [
+  "Australia/",
+  "Antarctica/",
+  "Pacific/Auckland",
+  "Pacific/Chatham",
+  "America/Argentina/",
+  "America/Santiago",
+  "America/Sao_Paulo",
+  "America/Montevideo",
+  "Africa/Johannesburg",
+];
+
+/** Spells last a few days: a day's temperature averages this many days of noise. */
+const SPELL_DAYS = 3;
+
+/** Season of a local day; northern months unless the home zone is in the southern hemisphere. */
+export function getSeason(day: number, timeZone: string): Season {
+  const month = new Date(day * DAY_MS).getUTCMonth();
+  const southern = SOUTHERN_ZONES.some((zone) => timeZone.startsWith(zone));
+  const seasons: Season[] = southern ? ["summer", "autumn", "winter", "spring"] : ["winter", "spring", "summer", "autumn"];
+  return seasons[Math.floor(((month + 1) % 12) / 3)];
+}
+
+/** Independent draws for one day of one session, from a state derived from the seed and the day. */
+function getDayDraws(seed: number, day: number, count: number): number[] {
+  let state = (seed ^ Math.imul(day, 0x9e3779b1)) | 0;
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const next = nextRandom(state);
+    values.push(next.value);
+    state = next.state;
+  }
+  return values;
+}
+
+/** The weather for the local day `time` falls on. */
+export function getWeather(seed: number, time: number, timeZone: string): Weather {
+  return getDayWeather(seed, getLocalDay(time, timeZone), timeZone);
+}
+
+function getDayWeather(seed: number, day: number, timeZone: string): Weather {
+  const season = getSeason(day, timeZone);
+  const { temperature: mean, swing, wetChance, stormChance } = climate[season];
+  // Neighbouring days share noise, so hot and cold spells run for several days
+  let spell = 0;
+  for (let back = 0; back < SPELL_DAYS; back++) spell += getDayDraws(seed, day - back, 1)[0] * 2 - 1;
+  const [, wet, kind, sky] = getDayDraws(seed, day, 4);
+  const temperature = Math.round(mean + (spell / SPELL_DAYS) * swing * 1.5);
+  let condition: WeatherCondition = sky < 0.5 ? "sunny" : "cloudy";
+  if (wet < wetChance) {
+    const stormy = kind < stormChance / wetChance;
+    condition = temperature <= COLD_SNAP_C + 1 ? (stormy ? "blizzard" : "snow") : stormy ? "storm" : "rain";
+  }
+  return { day, season, condition, temperature };
+}
+
+/** One Weather per local day from `from` to `to`, oldest first. */
+export function getWeatherHistory(seed: number, from: number, to: number, timeZone: string): Weather[] {
+  const days: Weather[] = [];
+  const last = getLocalDay(to, timeZone);
+  for (let day = getLocalDay(from, timeZone); day <= last; day++) days.push(getDayWeather(seed, day, timeZone));
+  return days;
+}
+
+export const isHeatWave = (weather: Weather) => weather.temperature >= HEAT_WAVE_C;
+export const isColdSnap = (weather: Weather) => weather.temperature <= COLD_SNAP_C;
+
+/** Decay speed-ups for the day: heat dries the pet out, cold burns energy and food and lowers resistance. */
+export function getWeatherModifiers(weather: Weather): ConfigModifiers {
+  if (isHeatWave(weather)) return { decayMultipliers: { thirst: 1.6, energy: 1.15 } };
+  if (isColdSnap(weather)) return { decayMultipliers: { energy: 1.3, hunger: 1.2 }, illnessRisk: 1.2 };
+  return {};
+}
+
+/** Species config under the day's weather. */
+export function applyWeather(config: PetConfig, weather: Weather): PetConfig {
+  return applyModifiers(config, getWeatherModifiers(weather));
+}
+
+/** What the weather does to outdoor actions today; null when it's fine to go out. */
+export function getOutdoorImpact(weather: Weather): OutdoorImpact | null {
+  if (weather.condition === "storm" || weather.condition === "blizzard") return "blocked";
+  if (weather.condition === "rain") return "shortened";
+  return null;
+}
+
+/** True when an outing today brings mud home. */
+export const isMuddy = (weather: Weather) => weather.condition === "rain" || weather.condition === "snow";
+
+/** "Rain, 12°C". */
+export function describeWeather(weather: Weather): string {
+  return `${weatherLabels[weather.condition]}, ${weather.temperature}°C`;
+}
+
+/** Short lines on how today's weather changes care, for the widget and the report. */
+export function getWeatherEffects(weather: Weather): string[] {
+  const effects: string[] = [];
+  if (isHeatWave(weather)) effects.push("Heat wave: thirst drops much faster");
+  if (isColdSnap(weather)) effects.push("Cold snap: energy and food run down faster");
+  const outdoor = getOutdoorImpact(weather);
+  if (outdoor === "blocked") effects.push("Too stormy for walks");
+  if (outdoor === "shortened") effects.push("Walks are cut short");
+  if (isMuddy(weather)) effects.push(`Outings bring home mud (-${MUD_HYGIENE_LOSS} hygiene)`);
+  return effects;
+}
+
+/** Event-log line for the start of a day, with a toast when the weather changes care. */
+export function getWeatherEvent(weather: Weather, time: number): SimEvent {
+  const effects = getWeatherEffects(weather);
+  return {
+    message: `${seasonLabels[weather.season]} weather today: ${describeWeather(weather)} ${weatherEmoji[weather.condition]}`,
+    timestamp: time,
+    alert: effects.length ? { level: "info", text: effects.join(". ") } : undefined,
+    kind: "weather",
+  };
+}
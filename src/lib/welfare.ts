@@ -0,0 +1,127 @@
+/**
+ * Welfare: a neglect tracker for needs and health left at critical levels. Every hour a tracked stat sits at a
+ * critical level adds to the neglect score (several at once add up), and hours with nothing critical wear it back
+ * down. Crossing each threshold brings a welfare warning; past the last one the pet is surrendered to a shelter
+ * and the journey ends. While a kennel or sitter is booked they answer for the pet, so the score doesn't grow.
+ */
+import type { StatKey } from "./petConfig";
+import type { PetStats, SimEvent } from "./simulation";
+
+/** Hunger, thirst, hygiene and happiness at or below this are critical. */
+export const CRITICAL_LEVEL = 10;
+/** Health at or below this is critical. */
+export const CRITICAL_HEALTH = 25;
+/** Neglect score worn off per hour with nothing critical. */
+const RECOVERY_PER_HOUR = 2;
+
+export type WelfareLevel = "ok" | "concern" | "finalWarning" | "surrendered";
+
+/** Neglect score (critical stat-hours) at which each level starts; about a day with every stat at zero surrenders. */
+const levelThresholds: [WelfareLevel, number][] = [
+  ["surrendered", 144],
+  ["finalWarning", 72],
+  ["concern", 24],
+];
+
+/** Stats the tracker watches; bladder and energy take care of themselves. */
+const WATCHED_STATS: StatKey[] = ["hunger", "thirst", "hygiene", "happiness", "health"];
+
+export interface Welfare {
+  /** Critical stat-hours, less what good care has worn off. */
+  score: number;
+  level: WelfareLevel;
+  /** Total hours each stat spent at a critical level, for the end-of-journey summary. */
+  criticalHours: Partial<Record<StatKey, number>>;
+}
+
+export const INITIAL_WELFARE: Welfare = { score: 0, level: "ok", criticalHours: {} };
+
+export const welfareLevelLabels: Record<WelfareLevel, string> = {
+  ok: "Fine",
+  concern: "Welfare concern",
+  finalWarning: "Final welfare warning",
+  surrendered: "Surrendered",
+};
+
+const statNames: Record<StatKey, string> = {
+  hunger: "Food",
+  thirst: "Water",
+  hygiene: "Hygiene",
+  happiness: "Happiness",
+  energy: "Energy",
+  health: "Health",
+  bladder: "Bladder",
+};
+
+/** Watched stats at a critical level right now. */
+export function getCriticalStats(stats: PetStats, untrackedStats: StatKey[] = []): StatKey[] {
+  return WATCHED_STATS.filter(
+    (stat) => !untrackedStats.includes(stat) && stats[stat] <= (stat === "health" ? CRITICAL_HEALTH : CRITICAL_LEVEL)
+  );
+}
+
+export function getWelfareLevel(score: number): WelfareLevel {
+  return levelThresholds.find(([, threshold]) => score >= threshold)?.[0] ?? "ok";
+}
+
+/** How far the score is toward surrender, 0–1. */
+export const getSurrenderProgress = (welfare: Welfare) => Math.min(1, welfare.score / levelThresholds[0][1]);
+
+/**
+ * The tracker after `minutes` at these stats; a surrendered pet stays surrendered. In paid care nothing counts as
+ * the owner's neglect, though hours with nothing critical still wear the score down.
+ */
+export function trackWelfare(
+  welfare: Welfare,
+  stats: PetStats,
+  minutes: number,
+  untrackedStats: StatKey[] = [],
+  inPaidCare = false
+): Welfare {
+  if (welfare.level === "surrendered") return welfare;
+  const critical = getCriticalStats(stats, untrackedStats);
+  if (inPaidCare && critical.length) return welfare;
+  const hours = minutes / 60;
+  const score = critical.length ? welfare.score + critical.length * hours : Math.max(0, welfare.score - RECOVERY_PER_HOUR * hours);
+  const criticalHours = { ...welfare.criticalHours };
+  for (const stat of critical) criticalHours[stat] = (criticalHours[stat] ?? 0) + hours;
+  return { score, level: getWelfareLevel(score), criticalHours };
+}
+
+/** Event-log line when the welfare level changes. */
+export function getWelfareEvent(from: WelfareLevel, to: WelfareLevel, name: string, time: number): SimEvent {
+  if (to === "surrendered") {
+    return {
+      message: `An animal welfare officer has taken ${name} back to the shelter 🏚️`,
+      timestamp: time,
+      alert: { level: "error", text: `${name} has been surrendered after sustained neglect.` },
+    };
+  }
+  if (to === "finalWarning") {
+    return {
+      message: `Final warning: a welfare officer inspected ${name}'s home. Fix ${name}'s care now or ${name} will be taken away ⚠️`,
+      timestamp: time,
+      alert: { level: "error", text: `Final welfare warning! ${name} will be surrendered if neglect continues.` },
+    };
+  }
+  if (to === "concern" && from === "ok") {
+    return {
+      message: `Neighbours reported ${name} to animal welfare: needs have been left critical for too long ⚠️`,
+      timestamp: time,
+      alert: { level: "error", text: `Welfare concern: ${name} is being neglected.` },
+    };
+  }
+  return {
+    message: to === "ok" ? `Welfare concerns about ${name} have been lifted 🙏` : `${name}'s care is improving; the welfare officer eased off`,
+    timestamp: time,
+    alert: { level: "success", text: `${name} is being looked after again.` },
+  };
+}
+
+/** What drove the surrender, worst first: "Food was critical for 31 hours". */
+export function getNeglectReasons(welfare: Welfare): string[] {
+  return (Object.entries(welfare.criticalHours) as [StatKey, number][])
+    .filter(([, hours]) => hours >= 1)
+    .sort((a, b) => b[1] - a[1])
+    .map(([stat, hours]) => `${statNames[stat]} was critical for ${Math.round(hours)} hours`);
+}
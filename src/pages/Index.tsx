@@ -7,7 +7,10 @@ import { useState } from "react";
 import { IntroSequence } from "@/components/IntroSequence";
 import { PetSelection } from "@/components/PetSelection";
 import { Dashboard } from "@/components/Dashboard";
-import { petConfigs, PetType } from "@/lib/petConfig";
+import { getBreedConfig, petConfigs, PetType, type LifeStageId } from "@/lib/petConfig";
+import { getAdoptionBirthDate } from "@/lib/lifeStages";
+import { IDEAL_BODY_CONDITION } from "@/lib/bodyCondition";
+import { INITIAL_BOND } from "@/lib/bond";
 
 function getInitialStageAndPet(): { stage: "intro" | "selection" | "dashboard"; pet: any } {
   if (typeof window === "undefined") return { stage: "intro", pet: null };
@@ -46,8 +49,8 @@ const Index = () => {
   };
 
   /** Dog: hunger/energy vary by time (sleep 10p–6a, feeds ~7a and 7p). Other pets: use config. */
-  const calculateInitialStats = (type: string) => {
-    const petConfig = petConfigs[type as PetType] || petConfigs.dog;
+  const calculateInitialStats = (type: string, breed: string) => {
+    const petConfig = getBreedConfig(petConfigs[type as PetType] || petConfigs.dog, breed);
 
     if (type === "dog") {
       const now = new Date();
@@ -117,6 +120,8 @@ const Index = () => {
         hygiene: petConfig.initialStats.hygiene,
         energy: Math.round(energy),
         thirst: petConfig.initialStats.thirst,
+        health: petConfig.initialStats.health,
+        bladder: petConfig.initialStats.bladder,
       };
     }
     
@@ -124,13 +129,17 @@ const Index = () => {
     return petConfig.initialStats;
   };
 
-  const handlePetSelect = (type: string, name: string) => {
-    const petConfig = petConfigs[type as PetType] || petConfigs.dog;
+  const handlePetSelect = (type: string, name: string, stage: LifeStageId, breed: string) => {
+    const petConfig = getBreedConfig(petConfigs[type as PetType] || petConfigs.dog, breed);
     const newPet = {
       type,
       name,
-      stats: calculateInitialStats(type),
+      breed,
+      stats: calculateInitialStats(type, breed),
       emotion: "happy" as const,
+      birthDate: getAdoptionBirthDate(petConfig, stage, Date.now()),
+      bodyCondition: IDEAL_BODY_CONDITION,
+      bond: INITIAL_BOND,
     };
     setPet(newPet);
     setStage("dashboard");
@@ -139,6 +148,7 @@ const Index = () => {
   const handleReset = () => {
     setPet(null);
     localStorage.removeItem("vpet_pet_data"); // Clear saved pet data
+    localStorage.removeItem("vpet_pet_inputs");
     setStage("selection");
   };
 
@@ -16,13 +16,13 @@ const existingQAs = [
   {
     id: 2,
     question: "When does my pet sleep?",
-    answer: "Pets sleep between 10 PM and 6 AM. Energy goes up and other stats drop more slowly during that time.",
+    answer: "Each species keeps its own hours (dogs 10 PM to 6 AM, cats 8 PM to 6 AM, hamsters through the day), and cats and rabbits also nap in the early afternoon. Energy goes up and other stats drop more slowly while asleep. Use Sleep Schedule in the options menu to move bedtime or change the night's length within what's healthy for the species. Times follow your pet's home time zone, so daylight saving or opening the game while traveling doesn't shift them.",
     date: "3 days ago"
   },
   {
     id: 3,
     question: "What happens if stats get too low?",
-    answer: "Low stats change your pet's mood. Use the care actions (feed, bathe, rest, etc.) to raise them again.",
+    answer: "Low stats change your pet's mood: it shows as hungry, thirsty, dirty or tired, and the line under your pet says why. Use the care actions (feed, bathe, rest, etc.) to raise them again.",
     date: "5 days ago"
   },
   {
@@ -40,8 +40,50 @@ const existingQAs = [
   {
     id: 6,
     question: "What do the different stats mean?",
-    answer: "Hunger and thirst: food and water. Energy: rest. Hygiene: baths. Happiness: overall state from the other stats.",
+    answer: "Hunger and thirst: food and water. Energy: rest. Hygiene: baths. Happiness: overall state from the other stats. Health: drops when neglect makes your pet sick; a vet visit diagnoses and treats it. Bladder: take dogs out for potty breaks; cats, rabbits, parrots, hamsters and guinea pigs go in their litter box, hutch or cage, which needs regular cleaning or they have accidents. Fish and turtle tanks get dirtier every day; regular water changes keep the water quality up and prevent illness.",
     date: "2 weeks ago"
+  },
+  {
+    id: 7,
+    question: "Why doesn't my pet act like my friend's?",
+    answer: "Every pet gets two personality traits at adoption (energetic, anxious, food-motivated, independent or cuddly). They change how fast stats drop and how much your pet enjoys or minds each action. Hover a trait on the pet card to see what it does.",
+    date: "2 weeks ago"
+  },
+  {
+    id: 8,
+    question: "What is the Bond bar?",
+    answer: "Bond is your long-term relationship with your pet. It grows a little every day its needs are met on time, and faster on a streak of good days. Neglect, days away and repeating care your pet hates (like extra baths) cost trust. A closer bond makes your pet enjoy care more and show happiness sooner; the report shows how it trended.",
+    date: "1 week ago"
+  },
+  {
+    id: 9,
+    question: "What happens while I'm at work or school?",
+    answer: "Enter your weekly schedule under the options menu (My Schedule). While you're out, care actions wait until you're back and your pet is home alone. Dogs and parrots struggle after a few hours and can develop separation anxiety; cats, rabbits and guinea pigs get lonely on long days; hamsters, fish and turtles don't mind. The report's Alone tab shows how many hours a day your pet spent alone.",
+    date: "1 week ago"
+  },
+  {
+    id: 10,
+    question: "Does the weather matter?",
+    answer: "Yes. Every day has its own weather for the season, shown in the top bar. Heat waves make your pet thirsty much faster, and cold snaps run down energy and food. Dog walks are called off in thunderstorms and blizzards, cut short in the rain, and wet days send your dog home muddy. The report points out the weather days behind unusual dips in a stat.",
+    date: "1 week ago"
+  },
+  {
+    id: 11,
+    question: "What happens to my pet when I go on holiday?",
+    answer: "Use Plan a Trip in the menu to book the dates and choose who looks after your pet. A boarding kennel charges a daily fee and covers every need day and night, though the strange place is a little stressful. A pet sitter charges per visit and does the tasks you pick, so book enough visits to keep food and water topped up. Kennels and sitters take a sick pet to the vet and add the bill to the trip. A friend does the sitter's tasks for free but doesn't always turn up. You'll see the estimated cost before booking, and whoever you chose keeps caring for your pet even while the game is closed.",
+    date: "1 week ago"
+  },
+  {
+    id: 12,
+    question: "What is an emergency?",
+    answer: "Now and then something serious happens: a dog swallows a sock, a parrot breaks a wing, a rabbit's gut shuts down, or a pet overheats in a heat wave. Unhappy, hungry or thirsty pets are more at risk. A countdown starts and your pet's health drops until you decide. The emergency vet is expensive and the bill varies, but your pet will be okay. If you wait it out, your pet might pull through on its own or might be badly hurt. Every emergency and how it ended is listed in the report.",
+    date: "1 week ago"
+  },
+  {
+    id: 13,
+    question: "Can my pet be taken away?",
+    answer: "Yes. If food, water, hygiene, happiness or health stay at a critical level for too long, neighbours report it and you get a welfare warning, then a final warning. If the neglect carries on, your pet is surrendered to a shelter and the journey ends with a summary of what went wrong. Good care wears the warnings off again. While a kennel or sitter is booked they answer for your pet, so warnings don't build up during the trip; a friend's help is a favour, so neglect while they're minding your pet still counts against you.",
+    date: "1 week ago"
   }
 ];
 